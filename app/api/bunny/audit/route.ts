@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getZoneKey } from '../../../lib/storage'
+import { formatAuditCsv, readAuditLog } from '../../../lib/audit-log'
+import { getSessionConnection, notConnectedResponse } from '../../../lib/session'
+import { getContentDisposition } from '../../../lib/http'
+
+const DEFAULT_LIMIT = 500
+
+/**
+ * Searches the audit log of the connected storage zone. With ?format=csv or
+ * ?format=json every matching entry is returned as a file download.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams
+    const connection = getSessionConnection(request, searchParams.get('connectionId'))
+    const format = searchParams.get('format')
+
+    if (!connection) {
+      return notConnectedResponse()
+    }
+
+    if (format && format !== 'csv' && format !== 'json') {
+      return NextResponse.json(
+        { error: 'Unsupported export format' },
+        { status: 400 }
+      )
+    }
+
+    const { entries, total } = await readAuditLog({
+      zone: getZoneKey(connection),
+      text: searchParams.get('q') || undefined,
+      operation: searchParams.get('operation') || undefined,
+      result: searchParams.get('result') || undefined,
+      limit: format ? undefined : Number(searchParams.get('limit')) || DEFAULT_LIMIT,
+    })
+
+    if (!format) {
+      return NextResponse.json({ entries, total })
+    }
+
+    const filename = `activity-${connection.user}-${new Date().toISOString().slice(0, 10)}.${format}`
+    return new Response(format === 'csv' ? formatAuditCsv(entries) : JSON.stringify(entries, null, 2), {
+      headers: {
+        'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json',
+        'Content-Disposition': getContentDisposition(filename),
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (error: any) {
+    console.error('Failed to read audit log:', error)
+    return NextResponse.json(
+      { error: 'Failed to read audit log' },
+      { status: 500 }
+    )
+  }
+}
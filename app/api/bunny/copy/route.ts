@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createStorageProvider, getZoneKey, StorageError } from '../../../lib/storage'
+import { copyEntries, isHiddenPath, listTree, moveEntries, parseConflictPolicy, toFolderPath, toObjectPath, TreeEntry } from '../../../lib/storage/operations'
+import { getTrashSettings, moveToTrash } from '../../../lib/storage/trash'
+import { getActorName, getSessionConnection, notConnectedResponse } from '../../../lib/session'
+import { createProgressResponse } from '../../../lib/progress-stream'
+import { OperationItemResult } from '../../../types/bunny'
+import { audited, recordAudit, summarizeReport } from '../../../lib/audit-log'
+import { purgeAfterChange } from '../../../lib/cdn-purge'
+
+/**
+ * Copies a file or folder tree to a target path, optionally in another zone of
+ * the same session. Data flows server to storage only; progress is streamed
+ * back as newline-delimited JSON events. With `move` set, each source file is
+ * deleted once it has been copied, so items can be moved between zones.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const connection = getSessionConnection(request, body.connectionId)
+    const targetConnection = body.targetConnectionId
+      ? getSessionConnection(request, body.targetConnectionId)
+      : connection
+    const { from, to } = body
+    const conflict = parseConflictPolicy(body.conflict, 'skip')
+    const move = body.move === true
+    const action: 'move' | 'copy' = move ? 'move' : 'copy'
+
+    if (!connection || !targetConnection) {
+      return notConnectedResponse()
+    }
+
+    if (typeof from !== 'string' || typeof to !== 'string' || !from || !to || !conflict) {
+      return NextResponse.json(
+        { error: 'Missing required fields' },
+        { status: 400 }
+      )
+    }
+
+    if (isHiddenPath(from) || isHiddenPath(to)) {
+      return NextResponse.json(
+        { error: `Failed to ${action}: This folder is managed by the app` },
+        { status: 400 }
+      )
+    }
+
+    const sameZone = getZoneKey(connection) === getZoneKey(targetConnection)
+    const source = createStorageProvider(connection)
+    const destination = createStorageProvider(targetConnection)
+
+    let entries: TreeEntry[]
+    let target: string
+    if (body.isDirectory) {
+      if (sameZone && toFolderPath(to).startsWith(toFolderPath(from))) {
+        return NextResponse.json(
+          { error: `Cannot ${action} a folder into itself` },
+          { status: 400 }
+        )
+      }
+      entries = await listTree(source, from)
+      target = toFolderPath(to)
+    } else {
+      if (sameZone && toObjectPath(from) === toObjectPath(to)) {
+        return NextResponse.json(
+          { error: 'Source and target are the same file' },
+          { status: 400 }
+        )
+      }
+      const file = await source.stat(toObjectPath(from))
+      if (!file) {
+        return NextResponse.json(
+          { error: `Failed to ${action}: File not found` },
+          { status: 404 }
+        )
+      }
+      // A single file is copied as a one-entry tree rooted at the target's parent
+      const targetPath = toObjectPath(to)
+      const separator = targetPath.lastIndexOf('/')
+      entries = [{ path: toObjectPath(from), relativePath: targetPath.slice(separator + 1), file }]
+      target = targetPath.slice(0, separator + 1)
+    }
+
+    // Leaving a zone counts as deleting from it, so originals go to the source zone's trash when it is on
+    const useTrash = move && !sameZone && (await getTrashSettings(source)).enabled
+    const removeSource = useTrash
+      ? async (path: string) => {
+        const report = await moveToTrash(source, getZoneKey(connection), path, false, getActorName(connection))
+        if (report.failed > 0) {
+          throw new StorageError(report.items[0].error || 'Could not move the original to the trash', 500)
+        }
+      }
+      : undefined
+
+    return createProgressResponse(`Failed to ${action}`, async (send, isCancelled) => {
+      send({
+        type: 'start',
+        total: entries.length,
+        bytes: entries.reduce((sum, entry) => sum + entry.file.Length, 0),
+      })
+      const details = {
+        operation: action,
+        paths: body.isDirectory ? [toFolderPath(from), toFolderPath(to)] : [toObjectPath(from), toObjectPath(to)],
+        note: sameZone ? undefined : `To ${getZoneKey(targetConnection)}${useTrash ? ', originals moved to trash' : ''}`,
+      }
+      const onItem = (item: OperationItemResult) => send({ type: 'item', item })
+      const report = await audited(connection, details, () => move
+        ? moveEntries(source, entries, destination, target, conflict, body.isDirectory ? toFolderPath(from) : null, onItem, isCancelled, removeSource)
+        : copyEntries(source, entries, destination, target, conflict, onItem, isCancelled), summarizeReport)
+      // Transfers into another zone also show up in that zone's activity
+      if (!sameZone) await recordAudit(targetConnection, { ...details, note: `From ${getZoneKey(connection)}`, ...summarizeReport(report) })
+      // Copies only change their target; moves also remove the source, which may be in another zone
+      await purgeAfterChange(targetConnection, action, [details.paths[1]], report)
+      if (move) await purgeAfterChange(connection, action, [details.paths[0]], report)
+      return report
+    })
+  } catch (error: any) {
+    console.error('Failed to copy:', error)
+
+    if (error instanceof StorageError && error.status) {
+      return NextResponse.json(
+        { error: `Failed to copy: ${error.message}` },
+        { status: error.status }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to copy' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,53 +1,55 @@
 import { NextRequest, NextResponse } from 'next/server'
-import axios from 'axios'
+import { Readable } from 'stream'
+import { createStorageProvider, StorageError } from '../../../lib/storage'
+import { getSessionConnection, notConnectedResponse } from '../../../lib/session'
+import { getContentDisposition } from '../../../lib/http'
 
 export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams
-    const host = searchParams.get('host')
-    const user = searchParams.get('user')
-    const password = searchParams.get('password')
+    const connection = getSessionConnection(request, searchParams.get('connectionId'))
     const path = searchParams.get('path')
 
-    if (!host || !user || !password || !path) {
+    if (!connection) {
+      return notConnectedResponse()
+    }
+
+    if (!path) {
       return NextResponse.json(
         { error: 'Missing required fields' },
         { status: 400 }
       )
     }
 
-    // Construct the base URL
-    const cleanHost = host.replace(/^https?:\/\//, '')
-    const baseUrl = `https://${cleanHost}/${user}/`
-    
-    // Normalize path
-    const normalizedPath = path.startsWith('/') ? path.substring(1) : path
-    const url = `${baseUrl}${normalizedPath}`
+    // Forward Range requests so media players can seek and browsers can resume downloads
+    const provider = createStorageProvider(connection)
+    const object = await provider.download(path, {
+      range: request.headers.get('range') || undefined,
+    })
 
-    // Download file
-    const response = await axios.get(url, {
-      headers: {
-        'AccessKey': password,
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-      },
-      responseType: 'arraybuffer',
+    const headers = new Headers({
+      'Content-Type': object.contentType,
+      'Content-Disposition': getContentDisposition(path.split('/').pop() || 'download', searchParams.get('inline') === '1'),
+      'Accept-Ranges': 'bytes',
+      'Cache-Control': 'private, no-cache',
     })
+    if (object.contentLength !== undefined) headers.set('Content-Length', String(object.contentLength))
+    if (object.contentRange) headers.set('Content-Range', object.contentRange)
+    if (object.etag) headers.set('ETag', object.etag)
+    if (object.lastModified) headers.set('Last-Modified', object.lastModified)
 
-    // Return the file as a blob
-    return new NextResponse(response.data, {
-      headers: {
-        'Content-Type': response.headers['content-type'] || 'application/octet-stream',
-        'Content-Disposition': `attachment; filename="${path.split('/').pop()}"`,
-      },
+    // Stream the upstream body instead of buffering the whole object
+    return new NextResponse(Readable.toWeb(object.body) as ReadableStream<Uint8Array>, {
+      status: object.status,
+      headers,
     })
   } catch (error: any) {
     console.error('Failed to download file:', error)
     
-    if (error.response) {
+    if (error instanceof StorageError && error.status) {
       return NextResponse.json(
-        { error: `Failed to download file: ${error.response.status} ${error.response.statusText}` },
-        { status: error.response.status }
+        { error: `Failed to download file: ${error.message}` },
+        { status: error.status }
       )
     }
     
@@ -57,4 +59,3 @@ export async function GET(request: NextRequest) {
     )
   }
 }
-
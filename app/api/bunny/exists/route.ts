@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createStorageProvider, StorageError } from '../../../lib/storage'
+import { findExisting } from '../../../lib/storage/operations'
+import { getSessionConnection, notConnectedResponse } from '../../../lib/session'
+
+const MAX_PATHS = 5000
+
+// Pre-flight check before uploads, moves and copies: returns the paths that already exist
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const connection = getSessionConnection(request, body.connectionId)
+    const paths = body.paths
+
+    if (!connection) {
+      return notConnectedResponse()
+    }
+
+    if (!Array.isArray(paths) || paths.length > MAX_PATHS || !paths.every(path => typeof path === 'string' && path)) {
+      return NextResponse.json(
+        { error: 'Missing required fields' },
+        { status: 400 }
+      )
+    }
+
+    const provider = createStorageProvider(connection)
+    return NextResponse.json({ existing: await findExisting(provider, paths) })
+  } catch (error: any) {
+    console.error('Failed to check existing files:', error)
+
+    if (error instanceof StorageError && error.status) {
+      return NextResponse.json(
+        { error: `Failed to check existing files: ${error.message}` },
+        { status: error.status }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to check existing files' },
+      { status: 500 }
+    )
+  }
+}
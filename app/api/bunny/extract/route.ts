@@ -0,0 +1,94 @@
+import { promises as fs } from 'fs'
+import { NextRequest, NextResponse } from 'next/server'
+import { Readable } from 'stream'
+import { ReadableStream as NodeReadableStream } from 'stream/web'
+import yauzl from 'yauzl'
+import { createStorageProvider, StorageError } from '../../../lib/storage'
+import { ArchiveFileEntry, extractArchive, listArchiveFiles, openArchive, stageArchive } from '../../../lib/storage/extract'
+import { getErrorMessage, isHiddenPath, parseConflictPolicy, toFolderPath } from '../../../lib/storage/operations'
+import { createProgressResponse } from '../../../lib/progress-stream'
+import { getSessionConnection, notConnectedResponse } from '../../../lib/session'
+import { audited, summarizeReport } from '../../../lib/audit-log'
+import { purgeAfterChange } from '../../../lib/cdn-purge'
+
+// Receives a ZIP as the raw request body and extracts it into `path`, streaming progress
+export async function POST(request: NextRequest) {
+  let archiveFile: string | null = null
+  let zipFile: yauzl.ZipFile | null = null
+
+  const cleanup = async () => {
+    zipFile?.close()
+    if (archiveFile) await fs.rm(archiveFile, { force: true })
+  }
+
+  try {
+    const searchParams = request.nextUrl.searchParams
+    const connection = getSessionConnection(request, searchParams.get('connectionId'))
+    const path = searchParams.get('path') || '/'
+    const conflict = parseConflictPolicy(searchParams.get('conflict'), 'skip')
+
+    if (!connection) {
+      return notConnectedResponse()
+    }
+
+    if (!request.body || !conflict) {
+      return NextResponse.json(
+        { error: 'Missing required fields' },
+        { status: 400 }
+      )
+    }
+
+    if (isHiddenPath(path)) {
+      return NextResponse.json(
+        { error: 'Failed to extract: This folder is managed by the app' },
+        { status: 400 }
+      )
+    }
+
+    archiveFile = await stageArchive(Readable.fromWeb(request.body as NodeReadableStream<Uint8Array>))
+
+    let files: ArchiveFileEntry[]
+    try {
+      zipFile = await openArchive(archiveFile)
+      files = await listArchiveFiles(zipFile)
+    } catch (error) {
+      await cleanup()
+      return NextResponse.json(
+        { error: `Failed to extract: ${getErrorMessage(error)}` },
+        { status: 400 }
+      )
+    }
+
+    const provider = createStorageProvider(connection)
+    const openedZipFile = zipFile
+    return createProgressResponse('Failed to extract', async (send, isCancelled) => {
+      send({
+        type: 'start',
+        total: files.length,
+        bytes: files.reduce((sum, file) => sum + file.size, 0),
+      })
+      const report = await audited(connection, { operation: 'extract', paths: [toFolderPath(path)] }, () => extractArchive(
+        openedZipFile, files, provider, path, conflict,
+        (item) => send({ type: 'item', item }),
+        isCancelled
+      ), summarizeReport)
+      await purgeAfterChange(connection, 'extract', [toFolderPath(path)], report)
+      return report
+    }, cleanup)
+  } catch (error: any) {
+    console.error('Failed to extract:', error)
+    await cleanup()
+
+    if (error instanceof StorageError && error.status) {
+      return NextResponse.json(
+        { error: `Failed to extract: ${error.message}` },
+        { status: error.status }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to extract' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,46 +1,38 @@
 import { NextRequest, NextResponse } from 'next/server'
-import axios from 'axios'
+import { Readable } from 'stream'
+import { ReadableStream as NodeReadableStream } from 'stream/web'
+import { createStorageProvider, getZoneKey, StorageError } from '../../../lib/storage'
+import { isValidChecksum } from '../../../lib/storage/checksum'
+import { deleteTree, isHiddenPath, isSafeRelativePath, parseConflictPolicy, resolveConflict, toFolderPath, toObjectPath } from '../../../lib/storage/operations'
+import { getTrashSettings, moveToTrash } from '../../../lib/storage/trash'
+import { snapshotVersion } from '../../../lib/storage/versions'
+import { getActorName, getSessionConnection, notConnectedResponse } from '../../../lib/session'
+import { audited, recordAudit, summarizeReport } from '../../../lib/audit-log'
+import { purgeAfterChange } from '../../../lib/cdn-purge'
 
 export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams
-    const host = searchParams.get('host')
-    const user = searchParams.get('user')
-    const password = searchParams.get('password')
+    const connection = getSessionConnection(request, searchParams.get('connectionId'))
     const path = searchParams.get('path') || '/'
 
-    if (!host || !user || !password) {
-      return NextResponse.json(
-        { error: 'Missing required fields' },
-        { status: 400 }
-      )
+    if (!connection) {
+      return notConnectedResponse()
     }
 
-    // Construct the base URL
-    const cleanHost = host.replace(/^https?:\/\//, '')
-    const baseUrl = `https://${cleanHost}/${user}/`
-    
-    // Normalize path
-    const normalizedPath = path === '/' ? '' : path.startsWith('/') ? path.substring(1) : path
-    const url = `${baseUrl}${normalizedPath}${normalizedPath ? '/' : ''}`
-
     // List files
-    const response = await axios.get(url, {
-      headers: {
-        'AccessKey': password,
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-      },
-    })
+    const provider = createStorageProvider(connection)
+    const files = await provider.list(path)
+    const folder = toFolderPath(path)
 
-    return NextResponse.json(response.data)
+    return NextResponse.json(isHiddenPath(folder) ? files : files.filter(file => !isHiddenPath(`${folder}${file.ObjectName}`)))
   } catch (error: any) {
     console.error('Failed to list files:', error)
     
-    if (error.response) {
+    if (error instanceof StorageError && error.status) {
       return NextResponse.json(
-        { error: `Failed to list files: ${error.response.status} ${error.response.statusText}` },
-        { status: error.response.status }
+        { error: `Failed to list files: ${error.message}` },
+        { status: error.status }
       )
     }
     
@@ -53,47 +45,82 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    const formData = await request.formData()
-    const host = formData.get('host') as string
-    const user = formData.get('user') as string
-    const password = formData.get('password') as string
-    const path = (formData.get('path') as string) || '/'
-    const file = formData.get('file') as File
-
-    if (!host || !user || !password || !file) {
+    // The request body is the raw file content; metadata travels in the query string
+    const searchParams = request.nextUrl.searchParams
+    const connection = getSessionConnection(request, searchParams.get('connectionId'))
+    const path = searchParams.get('path') || '/'
+    const name = searchParams.get('name')
+    // Overwriting stays the default so plain API clients keep their behaviour
+    const conflict = parseConflictPolicy(searchParams.get('conflict'), 'overwrite')
+    // SHA-256 computed by the browser; storage rejects the upload if the received content differs
+    const checksum = searchParams.get('checksum') || undefined
+    // Lets the image optimizer's uploads show up as such in the audit log
+    const operation = searchParams.get('operation') === 'optimize' ? 'optimize' : 'upload'
+
+    if (!connection) {
+      return notConnectedResponse()
+    }
+
+    if (!name || !request.body || !conflict) {
       return NextResponse.json(
         { error: 'Missing required fields' },
         { status: 400 }
       )
     }
 
-    // Construct the base URL
-    const cleanHost = host.replace(/^https?:\/\//, '')
-    const baseUrl = `https://${cleanHost}/${user}/`
-    
+    // The name may carry a relative path so folder uploads keep their structure
+    if (!isSafeRelativePath(name)) {
+      return NextResponse.json(
+        { error: 'Invalid file name' },
+        { status: 400 }
+      )
+    }
+
+    if (checksum && !isValidChecksum(checksum)) {
+      return NextResponse.json(
+        { error: 'Invalid checksum' },
+        { status: 400 }
+      )
+    }
+
     // Normalize path
-    const normalizedPath = path === '/' ? '' : path.startsWith('/') ? path.substring(1) : path
-    const uploadPath = `${baseUrl}${normalizedPath}${file.name}`
-
-    // Convert File to Buffer
-    const arrayBuffer = await file.arrayBuffer()
-    const buffer = Buffer.from(arrayBuffer)
-
-    // Upload file
-    await axios.put(uploadPath, buffer, {
-      headers: {
-        'AccessKey': password,
-      },
+    const normalizedPath = path.endsWith('/') ? path : `${path}/`
+
+    // Checked on the joined path since the name of a folder upload may start with a hidden folder
+    if (isHiddenPath(`${normalizedPath}${name}`)) {
+      return NextResponse.json(
+        { error: 'Invalid path' },
+        { status: 400 }
+      )
+    }
+    const provider = createStorageProvider(connection)
+    const uploadPath = await resolveConflict(provider, `${normalizedPath}${name}`, conflict)
+    if (!uploadPath) {
+      await recordAudit(connection, { operation, paths: [`${normalizedPath}${name}`], result: 'skipped', note: 'An item with this name already exists' })
+      return NextResponse.json({ success: true, path: `${normalizedPath}${name}`, skipped: true })
+    }
+
+    const contentLength = request.headers.get('content-length')
+    const size = contentLength ? Number(contentLength) : undefined
+
+    await audited(connection, { operation, paths: [uploadPath], bytes: size }, async () => {
+      // Keeps the content about to be replaced when the zone has version history on
+      await snapshotVersion(provider, uploadPath)
+
+      // Stream the body straight through to storage instead of buffering the whole file
+      const body = Readable.fromWeb(request.body as unknown as NodeReadableStream<Uint8Array>)
+      await provider.upload(uploadPath, body, size, checksum)
     })
+    await purgeAfterChange(connection, operation, [uploadPath])
 
-    return NextResponse.json({ success: true })
+    return NextResponse.json({ success: true, path: uploadPath, skipped: false })
   } catch (error: any) {
     console.error('Failed to upload file:', error)
     
-    if (error.response) {
+    if (error instanceof StorageError && error.status) {
       return NextResponse.json(
-        { error: `Failed to upload file: ${error.response.status} ${error.response.statusText}` },
-        { status: error.response.status }
+        { error: `Failed to upload file: ${error.message}` },
+        { status: error.status }
       )
     }
     
@@ -107,41 +134,85 @@ export async function POST(request: NextRequest) {
 export async function DELETE(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams
-    const host = searchParams.get('host')
-    const user = searchParams.get('user')
-    const password = searchParams.get('password')
+    const connection = getSessionConnection(request, searchParams.get('connectionId'))
     const path = searchParams.get('path')
 
-    if (!host || !user || !password || !path) {
+    if (!connection) {
+      return notConnectedResponse()
+    }
+
+    if (!path) {
       return NextResponse.json(
         { error: 'Missing required fields' },
         { status: 400 }
       )
     }
 
-    // Construct the base URL
-    const cleanHost = host.replace(/^https?:\/\//, '')
-    const baseUrl = `https://${cleanHost}/${user}/`
-    
-    // Normalize path
-    const normalizedPath = path.startsWith('/') ? path.substring(1) : path
-    const url = `${baseUrl}${normalizedPath}`
+    if (isHiddenPath(path)) {
+      return NextResponse.json(
+        { error: 'Failed to delete file: This folder is managed by the app' },
+        { status: 400 }
+      )
+    }
+
+    const provider = createStorageProvider(connection)
+    // With the recycle bin on, deletes move items to /.trash/ instead of removing them
+    const { enabled: useTrash } = await getTrashSettings(provider)
+
+    if (searchParams.get('recursive') === '1') {
+      // Guard against accidental calls: the caller must repeat the folder's name
+      const folderName = toObjectPath(path).split('/').pop()
+      if (!folderName || searchParams.get('confirm') !== folderName) {
+        return NextResponse.json(
+          { error: 'Folder deletion was not confirmed' },
+          { status: 400 }
+        )
+      }
+      const report = await audited(
+        connection,
+        { operation: 'delete', paths: [toFolderPath(path)], note: useTrash ? 'Moved to trash' : undefined },
+        () => useTrash
+          ? moveToTrash(provider, getZoneKey(connection), path, true, getActorName(connection))
+          : deleteTree(provider, path),
+        summarizeReport
+      )
+      await purgeAfterChange(connection, 'delete', [toFolderPath(path)], report)
+      return NextResponse.json(report)
+    }
+
+    // Storage deletes folders recursively, so they only go through the confirmed branch above
+    const isFolder = path.endsWith('/') || (await provider.stat(path))?.IsDirectory
+    if (isFolder) {
+      return NextResponse.json(
+        { error: 'Folder deletion was not confirmed' },
+        { status: 400 }
+      )
+    }
+
+    if (useTrash) {
+      await audited(connection, { operation: 'delete', paths: [path], note: 'Moved to trash' }, async () => {
+        const report = await moveToTrash(provider, getZoneKey(connection), path, false, getActorName(connection))
+        if (report.failed > 0) {
+          throw new StorageError(report.items[0].error || 'Could not move the file to the trash', 500)
+        }
+        return report
+      }, summarizeReport)
+      await purgeAfterChange(connection, 'delete', [path])
+      return NextResponse.json({ success: true, trashed: true })
+    }
 
     // Delete file
-    await axios.delete(url, {
-      headers: {
-        'AccessKey': password,
-      },
-    })
+    await audited(connection, { operation: 'delete', paths: [path] }, () => provider.delete(path))
+    await purgeAfterChange(connection, 'delete', [path])
 
     return NextResponse.json({ success: true })
   } catch (error: any) {
     console.error('Failed to delete file:', error)
     
-    if (error.response) {
+    if (error instanceof StorageError && error.status) {
       return NextResponse.json(
-        { error: `Failed to delete file: ${error.response.status} ${error.response.statusText}` },
-        { status: error.response.status }
+        { error: `Failed to delete file: ${error.message}` },
+        { status: error.status }
       )
     }
     
@@ -151,4 +222,3 @@ export async function DELETE(request: NextRequest) {
     )
   }
 }
-
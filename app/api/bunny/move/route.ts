@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createStorageProvider, StorageError } from '../../../lib/storage'
+import { createReport, isHiddenPath, moveObject, moveTree, parseConflictPolicy, toFolderPath, toObjectPath } from '../../../lib/storage/operations'
+import { getSessionConnection, notConnectedResponse } from '../../../lib/session'
+import { audited, summarizeReport } from '../../../lib/audit-log'
+import { purgeAfterChange } from '../../../lib/cdn-purge'
+
+// Moves or renames a file or folder (copy then delete; recursive for folders)
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const connection = getSessionConnection(request, body.connectionId)
+    const { from, to } = body
+    const conflict = parseConflictPolicy(body.conflict, 'skip')
+
+    if (!connection) {
+      return notConnectedResponse()
+    }
+
+    if (typeof from !== 'string' || typeof to !== 'string' || !from || !to || !conflict) {
+      return NextResponse.json(
+        { error: 'Missing required fields' },
+        { status: 400 }
+      )
+    }
+
+    if (toObjectPath(from) === '/' || toObjectPath(to) === '/') {
+      return NextResponse.json(
+        { error: 'The storage zone root cannot be moved' },
+        { status: 400 }
+      )
+    }
+
+    if (isHiddenPath(from) || isHiddenPath(to)) {
+      return NextResponse.json(
+        { error: 'Failed to move: This folder is managed by the app' },
+        { status: 400 }
+      )
+    }
+
+    const samePath = body.isDirectory ? toFolderPath(from) === toFolderPath(to) : toObjectPath(from) === toObjectPath(to)
+    if (samePath) {
+      return NextResponse.json(
+        { error: 'Failed to move: The destination is the same as the source' },
+        { status: 400 }
+      )
+    }
+
+    const provider = createStorageProvider(connection)
+
+    if (body.isDirectory) {
+      const paths = [toFolderPath(from), toFolderPath(to)]
+      const report = await audited(connection, { operation: 'move', paths }, () => moveTree(provider, from, to, conflict), summarizeReport)
+      await purgeAfterChange(connection, 'move', paths, report)
+      return NextResponse.json(report)
+    }
+
+    const paths = [toObjectPath(from), toObjectPath(to)]
+    const report = await audited(
+      connection,
+      { operation: 'move', paths },
+      async () => createReport([await moveObject(provider, toObjectPath(from), toObjectPath(to), conflict)]),
+      summarizeReport
+    )
+    await purgeAfterChange(connection, 'move', paths, report)
+    return NextResponse.json(report)
+  } catch (error: any) {
+    console.error('Failed to move:', error)
+
+    if (error instanceof StorageError && error.status) {
+      return NextResponse.json(
+        { error: `Failed to move: ${error.message}` },
+        { status: error.status }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to move' },
+      { status: 500 }
+    )
+  }
+}
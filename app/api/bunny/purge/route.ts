@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createStorageProvider, StorageError } from '../../../lib/storage'
+import { CDN_FOLDER, getCdnSettings, purgePaths, updateCdnSettings } from '../../../lib/cdn-purge'
+import { getSessionConnection, notConnectedResponse } from '../../../lib/session'
+import { audited, summarizeReport } from '../../../lib/audit-log'
+
+const MAX_PATHS = 500
+
+// Purges the pull zone URLs of files and folders (paths ending in '/') from the CDN cache
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const connection = getSessionConnection(request, body.connectionId)
+    const paths = Array.isArray(body.paths) ? body.paths.filter((path: unknown): path is string => typeof path === 'string' && path !== '') : []
+
+    if (!connection) {
+      return notConnectedResponse()
+    }
+
+    if (paths.length === 0) {
+      return NextResponse.json(
+        { error: 'Missing required fields' },
+        { status: 400 }
+      )
+    }
+
+    if (paths.length > MAX_PATHS) {
+      return NextResponse.json(
+        { error: `At most ${MAX_PATHS} paths can be purged at once` },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(await audited(
+      connection,
+      { operation: 'purgeCache', paths },
+      () => purgePaths(connection, paths),
+      summarizeReport
+    ))
+  } catch (error: any) {
+    console.error('Failed to purge cache:', error)
+
+    if (error instanceof StorageError && error.status) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to purge cache' },
+      { status: 500 }
+    )
+  }
+}
+
+// Returns the zone's CDN settings
+export async function GET(request: NextRequest) {
+  try {
+    const connection = getSessionConnection(request, request.nextUrl.searchParams.get('connectionId'))
+
+    if (!connection) {
+      return notConnectedResponse()
+    }
+
+    return NextResponse.json(await getCdnSettings(createStorageProvider(connection)))
+  } catch (error: any) {
+    console.error('Failed to load CDN settings:', error)
+
+    if (error instanceof StorageError && error.status) {
+      return NextResponse.json(
+        { error: `Failed to load CDN settings: ${error.message}` },
+        { status: error.status }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to load CDN settings' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const connection = getSessionConnection(request, body.connectionId)
+
+    if (!connection) {
+      return notConnectedResponse()
+    }
+
+    if (typeof body.purgeAfterChanges !== 'boolean') {
+      return NextResponse.json(
+        { error: 'Missing required fields' },
+        { status: 400 }
+      )
+    }
+
+    const provider = createStorageProvider(connection)
+    return NextResponse.json(await audited(
+      connection,
+      { operation: 'updateSettings', paths: [CDN_FOLDER], note: `Purge CDN cache after changes ${body.purgeAfterChanges ? 'on' : 'off'}` },
+      () => updateCdnSettings(provider, { purgeAfterChanges: body.purgeAfterChanges })
+    ))
+  } catch (error: any) {
+    console.error('Failed to update CDN settings:', error)
+
+    if (error instanceof StorageError && error.status) {
+      return NextResponse.json(
+        { error: `Failed to update CDN settings: ${error.message}` },
+        { status: error.status }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update CDN settings' },
+      { status: 500 }
+    )
+  }
+}
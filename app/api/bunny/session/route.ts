@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { readSession, toPublicConnection, writeSession } from '../../../lib/session'
+
+export async function GET(request: NextRequest) {
+  const session = readSession(request)
+  return NextResponse.json({
+    connections: session.connections.map(toPublicConnection),
+  })
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const connectionId = request.nextUrl.searchParams.get('connectionId')
+    const session = readSession(request)
+
+    // Without a connection ID the whole session is closed
+    session.connections = connectionId
+      ? session.connections.filter(connection => connection.id !== connectionId)
+      : []
+
+    const response = NextResponse.json({ success: true })
+    writeSession(response, session)
+    return response
+  } catch (error: any) {
+    console.error('Failed to close session:', error)
+    return NextResponse.json(
+      { error: 'Failed to close session' },
+      { status: 500 }
+    )
+  }
+}
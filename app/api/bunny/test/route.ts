@@ -1,49 +1,118 @@
 import { NextRequest, NextResponse } from 'next/server'
-import axios from 'axios'
+import { createStorageProvider, getConnectionFromFields, isLocalProviderAllowed, StorageError } from '../../../lib/storage'
+import { addSessionConnection, readSession, toPublicConnection, writeSession } from '../../../lib/session'
+import { getManagedZone, isManagedOnly } from '../../../lib/managed-zones'
+import { findZoneRegion, probeHost } from '../../../lib/region-probe'
+import { claimManagedZoneRun, runDiagnostics } from '../../../lib/diagnostics'
+import { BunnyConnection } from '../../../types/bunny'
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { host, user, password } = body
+    let connection: BunnyConnection
 
-    if (!host || !user || !password) {
-      return NextResponse.json(
-        { success: false, error: 'Missing required fields' },
-        { status: 400 }
-      )
+    if (body.zone) {
+      // Managed zone: credentials come from server-only BUNNY_* environment variables
+      const zone = getManagedZone(String(body.zone))
+      if (!zone) {
+        return NextResponse.json(
+          { success: false, error: 'Unknown managed storage zone' },
+          { status: 404 }
+        )
+      }
+      connection = zone.connection
+    } else {
+      if (isManagedOnly()) {
+        return NextResponse.json(
+          { success: false, error: 'Manual connections are disabled on this server. Please pick a managed storage zone.' },
+          { status: 403 }
+        )
+      }
+
+      const fields = getConnectionFromFields(key => body[key])
+      if (!fields) {
+        return NextResponse.json(
+          { success: false, error: 'Missing required fields' },
+          { status: 400 }
+        )
+      }
+
+      if (fields.provider === 'local' && !isLocalProviderAllowed()) {
+        return NextResponse.json(
+          { success: false, error: 'The local storage provider is disabled on this server' },
+          { status: 403 }
+        )
+      }
+
+      connection = {
+        ...fields,
+        port: Number(body.port) || 443,
+        url: typeof body.url === 'string' ? body.url : '',
+        apiKey: typeof body.apiKey === 'string' && body.apiKey ? body.apiKey : undefined,
+        libraryId: typeof body.libraryId === 'string' && body.libraryId ? body.libraryId : undefined,
+      }
     }
 
-    // Construct the base URL
-    const cleanHost = host.replace(/^https?:\/\//, '')
-    const baseUrl = `https://${cleanHost}/${user}/`
+    // Optional display name; sessions have no accounts, so this is what deletes are attributed to
+    const userName = typeof body.userName === 'string' ? body.userName.trim().slice(0, 100) : ''
+    connection = { ...connection, userName: userName || undefined }
 
-    // Test the connection
+    // A probe only times a listing on the given host, without opening a session; the region picker uses it
+    if (body.probe === true && !body.zone) {
+      return NextResponse.json(await probeHost(connection, connection.host))
+    }
+
+    // Diagnostics run the whole checklist, including the pull zone, without opening a session either
+    if (body.diagnose === true) {
+      const wait = body.zone ? claimManagedZoneRun(String(body.zone)) : 0
+      if (wait > 0) {
+        return NextResponse.json(
+          { success: false, error: `Diagnostics for this zone ran less than a minute ago. Please try again in ${wait} seconds.` },
+          { status: 429 }
+        )
+      }
+      const checks = await runDiagnostics(connection)
+      return NextResponse.json({ success: checks.every(check => check.status !== 'fail'), checks })
+    }
+
+    // Test the connection by listing the storage zone root
     try {
-      const response = await axios.get(baseUrl, {
-        headers: {
-          'AccessKey': password,
-          'Content-Type': 'application/json',
-          'Accept': 'application/json',
-        },
-      })
+      const provider = createStorageProvider(connection)
+      await provider.list('/')
 
-      return NextResponse.json({
-        success: response.status === 200,
+      // Keep the credentials server-side; the browser only receives the connection ID
+      const session = readSession(request)
+      const stored = addSessionConnection(session, connection)
+
+      const response = NextResponse.json({
+        success: true,
+        connectionId: stored.id,
+        connection: toPublicConnection(stored),
       })
+      writeSession(response, session)
+      return response
     } catch (error: any) {
-      console.error('Bunny CDN connection test failed:', error)
+      console.error('Storage connection test failed:', error)
       
       let errorMessage = 'Connection failed'
-      if (error.response) {
-        const status = error.response.status
+      let suggestedHost: string | undefined
+      // Bunny refuses zones of other regions, so look for the region that does know the zone first
+      const region = error instanceof StorageError && (error.status === 401 || error.status === 404) && connection.provider !== 'local'
+        ? await findZoneRegion(connection)
+        : null
+      if (region) {
+        errorMessage = `This storage zone is in the ${region.label} region, not on ${connection.host}. Choose ${region.label} as the region and connect again.`
+        suggestedHost = region.host
+      } else if (error instanceof StorageError && error.status) {
+        const status = error.status
         if (status === 401) {
           errorMessage = 'Authentication failed. Please check your Access Key (password).'
         } else if (status === 404) {
           errorMessage = 'Storage zone not found. Please check your User (storage zone name).'
         } else {
-          errorMessage = `Server error: ${status} ${error.response.statusText}`
+          errorMessage = `Server error: ${error.message}`
         }
-      } else if (error.request) {
+      } else if (error instanceof StorageError) {
         errorMessage = 'No response from server. Check your network connection and credentials.'
       } else {
         errorMessage = error.message || 'Connection failed'
@@ -52,6 +121,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({
         success: false,
         error: errorMessage,
+        suggestedHost,
       })
     }
   } catch (error: any) {
@@ -62,4 +132,3 @@ export async function POST(request: NextRequest) {
     )
   }
 }
-
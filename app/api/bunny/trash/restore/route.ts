@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createStorageProvider, getZoneKey, StorageError } from '../../../../lib/storage'
+import { parseConflictPolicy, toFolderPath } from '../../../../lib/storage/operations'
+import { getTrashItems, restoreFromTrash } from '../../../../lib/storage/trash'
+import { getSessionConnection, notConnectedResponse } from '../../../../lib/session'
+import { audited, summarizeReport } from '../../../../lib/audit-log'
+import { purgeAfterChange } from '../../../../lib/cdn-purge'
+
+// Moves trashed items back to their original paths
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const connection = getSessionConnection(request, body.connectionId)
+    const { ids } = body
+    // Restoring next to a newer file keeps both unless told otherwise
+    const conflict = parseConflictPolicy(body.conflict, 'keepBoth')
+
+    if (!connection) {
+      return notConnectedResponse()
+    }
+
+    if (!Array.isArray(ids) || ids.length === 0 || !ids.every(id => typeof id === 'string' && id) || !conflict) {
+      return NextResponse.json(
+        { error: 'Missing required fields' },
+        { status: 400 }
+      )
+    }
+
+    const provider = createStorageProvider(connection)
+    const items = await getTrashItems(provider, ids)
+    const paths = items.map(item => item.isDirectory ? toFolderPath(item.originalPath) : item.originalPath)
+    const report = await audited(
+      connection,
+      { operation: 'restore', paths },
+      () => restoreFromTrash(provider, getZoneKey(connection), ids, conflict),
+      summarizeReport
+    )
+    await purgeAfterChange(connection, 'restore', paths, report)
+    return NextResponse.json(report)
+  } catch (error: any) {
+    console.error('Failed to restore from trash:', error)
+
+    if (error instanceof StorageError && error.status) {
+      return NextResponse.json(
+        { error: `Failed to restore from trash: ${error.message}` },
+        { status: error.status }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to restore from trash' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createStorageProvider, getZoneKey, StorageError } from '../../../lib/storage'
+import { emptyTrash, getTrashItems, listTrash, purgeTrash, updateTrashSettings } from '../../../lib/storage/trash'
+import { getSessionConnection, notConnectedResponse } from '../../../lib/session'
+import { audited, summarizeReport } from '../../../lib/audit-log'
+
+const MAX_RETENTION_DAYS = 3650
+
+// Lists the recycle bin; items past the retention period are purged on the way
+export async function GET(request: NextRequest) {
+  try {
+    const connection = getSessionConnection(request, request.nextUrl.searchParams.get('connectionId'))
+
+    if (!connection) {
+      return notConnectedResponse()
+    }
+
+    const provider = createStorageProvider(connection)
+    return NextResponse.json(await listTrash(provider, getZoneKey(connection)))
+  } catch (error: any) {
+    console.error('Failed to load trash:', error)
+
+    if (error instanceof StorageError && error.status) {
+      return NextResponse.json(
+        { error: `Failed to load trash: ${error.message}` },
+        { status: error.status }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to load trash' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const connection = getSessionConnection(request, body.connectionId)
+    const retentionDays = Number(body.retentionDays)
+
+    if (!connection) {
+      return notConnectedResponse()
+    }
+
+    if (typeof body.enabled !== 'boolean' || !Number.isInteger(retentionDays) || retentionDays < 0 || retentionDays > MAX_RETENTION_DAYS) {
+      return NextResponse.json(
+        { error: 'Missing required fields' },
+        { status: 400 }
+      )
+    }
+
+    const provider = createStorageProvider(connection)
+    const settings = await audited(
+      connection,
+      { operation: 'updateSettings', paths: ['/.trash/'], note: `Trash ${body.enabled ? 'on' : 'off'}, purge after ${retentionDays} days` },
+      () => updateTrashSettings(provider, getZoneKey(connection), { enabled: body.enabled, retentionDays })
+    )
+    return NextResponse.json(settings)
+  } catch (error: any) {
+    console.error('Failed to update trash settings:', error)
+
+    if (error instanceof StorageError && error.status) {
+      return NextResponse.json(
+        { error: `Failed to update trash settings: ${error.message}` },
+        { status: error.status }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update trash settings' },
+      { status: 500 }
+    )
+  }
+}
+
+// Permanently deletes the listed items (?ids=a,b), or everything with ?all=1
+export async function DELETE(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams
+    const connection = getSessionConnection(request, searchParams.get('connectionId'))
+    const ids = (searchParams.get('ids') || '').split(',').filter(Boolean)
+    const all = searchParams.get('all') === '1'
+
+    if (!connection) {
+      return notConnectedResponse()
+    }
+
+    if (!all && ids.length === 0) {
+      return NextResponse.json(
+        { error: 'Missing required fields' },
+        { status: 400 }
+      )
+    }
+
+    const provider = createStorageProvider(connection)
+    const zoneKey = getZoneKey(connection)
+    const paths = all ? ['/.trash/'] : (await getTrashItems(provider, ids)).map(item => item.originalPath)
+    return NextResponse.json(await audited(
+      connection,
+      { operation: 'purge', paths, note: all ? 'Emptied the trash' : undefined },
+      () => all ? emptyTrash(provider, zoneKey) : purgeTrash(provider, zoneKey, ids),
+      summarizeReport
+    ))
+  } catch (error: any) {
+    console.error('Failed to purge trash:', error)
+
+    if (error instanceof StorageError && error.status) {
+      return NextResponse.json(
+        { error: `Failed to purge trash: ${error.message}` },
+        { status: error.status }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to purge trash' },
+      { status: 500 }
+    )
+  }
+}
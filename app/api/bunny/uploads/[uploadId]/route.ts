@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Readable } from 'stream'
+import { ReadableStream as NodeReadableStream } from 'stream/web'
+import { createStorageProvider, StorageError } from '../../../../lib/storage'
+import { getSessionConnection, notConnectedResponse } from '../../../../lib/session'
+import { resolveConflict } from '../../../../lib/storage/operations'
+import { snapshotVersion } from '../../../../lib/storage/versions'
+import { audited, recordAudit } from '../../../../lib/audit-log'
+import { purgeAfterChange } from '../../../../lib/cdn-purge'
+import {
+  abandonCompletion,
+  beginCompletion,
+  ChunkedUploadError,
+  finishCompletion,
+  getChunkedUpload,
+  getCompletion,
+  getReceivedChunks,
+  hashAssembledUpload,
+  readAssembledUpload,
+  removeChunkedUpload,
+  writeChunk,
+} from '../../../../lib/chunked-uploads'
+
+interface RouteContext {
+  params: { uploadId: string }
+}
+
+function errorResponse(action: string, error: any) {
+  if (error instanceof ChunkedUploadError) {
+    return NextResponse.json({ error: error.message }, { status: error.status })
+  }
+
+  if (error instanceof StorageError && error.status) {
+    return NextResponse.json(
+      { error: `Failed to ${action}: ${error.message}` },
+      { status: error.status }
+    )
+  }
+
+  return NextResponse.json(
+    { error: `Failed to ${action}` },
+    { status: 500 }
+  )
+}
+
+// Upload status, used to resume after a reload or a dropped connection
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const connection = getSessionConnection(request, request.nextUrl.searchParams.get('connectionId'))
+    if (!connection) {
+      return notConnectedResponse()
+    }
+
+    const upload = await getChunkedUpload(params.uploadId, connection)
+    return NextResponse.json({
+      uploadId: upload.id,
+      chunkSize: upload.chunkSize,
+      totalChunks: upload.totalChunks,
+      receivedChunks: await getReceivedChunks(upload),
+      completed: await getCompletion(upload),
+    })
+  } catch (error: any) {
+    console.error('Failed to read upload status:', error)
+    return errorResponse('read upload status', error)
+  }
+}
+
+// Receives one chunk as the raw request body
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const searchParams = request.nextUrl.searchParams
+    const connection = getSessionConnection(request, searchParams.get('connectionId'))
+    if (!connection) {
+      return notConnectedResponse()
+    }
+
+    if (!request.body) {
+      return NextResponse.json(
+        { error: 'Missing chunk data' },
+        { status: 400 }
+      )
+    }
+
+    const upload = await getChunkedUpload(params.uploadId, connection)
+    const body = Readable.fromWeb(request.body as unknown as NodeReadableStream<Uint8Array>)
+    await writeChunk(upload, Number(searchParams.get('index')), body, searchParams.get('checksum') || undefined)
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('Failed to store chunk:', error)
+    return errorResponse('store chunk', error)
+  }
+}
+
+// Completes the upload: streams the staged chunks to storage as one object
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const connection = getSessionConnection(request, request.nextUrl.searchParams.get('connectionId'))
+    if (!connection) {
+      return notConnectedResponse()
+    }
+
+    const upload = await getChunkedUpload(params.uploadId, connection)
+
+    // A client that lost the response of an earlier completion gets its result instead of a second copy
+    const completed = await getCompletion(upload)
+    if (completed) {
+      return NextResponse.json({ success: true, ...completed })
+    }
+
+    const received = await getReceivedChunks(upload)
+    if (received.length !== upload.totalChunks) {
+      return NextResponse.json(
+        { error: `Upload is incomplete: ${received.length} of ${upload.totalChunks} chunks received`, receivedChunks: received },
+        { status: 409 }
+      )
+    }
+
+    if (!(await beginCompletion(upload))) {
+      return NextResponse.json(
+        { error: 'Upload is still being completed' },
+        { status: 503 }
+      )
+    }
+
+    try {
+      // The target is checked again here since another upload may have created it meanwhile
+      const provider = createStorageProvider(connection)
+      const uploadPath = await resolveConflict(provider, upload.path, upload.conflict || 'overwrite')
+      const operation = upload.operation || 'upload'
+      if (uploadPath) {
+        await audited(connection, { operation, paths: [uploadPath], bytes: upload.size }, async () => {
+          await snapshotVersion(provider, uploadPath)
+          await provider.upload(uploadPath, readAssembledUpload(upload), upload.size, await hashAssembledUpload(upload))
+        })
+        await purgeAfterChange(connection, operation, [uploadPath])
+      } else {
+        await recordAudit(connection, { operation, paths: [upload.path], result: 'skipped', note: 'An item with this name already exists' })
+      }
+
+      const result = { path: uploadPath || upload.path, skipped: !uploadPath }
+      await finishCompletion(upload, result)
+      return NextResponse.json({ success: true, ...result })
+    } catch (error) {
+      await abandonCompletion(upload)
+      throw error
+    }
+  } catch (error: any) {
+    console.error('Failed to complete upload:', error)
+    return errorResponse('upload file', error)
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const connection = getSessionConnection(request, request.nextUrl.searchParams.get('connectionId'))
+    if (!connection) {
+      return notConnectedResponse()
+    }
+
+    const upload = await getChunkedUpload(params.uploadId, connection)
+    await removeChunkedUpload(upload.id)
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('Failed to abort upload:', error)
+    return errorResponse('abort upload', error)
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSessionConnection, notConnectedResponse } from '../../../lib/session'
+import { ChunkedUploadError, createChunkedUpload } from '../../../lib/chunked-uploads'
+import { createStorageProvider } from '../../../lib/storage'
+import { isHiddenPath, isSafeRelativePath, parseConflictPolicy } from '../../../lib/storage/operations'
+import { recordAudit } from '../../../lib/audit-log'
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const connection = getSessionConnection(request, body.connectionId)
+    const path = typeof body.path === 'string' ? body.path : '/'
+    const name = body.name
+    const size = Number(body.size)
+    const conflict = parseConflictPolicy(body.conflict, 'overwrite')
+    const operation = body.operation === 'optimize' ? 'optimize' : 'upload'
+
+    if (!connection) {
+      return notConnectedResponse()
+    }
+
+    if (!name || !Number.isFinite(size) || size < 0 || !conflict) {
+      return NextResponse.json(
+        { error: 'Missing required fields' },
+        { status: 400 }
+      )
+    }
+
+    if (typeof name !== 'string' || !isSafeRelativePath(name)) {
+      return NextResponse.json(
+        { error: 'Invalid file name' },
+        { status: 400 }
+      )
+    }
+
+    const normalizedPath = path.endsWith('/') ? path : `${path}/`
+    const uploadPath = `${normalizedPath}${name}`
+
+    // Checked on the joined path since the name of a folder upload may start with a hidden folder
+    if (isHiddenPath(uploadPath)) {
+      return NextResponse.json(
+        { error: 'Invalid path' },
+        { status: 400 }
+      )
+    }
+
+    // Skipping is decided up front so no chunks are sent for a file that stays as it is
+    if (conflict === 'skip' && await createStorageProvider(connection).stat(uploadPath)) {
+      await recordAudit(connection, { operation, paths: [uploadPath], result: 'skipped', note: 'An item with this name already exists' })
+      return NextResponse.json({ path: uploadPath, skipped: true })
+    }
+
+    const upload = await createChunkedUpload(connection, uploadPath, size, Number(body.chunkSize), conflict, operation)
+
+    return NextResponse.json({
+      uploadId: upload.id,
+      chunkSize: upload.chunkSize,
+      totalChunks: upload.totalChunks,
+      receivedChunks: [],
+    })
+  } catch (error: any) {
+    console.error('Failed to start upload:', error)
+
+    if (error instanceof ChunkedUploadError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to start upload' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createStorageProvider, StorageError } from '../../../lib/storage'
+import { listTree, toObjectPath, TreeEntry } from '../../../lib/storage/operations'
+import { verifyEntries } from '../../../lib/storage/checksum'
+import { getSessionConnection, notConnectedResponse } from '../../../lib/session'
+import { createProgressResponse } from '../../../lib/progress-stream'
+
+/**
+ * Verifies the integrity of a file or every file below a folder: each object
+ * is downloaded on the server, hashed and compared with its stored SHA-256.
+ * Progress is streamed as newline-delimited JSON events.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const connection = getSessionConnection(request, body.connectionId)
+    const { path } = body
+
+    if (!connection) {
+      return notConnectedResponse()
+    }
+
+    if (typeof path !== 'string' || !path) {
+      return NextResponse.json(
+        { error: 'Missing required fields' },
+        { status: 400 }
+      )
+    }
+
+    const provider = createStorageProvider(connection)
+
+    let entries: TreeEntry[]
+    if (body.isDirectory) {
+      entries = await listTree(provider, path)
+    } else {
+      const file = await provider.stat(toObjectPath(path))
+      if (!file) {
+        return NextResponse.json(
+          { error: 'Failed to verify: File not found' },
+          { status: 404 }
+        )
+      }
+      entries = [{ path: toObjectPath(path), relativePath: file.ObjectName, file }]
+    }
+
+    return createProgressResponse('Failed to verify', async (send, isCancelled) => {
+      send({
+        type: 'start',
+        total: entries.length,
+        bytes: entries.reduce((sum, entry) => sum + entry.file.Length, 0),
+      })
+      return verifyEntries(provider, entries, (item) => send({ type: 'item', item }), isCancelled)
+    })
+  } catch (error: any) {
+    console.error('Failed to verify:', error)
+
+    if (error instanceof StorageError && error.status) {
+      return NextResponse.json(
+        { error: `Failed to verify: ${error.message}` },
+        { status: error.status }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to verify' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createStorageProvider, StorageError } from '../../../../lib/storage'
+import { isHiddenPath } from '../../../../lib/storage/operations'
+import { restoreVersion } from '../../../../lib/storage/versions'
+import { getSessionConnection, notConnectedResponse } from '../../../../lib/session'
+import { audited } from '../../../../lib/audit-log'
+import { purgeAfterChange } from '../../../../lib/cdn-purge'
+
+// Writes a stored version back over the file it was taken from
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const connection = getSessionConnection(request, body.connectionId)
+    const { path, versionId } = body
+
+    if (!connection) {
+      return notConnectedResponse()
+    }
+
+    if (typeof path !== 'string' || !path || isHiddenPath(path) || typeof versionId !== 'string' || !versionId) {
+      return NextResponse.json(
+        { error: 'Missing required fields' },
+        { status: 400 }
+      )
+    }
+
+    const provider = createStorageProvider(connection)
+    await audited(connection, { operation: 'restoreVersion', paths: [path], note: versionId }, () => restoreVersion(provider, path, versionId))
+    await purgeAfterChange(connection, 'restoreVersion', [path])
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('Failed to restore version:', error)
+
+    if (error instanceof StorageError && error.status) {
+      return NextResponse.json(
+        { error: `Failed to restore version: ${error.message}` },
+        { status: error.status }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to restore version' },
+      { status: 500 }
+    )
+  }
+}
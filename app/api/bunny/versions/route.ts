@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createStorageProvider, StorageError } from '../../../lib/storage'
+import { isHiddenPath } from '../../../lib/storage/operations'
+import { getVersioningSettings, listVersions, updateVersioningSettings } from '../../../lib/storage/versions'
+import { getSessionConnection, notConnectedResponse } from '../../../lib/session'
+import { audited } from '../../../lib/audit-log'
+
+const MAX_VERSIONS_LIMIT = 1000
+
+// Returns the zone's versioning settings and, with ?path=, the versions of that file
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams
+    const connection = getSessionConnection(request, searchParams.get('connectionId'))
+    const path = searchParams.get('path')
+
+    if (!connection) {
+      return notConnectedResponse()
+    }
+
+    if (path && isHiddenPath(path)) {
+      return NextResponse.json(
+        { error: 'Invalid path' },
+        { status: 400 }
+      )
+    }
+
+    const provider = createStorageProvider(connection)
+    const [settings, versions] = await Promise.all([
+      getVersioningSettings(provider),
+      path ? listVersions(provider, path) : Promise.resolve([]),
+    ])
+    return NextResponse.json({ settings, versions })
+  } catch (error: any) {
+    console.error('Failed to load versions:', error)
+
+    if (error instanceof StorageError && error.status) {
+      return NextResponse.json(
+        { error: `Failed to load versions: ${error.message}` },
+        { status: error.status }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to load versions' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const connection = getSessionConnection(request, body.connectionId)
+    const maxVersions = Number(body.maxVersions)
+
+    if (!connection) {
+      return notConnectedResponse()
+    }
+
+    if (typeof body.enabled !== 'boolean' || !Number.isInteger(maxVersions) || maxVersions < 0 || maxVersions > MAX_VERSIONS_LIMIT) {
+      return NextResponse.json(
+        { error: 'Missing required fields' },
+        { status: 400 }
+      )
+    }
+
+    const provider = createStorageProvider(connection)
+    return NextResponse.json(await audited(
+      connection,
+      { operation: 'updateSettings', paths: ['/.versions/'], note: `Version history ${body.enabled ? 'on' : 'off'}, keep ${maxVersions} per file` },
+      () => updateVersioningSettings(provider, { enabled: body.enabled, maxVersions })
+    ))
+  } catch (error: any) {
+    console.error('Failed to update versioning settings:', error)
+
+    if (error instanceof StorageError && error.status) {
+      return NextResponse.json(
+        { error: `Failed to update versioning settings: ${error.message}` },
+        { status: error.status }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update versioning settings' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Readable } from 'stream'
+import { createStorageProvider, StorageError } from '../../../lib/storage'
+import { collectArchiveEntries, createZipStream } from '../../../lib/storage/zip'
+import { toObjectPath } from '../../../lib/storage/operations'
+import { getSessionConnection, notConnectedResponse } from '../../../lib/session'
+import { getContentDisposition } from '../../../lib/http'
+
+// Streams a ZIP of one or more files and folders (repeat `path`; folders end in '/')
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams
+    const connection = getSessionConnection(request, searchParams.get('connectionId'))
+    const paths = searchParams.getAll('path').filter(Boolean)
+
+    if (!connection) {
+      return notConnectedResponse()
+    }
+
+    if (paths.length === 0) {
+      return NextResponse.json(
+        { error: 'Missing required fields' },
+        { status: 400 }
+      )
+    }
+
+    const provider = createStorageProvider(connection)
+    // Listing happens up front so a missing folder is reported before the download starts
+    const entries = await collectArchiveEntries(provider, paths, {
+      flatten: searchParams.get('flatten') === '1',
+      excludeKeep: searchParams.get('excludeKeep') === '1',
+    })
+
+    // A single folder is named after itself, anything else after the storage zone
+    const single = paths.length === 1 ? toObjectPath(paths[0]).split('/').pop() : ''
+    const filename = `${single || connection.user}.zip`
+
+    return new NextResponse(Readable.toWeb(createZipStream(provider, entries)) as ReadableStream<Uint8Array>, {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': getContentDisposition(filename),
+        'Cache-Control': 'private, no-cache',
+      },
+    })
+  } catch (error: any) {
+    console.error('Failed to create archive:', error)
+
+    if (error instanceof StorageError && error.status) {
+      return NextResponse.json(
+        { error: `Failed to create archive: ${error.message}` },
+        { status: error.status }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create archive' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server'
+import { isManagedOnly, listManagedZones } from '../../../lib/managed-zones'
+import { isLocalProviderAllowed } from '../../../lib/storage'
+import { ManagedZoneInfo } from '../../../types/bunny'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET() {
+  // Only non-secret fields leave the server
+  const zones: ManagedZoneInfo[] = listManagedZones().map(zone => ({
+    id: zone.id,
+    label: zone.label,
+    user: zone.connection.user,
+    url: zone.connection.url,
+  }))
+
+  return NextResponse.json({
+    zones,
+    managedOnly: isManagedOnly(),
+    localProvider: isLocalProviderAllowed(),
+  })
+}
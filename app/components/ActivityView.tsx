@@ -0,0 +1,224 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Download, RefreshCw, Search } from 'lucide-react'
+import { Badge, Button, Card, EmptyState, Select, Spinner } from './ui'
+import { AuditFilter, BunnyAPI } from '../lib/bunny-api'
+import { formatFileSize } from '../lib/format'
+import { AuditEntry, AuditResult } from '../types/bunny'
+
+interface ActivityViewProps {
+  api: BunnyAPI
+}
+
+const PAGE_SIZE = 200
+
+const operationLabels: Record<AuditEntry['operation'], string> = {
+  upload: 'Upload',
+  optimize: 'Optimize',
+  delete: 'Delete',
+  move: 'Move',
+  copy: 'Copy',
+  extract: 'Extract ZIP',
+  restore: 'Restore from trash',
+  purge: 'Purge trash',
+  restoreVersion: 'Restore version',
+  updateSettings: 'Settings',
+  purgeCache: 'Purge CDN cache',
+}
+
+const operationOptions = [
+  { label: 'All operations', value: '' },
+  ...Object.entries(operationLabels).map(([value, label]) => ({ label, value })),
+]
+
+const resultOptions = [
+  { label: 'All results', value: '' },
+  { label: 'Succeeded', value: 'success' },
+  { label: 'Partly failed', value: 'partial' },
+  { label: 'Skipped', value: 'skipped' },
+  { label: 'Failed', value: 'failure' },
+]
+
+const resultBadges: Record<AuditResult, { label: string; appearance: 'success' | 'warning' | 'error' | 'info' }> = {
+  success: { label: 'Succeeded', appearance: 'success' },
+  partial: { label: 'Partly failed', appearance: 'warning' },
+  skipped: { label: 'Skipped', appearance: 'info' },
+  failure: { label: 'Failed', appearance: 'error' },
+}
+
+export default function ActivityView({ api }: ActivityViewProps) {
+  const [entries, setEntries] = useState<AuditEntry[] | null>(null)
+  const [total, setTotal] = useState(0)
+  const [limit, setLimit] = useState(PAGE_SIZE)
+  const [searchText, setSearchText] = useState('')
+  const [filter, setFilter] = useState<AuditFilter>({})
+  const [loadError, setLoadError] = useState<string | null>(null)
+
+  const loadActivity = useCallback(async () => {
+    try {
+      const listing = await api.getAuditLog(filter, limit)
+      setEntries(listing.entries)
+      setTotal(listing.total)
+      setLoadError(null)
+    } catch (error) {
+      console.error('Activity load error:', error)
+      setLoadError(error instanceof Error ? error.message : 'Failed to load activity')
+      setEntries([])
+    }
+  }, [api, filter, limit])
+
+  useEffect(() => {
+    loadActivity()
+  }, [loadActivity])
+
+  // Searching waits for a pause in typing instead of reading the log on every key
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setFilter(prev => prev.text === searchText ? prev : { ...prev, text: searchText })
+      setLimit(PAGE_SIZE)
+    }, 300)
+    return () => clearTimeout(timer)
+  }, [searchText])
+
+  const updateFilter = (changes: AuditFilter) => {
+    setFilter(prev => ({ ...prev, ...changes }))
+    setLimit(PAGE_SIZE)
+  }
+
+  const handleExport = (format: 'csv' | 'json') => {
+    const link = document.createElement('a')
+    link.href = api.getAuditExportUrl(format, filter)
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+  }
+
+  return (
+    <Card className="h-full">
+      <div className="p-6 h-full flex flex-col">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold">Activity</h3>
+          <div className="flex items-center space-x-2">
+            <Button appearance="secondary" onClick={() => handleExport('csv')}>
+              <span className="flex items-center"><Download className="w-4 h-4 mr-2" /> CSV</span>
+            </Button>
+            <Button appearance="secondary" onClick={() => handleExport('json')}>
+              <span className="flex items-center"><Download className="w-4 h-4 mr-2" /> JSON</span>
+            </Button>
+            <Button appearance="subtle" onClick={loadActivity}>
+              <RefreshCw className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+
+        <div className="mb-4 flex flex-wrap items-center gap-2">
+          <div className="relative flex-1 min-w-[16rem]">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+            <input
+              type="text"
+              value={searchText}
+              onChange={(e) => setSearchText(e.target.value)}
+              placeholder="Search paths, names and errors"
+              className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-atlassian-blue focus:border-transparent"
+            />
+          </div>
+          <div className="w-52">
+            <Select
+              options={operationOptions}
+              value={operationOptions.find(option => option.value === (filter.operation || ''))}
+              onChange={(option) => option && updateFilter({ operation: option.value })}
+            />
+          </div>
+          <div className="w-44">
+            <Select
+              options={resultOptions}
+              value={resultOptions.find(option => option.value === (filter.result || ''))}
+              onChange={(option) => option && updateFilter({ result: option.value })}
+            />
+          </div>
+        </div>
+
+        {!entries ? (
+          <div className="flex justify-center items-center flex-1">
+            <Spinner size="large" />
+          </div>
+        ) : loadError ? (
+          <div className="flex justify-center items-center flex-1">
+            <EmptyState
+              header="Failed to load activity"
+              description={loadError}
+              action={
+                <Button appearance="primary" onClick={loadActivity}>
+                  Try Again
+                </Button>
+              }
+            />
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="flex justify-center items-center flex-1">
+            <EmptyState
+              header={filter.text || filter.operation || filter.result ? 'No matching activity' : 'No activity yet'}
+              description="Uploads, deletes, moves, copies and other changes to this storage zone are listed here"
+            />
+          </div>
+        ) : (
+          <div className="flex-1 relative min-h-0">
+            <div className="absolute inset-0 overflow-y-auto overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-3 px-4 font-medium text-gray-500 text-sm">Time</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-500 text-sm">Who</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-500 text-sm">Operation</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-500 text-sm">Paths</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-500 text-sm">Size</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-500 text-sm">Result</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {entries.map(entry => (
+                    <tr key={entry.id} className="hover:bg-gray-50 align-top">
+                      <td className="py-3 px-4 text-sm text-gray-600 whitespace-nowrap">{new Date(entry.timestamp).toLocaleString()}</td>
+                      <td className="py-3 px-4 text-sm text-gray-600">{entry.actor}</td>
+                      <td className="py-3 px-4 text-sm text-gray-900">{operationLabels[entry.operation] || entry.operation}</td>
+                      <td className="py-3 px-4 text-sm min-w-0">
+                        {entry.paths.map((path, index) => (
+                          <p key={index} className="text-gray-900 truncate max-w-md" title={path}>
+                            {index > 0 && <span className="text-gray-400">→ </span>}{path}
+                          </p>
+                        ))}
+                        {entry.note && <p className="text-xs text-gray-500">{entry.note}</p>}
+                        {entry.error && <p className="text-xs text-red-600">{entry.error}</p>}
+                      </td>
+                      <td className="py-3 px-4 text-sm text-gray-600 whitespace-nowrap">
+                        {entry.bytes !== undefined ? formatFileSize(entry.bytes) : '—'}
+                        {entry.counts && (
+                          <p className="text-xs text-gray-500">
+                            {entry.counts.succeeded} done
+                            {entry.counts.skipped > 0 && ` · ${entry.counts.skipped} skipped`}
+                            {entry.counts.failed > 0 && ` · ${entry.counts.failed} failed`}
+                          </p>
+                        )}
+                      </td>
+                      <td className="py-3 px-4">
+                        <Badge appearance={resultBadges[entry.result].appearance}>{resultBadges[entry.result].label}</Badge>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {total > entries.length && (
+                <div className="flex justify-center py-4">
+                  <Button appearance="subtle" onClick={() => setLimit(limit + PAGE_SIZE)}>
+                    Show more ({total - entries.length} older)
+                  </Button>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </Card>
+  )
+}
@@ -0,0 +1,191 @@
+'use client'
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { ArrowLeft, File as FileIcon, Folder, RefreshCw } from 'lucide-react'
+import { Button, EmptyState, Select, Spinner } from './ui'
+import { BunnyAPI } from '../lib/bunny-api'
+import { formatFileSize } from '../lib/format'
+import { BunnyConnection, BunnyFile } from '../types/bunny'
+
+// MIME type of the drag data, so drops from other apps or the OS are ignored
+export const PANE_DRAG_TYPE = 'application/x-cloudos-items'
+
+export interface PaneDragPayload {
+  connectionId: string
+  folder: string // Folder the items were dragged from, ending in '/'
+  items: { name: string; isDirectory: boolean; size: number }[]
+}
+
+interface BrowserPaneProps {
+  connection: BunnyConnection
+  connections: BunnyConnection[] // Session connections the pane can be switched to
+  refreshKey: number // Bumped by the parent after a transfer into or out of this pane
+  onConnectionChange: (connectionId: string) => void
+  onDropItems: (payload: PaneDragPayload, folder: string, move: boolean) => void
+  onError: (error: string) => void
+}
+
+function getParentFolder(folder: string): string {
+  const trimmed = folder.slice(0, -1)
+  return trimmed.slice(0, trimmed.lastIndexOf('/') + 1) || '/'
+}
+
+/** A folder listing of one connection whose items can be dragged to another pane. */
+export default function BrowserPane({ connection, connections, refreshKey, onConnectionChange, onDropItems, onError }: BrowserPaneProps) {
+  const [folder, setFolder] = useState('/')
+  const [files, setFiles] = useState<BunnyFile[] | null>(null)
+  const [selectedNames, setSelectedNames] = useState<Set<string>>(new Set())
+  const [dropTarget, setDropTarget] = useState<string | null>(null)
+  const [reloadKey, setReloadKey] = useState(0)
+
+  const api = useMemo(() => new BunnyAPI(connection), [connection])
+
+  // Read through a ref so a parent re-render with a new callback doesn't reload the listing
+  const onErrorRef = useRef(onError)
+  onErrorRef.current = onError
+
+  const connectionOptions = connections.map(item => ({
+    label: item.provider === 'local' ? `${item.user} (local)` : item.user,
+    value: item.id || '',
+  }))
+
+  useEffect(() => {
+    setFolder('/')
+  }, [api])
+
+  useEffect(() => {
+    let cancelled = false
+    setFiles(null)
+    api.listFiles(folder)
+      .then(list => {
+        if (cancelled) return
+        // Folders first, like the main file list
+        setFiles([...list].sort((a, b) => Number(b.IsDirectory) - Number(a.IsDirectory) || a.ObjectName.localeCompare(b.ObjectName)))
+        setSelectedNames(new Set())
+      })
+      .catch(error => {
+        if (cancelled) return
+        console.error('Pane load error:', error)
+        onErrorRef.current(error instanceof Error ? error.message : 'Failed to load files')
+        setFiles([])
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [api, folder, refreshKey, reloadKey])
+
+  const handleRowClick = (file: BunnyFile, e: React.MouseEvent) => {
+    setSelectedNames(prev => {
+      if (!(e.ctrlKey || e.metaKey)) return new Set([file.ObjectName])
+      const next = new Set(prev)
+      if (next.has(file.ObjectName)) next.delete(file.ObjectName)
+      else next.add(file.ObjectName)
+      return next
+    })
+  }
+
+  const handleDragStart = (file: BunnyFile, e: React.DragEvent) => {
+    // Dragging a selected row takes the whole selection along
+    const dragged = selectedNames.has(file.ObjectName)
+      ? (files || []).filter(item => selectedNames.has(item.ObjectName))
+      : [file]
+    const payload: PaneDragPayload = {
+      connectionId: connection.id || '',
+      folder,
+      items: dragged.map(item => ({ name: item.ObjectName, isDirectory: item.IsDirectory, size: item.Length })),
+    }
+    e.dataTransfer.setData(PANE_DRAG_TYPE, JSON.stringify(payload))
+    e.dataTransfer.effectAllowed = 'copyMove'
+  }
+
+  const handleDragOver = (target: string, e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes(PANE_DRAG_TYPE)) return
+    e.preventDefault()
+    e.stopPropagation()
+    e.dataTransfer.dropEffect = e.shiftKey ? 'move' : 'copy'
+    setDropTarget(target)
+  }
+
+  const handleDrop = (target: string, e: React.DragEvent) => {
+    const data = e.dataTransfer.getData(PANE_DRAG_TYPE)
+    setDropTarget(null)
+    if (!data) return
+    e.preventDefault()
+    e.stopPropagation()
+    onDropItems(JSON.parse(data), target, e.shiftKey)
+  }
+
+  return (
+    <div className="flex flex-col h-full min-w-0 bg-white border border-gray-200 rounded-lg">
+      <div className="p-3 border-b border-gray-200 space-y-2">
+        <Select
+          options={connectionOptions}
+          value={connectionOptions.find(option => option.value === connection.id)}
+          onChange={(option) => option && onConnectionChange(option.value)}
+        />
+        <div className="flex items-center space-x-2">
+          <Button appearance="subtle" onClick={() => setFolder(getParentFolder(folder))} disabled={folder === '/'}>
+            <ArrowLeft className="w-4 h-4" />
+          </Button>
+          <span className="flex-1 text-sm text-gray-700 truncate" title={folder}>{folder === '/' ? 'Root (/)' : `Root${folder}`}</span>
+          <Button appearance="subtle" onClick={() => setReloadKey(reloadKey + 1)}>
+            <RefreshCw className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div
+        className={`flex-1 relative min-h-0 ${dropTarget === folder ? 'bg-blue-50 ring-2 ring-inset ring-atlassian-blue' : ''}`}
+        onDragOver={(e) => handleDragOver(folder, e)}
+        onDragLeave={() => setDropTarget(null)}
+        onDrop={(e) => handleDrop(folder, e)}
+      >
+        {!files ? (
+          <div className="flex justify-center items-center h-full">
+            <Spinner />
+          </div>
+        ) : files.length === 0 ? (
+          <div className="flex justify-center items-center h-full">
+            <EmptyState header="This folder is empty" description="Drop files or folders from the other pane here" />
+          </div>
+        ) : (
+          <div className="absolute inset-0 overflow-y-auto">
+            <table className="w-full">
+              <tbody>
+                {files.map(file => {
+                  const target = `${folder}${file.ObjectName}/`
+                  return (
+                    <tr
+                      key={file.ObjectName}
+                      draggable
+                      onDragStart={(e) => handleDragStart(file, e)}
+                      onClick={(e) => handleRowClick(file, e)}
+                      onDoubleClick={() => file.IsDirectory && setFolder(target)}
+                      onDragOver={file.IsDirectory ? (e) => handleDragOver(target, e) : undefined}
+                      onDrop={file.IsDirectory ? (e) => handleDrop(target, e) : undefined}
+                      className={`cursor-default select-none ${
+                        dropTarget === target ? 'bg-blue-100' : selectedNames.has(file.ObjectName) ? 'bg-blue-50' : 'hover:bg-gray-50'
+                      }`}
+                    >
+                      <td className="py-2 px-3">
+                        <div className="flex items-center space-x-2 min-w-0">
+                          {file.IsDirectory
+                            ? <Folder className="w-4 h-4 text-blue-500 flex-shrink-0" />
+                            : <FileIcon className="w-4 h-4 text-gray-500 flex-shrink-0" />}
+                          <span className="text-sm text-gray-900 truncate">{file.ObjectName}</span>
+                        </div>
+                      </td>
+                      <td className="py-2 px-3 text-sm text-gray-500 text-right whitespace-nowrap">
+                        {file.IsDirectory ? '' : formatFileSize(file.Length)}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,116 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { AlertTriangle } from 'lucide-react'
+import { Button, FieldText, ModalDialog, Spinner } from './ui'
+import { BunnyFile } from '../types/bunny'
+import { BunnyAPI } from '../lib/bunny-api'
+import { formatFileSize } from '../lib/format'
+
+const SAMPLE_SIZE = 5
+
+interface BulkDeleteDialogProps {
+  api: BunnyAPI
+  targets: { file: BunnyFile; path: string }[] // Paths without a trailing slash
+  toTrash?: boolean
+  onClose: () => void
+  onConfirm: () => void
+}
+
+/**
+ * Confirmation for deleting a selection. Folders get the same safeguards as
+ * DeleteFolderDialog: a preview of their contents and their name typed out.
+ */
+export default function BulkDeleteDialog({ api, targets, toTrash = false, onClose, onConfirm }: BulkDeleteDialogProps) {
+  // The selection is fixed while the dialog is open, so it is split once
+  const [folders] = useState(() => targets.filter(target => target.file.IsDirectory))
+  const [files] = useState(() => targets.filter(target => !target.file.IsDirectory))
+  const [contents, setContents] = useState<Record<string, { path: string; file: BunnyFile }[]> | null>(folders.length > 0 ? null : {})
+  const [previewError, setPreviewError] = useState<string | null>(null)
+  const [confirmations, setConfirmations] = useState<Record<string, string>>({})
+
+  useEffect(() => {
+    if (folders.length === 0) return
+    // Show exactly what will be removed before anything is deleted
+    Promise.all(folders.map(async folder => [folder.path, await api.listFilesRecursive(folder.path)] as const))
+      .then(entries => setContents(Object.fromEntries(entries)))
+      .catch((error) => setPreviewError(error instanceof Error ? error.message : 'Unknown error'))
+  }, [api, folders])
+
+  const getFolderSize = (path: string) => (contents?.[path] || []).reduce((sum, item) => sum + item.file.Length, 0)
+  const fileCount = files.length + folders.reduce((sum, folder) => sum + (contents?.[folder.path]?.length || 0), 0)
+  const totalSize = files.reduce((sum, target) => sum + target.file.Length, 0) + folders.reduce((sum, folder) => sum + getFolderSize(folder.path), 0)
+  const isConfirmed = folders.every(folder => confirmations[folder.path] === folder.file.ObjectName)
+
+  return (
+    <ModalDialog heading={`Delete ${targets.length} items`} onClose={onClose} width="large">
+      <div className="p-6">
+        {previewError ? (
+          <p className="text-sm text-red-600">Could not read the folder contents: {previewError}</p>
+        ) : !contents ? (
+          <div className="flex items-center space-x-3 text-sm text-gray-600">
+            <Spinner size="small" />
+            <span>Scanning {folders.length === 1 ? 'folder' : 'folders'}…</span>
+          </div>
+        ) : (
+          <>
+            <div className={`flex items-start space-x-3 p-4 rounded-md ${toTrash ? 'bg-yellow-50' : 'bg-red-50'}`}>
+              <AlertTriangle className={`w-5 h-5 flex-shrink-0 ${toTrash ? 'text-yellow-600' : 'text-red-600'}`} />
+              <p className={`text-sm ${toTrash ? 'text-yellow-800' : 'text-red-800'}`}>
+                {toTrash ? 'This moves ' : 'This permanently deletes '}<strong>{fileCount} {fileCount === 1 ? 'file' : 'files'}</strong> ({formatFileSize(totalSize)})
+                {folders.length > 0 && <> including everything in {folders.length} {folders.length === 1 ? 'folder' : 'folders'}</>}
+                {toTrash ? ' to the trash, where they can be restored until they are purged' : ''}.
+              </p>
+            </div>
+
+            {folders.map(folder => {
+              const folderContents = contents[folder.path] || []
+              return (
+                <div key={folder.path} className="mt-4">
+                  <p className="text-sm text-gray-700">
+                    <strong>{folder.path}</strong>: {folderContents.length} {folderContents.length === 1 ? 'file' : 'files'} ({formatFileSize(getFolderSize(folder.path))})
+                  </p>
+                  {folderContents.length > 0 && (
+                    <ul className="mt-2 max-h-32 overflow-y-auto text-xs text-gray-600 font-mono border border-gray-200 rounded-md divide-y divide-gray-100">
+                      {folderContents.slice(0, SAMPLE_SIZE).map(item => (
+                        <li key={item.path} className="px-3 py-1 truncate" title={item.path}>{item.path}</li>
+                      ))}
+                      {folderContents.length > SAMPLE_SIZE && (
+                        <li className="px-3 py-1 italic text-gray-400">…and {folderContents.length - SAMPLE_SIZE} more</li>
+                      )}
+                    </ul>
+                  )}
+                  <div className="mt-2">
+                    <FieldText
+                      label={`Type "${folder.file.ObjectName}" to confirm`}
+                      placeholder={folder.file.ObjectName}
+                      value={confirmations[folder.path] || ''}
+                      onChange={(e) => {
+                        const value = e.target.value
+                        setConfirmations(prev => ({ ...prev, [folder.path]: value }))
+                      }}
+                      required
+                    />
+                  </div>
+                </div>
+              )
+            })}
+          </>
+        )}
+
+        <div className="mt-6 flex justify-end space-x-3">
+          <Button appearance="subtle" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            appearance="danger"
+            onClick={onConfirm}
+            disabled={!contents || !isConfirmed}
+          >
+            {toTrash ? 'Move to Trash' : 'Delete'}
+          </Button>
+        </div>
+      </div>
+    </ModalDialog>
+  )
+}
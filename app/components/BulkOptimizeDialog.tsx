@@ -0,0 +1,61 @@
+'use client'
+
+import { useState } from 'react'
+import { Button, FieldRange, ModalDialog, Select } from './ui'
+import { BunnyFile, ConflictPolicy, ImageOptimizationOptions } from '../types/bunny'
+
+const formatOptions = [
+  { label: 'WebP', value: 'webp' },
+  { label: 'JPEG', value: 'jpeg' },
+  { label: 'PNG', value: 'png' },
+  { label: 'AVIF', value: 'avif' },
+]
+
+interface BulkOptimizeDialogProps {
+  images: BunnyFile[]
+  conflict: ConflictPolicy // Applied when the optimized name is taken, e.g. by an original already in the chosen format
+  onClose: () => void
+  onOptimize: (images: BunnyFile[], options: ImageOptimizationOptions) => void
+}
+
+const conflictNotes: Record<ConflictPolicy, string> = {
+  keepBoth: 'Where that name is taken, for example by an original already in this format, a numbered copy is saved instead.',
+  overwrite: 'Where that name is taken, for example by an original already in this format, the existing file is replaced.',
+  skip: 'Where that name is taken, for example by an original already in this format, the image is skipped.',
+}
+
+// Applies one format and quality to several images; cropping and resizing stay per-image in ImageOptimizer
+export default function BulkOptimizeDialog({ images, conflict, onClose, onOptimize }: BulkOptimizeDialogProps) {
+  const [format, setFormat] = useState<ImageOptimizationOptions['format']>('webp')
+  const [quality, setQuality] = useState(80)
+
+  return (
+    <ModalDialog heading={`Optimize ${images.length} ${images.length === 1 ? 'image' : 'images'}`} onClose={onClose} width="medium">
+      <div className="p-6 space-y-4">
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-gray-700">Format</label>
+          <Select
+            options={formatOptions}
+            value={formatOptions.find(option => option.value === format)}
+            onChange={(option) => option && setFormat(option.value as ImageOptimizationOptions['format'])}
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-gray-700">Quality: {quality}%</label>
+          <FieldRange min={10} max={100} step={5} value={quality} onChange={setQuality} />
+        </div>
+        <p className="text-xs text-gray-500">
+          Optimized images are saved next to the originals with the new format&apos;s extension. {conflictNotes[conflict]}
+        </p>
+        <div className="flex justify-end space-x-3">
+          <Button appearance="subtle" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button appearance="primary" onClick={() => onOptimize(images, { format, quality })}>
+            Optimize
+          </Button>
+        </div>
+      </div>
+    </ModalDialog>
+  )
+}
@@ -0,0 +1,104 @@
+'use client'
+
+import { useState } from 'react'
+import { Button, ModalDialog } from './ui'
+import { BunnyFile, ConflictPolicy } from '../types/bunny'
+import { formatFileSize } from '../lib/format'
+
+export interface FileConflict {
+  path: string // Target path that already exists
+  existing: BunnyFile
+  incomingSize?: number // Unknown for folders
+}
+
+interface ConflictDialogProps {
+  conflicts: FileConflict[]
+  onResolve: (policies: Record<string, ConflictPolicy>) => void
+  onCancel: () => void
+}
+
+const choices: { label: string; value: ConflictPolicy }[] = [
+  { label: 'Overwrite', value: 'overwrite' },
+  { label: 'Skip', value: 'skip' },
+  { label: 'Keep both', value: 'keepBoth' },
+]
+
+export default function ConflictDialog({ conflicts, onResolve, onCancel }: ConflictDialogProps) {
+  const [policies, setPolicies] = useState<Record<string, ConflictPolicy>>(() => {
+    const initial: Record<string, ConflictPolicy> = {}
+    conflicts.forEach(conflict => { initial[conflict.path] = 'skip' })
+    return initial
+  })
+
+  const applyToAll = (policy: ConflictPolicy) => {
+    const next: Record<string, ConflictPolicy> = {}
+    conflicts.forEach(conflict => { next[conflict.path] = policy })
+    setPolicies(next)
+  }
+
+  return (
+    <ModalDialog
+      heading={conflicts.length === 1 ? '1 item already exists' : `${conflicts.length} items already exist`}
+      onClose={onCancel}
+      width="large"
+    >
+      <div className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <p className="text-sm text-gray-600">Choose what to do with each existing item.</p>
+          <div className="flex items-center space-x-1 text-sm">
+            <span className="text-gray-500 mr-1">All:</span>
+            {choices.map(choice => (
+              <button
+                key={choice.value}
+                type="button"
+                onClick={() => applyToAll(choice.value)}
+                className="px-2 py-1 rounded text-atlassian-blue hover:bg-blue-50"
+              >
+                {choice.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <ul className="max-h-80 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded-md">
+          {conflicts.map(conflict => (
+            <li key={conflict.path} className="flex items-center justify-between px-3 py-2 text-sm">
+              <div className="min-w-0 mr-3">
+                <p className="text-gray-900 truncate" title={conflict.path}>{conflict.path}</p>
+                <p className="text-xs text-gray-500">
+                  {conflict.existing.IsDirectory
+                    ? 'Folder exists; the choice applies to each file inside it'
+                    : `Existing: ${formatFileSize(conflict.existing.Length)}, changed ${new Date(conflict.existing.LastChanged).toLocaleString()}`}
+                  {conflict.incomingSize !== undefined && ` · New: ${formatFileSize(conflict.incomingSize)}`}
+                </p>
+              </div>
+              <div className="flex flex-shrink-0 border border-gray-300 rounded-md overflow-hidden">
+                {choices.map(choice => (
+                  <button
+                    key={choice.value}
+                    type="button"
+                    onClick={() => setPolicies(prev => ({ ...prev, [conflict.path]: choice.value }))}
+                    className={`px-2 py-1 text-xs ${
+                      policies[conflict.path] === choice.value
+                        ? 'bg-atlassian-blue text-white'
+                        : 'bg-white text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    {choice.label}
+                  </button>
+                ))}
+              </div>
+            </li>
+          ))}
+        </ul>
+        <div className="mt-6 flex justify-end space-x-3">
+          <Button appearance="subtle" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button appearance="primary" onClick={() => onResolve(policies)}>
+            Continue
+          </Button>
+        </div>
+      </div>
+    </ModalDialog>
+  )
+}
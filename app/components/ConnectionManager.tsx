@@ -1,9 +1,15 @@
 'use client'
 
-import { useState } from 'react'
-import { Button, Card, FieldText, Checkbox } from './ui'
-import { BunnyConnection } from '../types/bunny'
+import { useState, useEffect } from 'react'
+import { v4 as uuidv4 } from 'uuid'
+import { CopyPlus, Pencil, Trash2 } from 'lucide-react'
+import { Button, Card, FieldText, Select, Badge, Checkbox } from './ui'
+import { BunnyConnection, ConnectionProfile, DiagnosticCheck, EncryptedSecret, ManagedZoneInfo, RegionProbeResult, StorageProviderType } from '../types/bunny'
 import { BunnyAPI } from '../lib/bunny-api'
+import { STORAGE_REGIONS } from '../lib/regions'
+import { connectProfile, deleteProfile, duplicateProfile, encryptSecrets, loadProfiles, needsPassphrase, saveProfile } from '../lib/connection-profiles'
+import ProfileUnlockDialog from './ProfileUnlockDialog'
+import DiagnosticsChecklist from './DiagnosticsChecklist'
 
 interface ConnectionManagerProps {
   onConnectionSuccess: (connection: BunnyConnection) => void
@@ -12,6 +18,21 @@ interface ConnectionManagerProps {
   setIsLoading: (loading: boolean) => void
 }
 
+const USER_NAME_KEY = 'cloudos-user-name'
+
+const CUSTOM_HOST = 'custom'
+
+function formatProbe(probe?: RegionProbeResult): string {
+  if (!probe) return ''
+  if (probe.ok) return ` · ${probe.latencyMs} ms`
+  return probe.latencyMs !== undefined ? ` · ${probe.latencyMs} ms, zone not here` : ' · unreachable'
+}
+
+const providerOptions = [
+  { label: 'Bunny Storage', value: 'bunny' },
+  { label: 'Local directory (development)', value: 'local' },
+]
+
 export default function ConnectionManager({
   onConnectionSuccess,
   onConnectionError,
@@ -24,10 +45,37 @@ export default function ConnectionManager({
     password: '',
     port: 443,
     url: '',
+    apiKey: '',
+    libraryId: '',
   })
-  const [useEnvVars, setUseEnvVars] = useState(false) // Default to false - don't auto-load
+  const [provider, setProvider] = useState<StorageProviderType>('bunny')
+  const [managedZones, setManagedZones] = useState<ManagedZoneInfo[]>([])
+  const [managedOnly, setManagedOnly] = useState(false)
+  const [localProviderAllowed, setLocalProviderAllowed] = useState(false)
+  const [userName, setUserName] = useState('')
+  const [profiles, setProfiles] = useState<ConnectionProfile[]>([])
+  const [saveAsProfile, setSaveAsProfile] = useState(false)
+  const [profileName, setProfileName] = useState('')
+  const [passphrase, setPassphrase] = useState('')
+  const [editingProfile, setEditingProfile] = useState<ConnectionProfile | null>(null)
+  const [unlockProfile, setUnlockProfile] = useState<ConnectionProfile | null>(null)
+  const [customHost, setCustomHost] = useState(false)
+  const [regionProbes, setRegionProbes] = useState<Record<string, RegionProbeResult>>({})
+  const [detectingRegion, setDetectingRegion] = useState(false)
+  const [diagnostics, setDiagnostics] = useState<{ heading: string; checks: DiagnosticCheck[] } | null>(null)
+  const [diagnosing, setDiagnosing] = useState(false)
+
+  useEffect(() => {
+    setUserName(window.localStorage.getItem(USER_NAME_KEY) || '')
+    setProfiles(loadProfiles())
 
-  // Don't automatically load environment variables - only load when user checks the box
+    // Zones configured on the server through BUNNY_* variables; secrets never reach the browser
+    BunnyAPI.listManagedZones().then(result => {
+      setManagedZones(result.zones)
+      setManagedOnly(result.managedOnly)
+      setLocalProviderAllowed(result.localProvider)
+    })
+  }, [])
 
   const handleInputChange = (field: string, value: string) => {
     if (field === 'port') {
@@ -38,18 +86,206 @@ export default function ConnectionManager({
     }
   }
 
-  const loadFromEnvVars = () => {
+  // Remembered in this browser so the name does not have to be typed on every visit
+  const rememberUserName = () => {
+    window.localStorage.setItem(USER_NAME_KEY, userName.trim())
+    return userName.trim() || undefined
+  }
+
+  const handleConnectManagedZone = async (zone: ManagedZoneInfo) => {
+    setIsLoading(true)
+
+    try {
+      const result = await BunnyAPI.connectManagedZone(zone.id, rememberUserName())
+
+      if (result.success && result.connection) {
+        onConnectionSuccess(result.connection)
+      } else {
+        onConnectionError(result.error || `Failed to connect to ${zone.label}.`)
+      }
+    } catch (error: any) {
+      console.error('Connection error:', error)
+      onConnectionError(error?.message || 'Connection failed. Please try again.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const connectWithProfile = async (profile: ConnectionProfile, profilePassphrase: string | null) => {
+    setIsLoading(true)
+
+    try {
+      const result = await connectProfile(profile, profilePassphrase, rememberUserName())
+
+      if (result.success && result.connection) {
+        onConnectionSuccess(result.connection)
+      } else {
+        onConnectionError(result.error || `Failed to connect to ${profile.name}.`)
+        setProfiles(loadProfiles())
+      }
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleOpenProfile = async (profile: ConnectionProfile) => {
+    try {
+      if (await needsPassphrase(profile)) {
+        setUnlockProfile(profile)
+        return
+      }
+      await connectWithProfile(profile, null)
+    } catch (error: any) {
+      console.error('Connection error:', error)
+      onConnectionError(error?.message || 'Connection failed. Please try again.')
+    }
+  }
+
+  const resetForm = () => {
+    setFormData({ host: 'storage.bunnycdn.com', user: '', password: '', port: 443, url: '', apiKey: '', libraryId: '' })
+    setProvider('bunny')
+    setProfileName('')
+    setPassphrase('')
+    setSaveAsProfile(false)
+    setEditingProfile(null)
+    setCustomHost(false)
+    setRegionProbes({})
+  }
+
+  const handleEditProfile = (profile: ConnectionProfile) => {
+    // Secrets are left empty and kept as saved unless a new access key is typed
     setFormData({
-      host: process.env.NEXT_PUBLIC_FTP_HOST || 'storage.bunnycdn.com',
-      user: process.env.NEXT_PUBLIC_FTP_USER || '',
-      password: process.env.NEXT_PUBLIC_FTP_PASSWORD || '',
-      port: parseInt(process.env.NEXT_PUBLIC_FTP_PORT || '443'),
-      url: process.env.NEXT_PUBLIC_FTP_URL || '',
+      host: profile.host,
+      user: profile.user,
+      password: '',
+      port: profile.port,
+      url: profile.url,
+      apiKey: '',
+      libraryId: profile.libraryId || '',
     })
+    setProvider(profile.provider)
+    setProfileName(profile.name)
+    setPassphrase('')
+    setEditingProfile(profile)
+    setCustomHost(false)
+    setRegionProbes({})
+  }
+
+  // Probes every known endpoint in parallel and picks the fastest one that knows the zone
+  const handleDetectRegion = async () => {
+    if (!formData.user || !formData.password) {
+      onConnectionError('Enter the storage zone name and access key to detect its region')
+      return
+    }
+
+    setDetectingRegion(true)
+    setRegionProbes({})
+    try {
+      const api = new BunnyAPI({ ...formData, provider: 'bunny' })
+      const results = await Promise.all(STORAGE_REGIONS.map(async region => {
+        const result = await api.probeHost(region.host)
+        setRegionProbes(prev => ({ ...prev, [region.host]: result }))
+        return result
+      }))
+
+      const fastest = results
+        .filter(result => result.ok)
+        .sort((a, b) => (a.latencyMs ?? Infinity) - (b.latencyMs ?? Infinity))[0]
+      if (fastest) {
+        setFormData(prev => ({ ...prev, host: fastest.host }))
+        setCustomHost(false)
+      } else {
+        onConnectionError('No region accepted these credentials. Please check the storage zone name and access key.')
+      }
+    } finally {
+      setDetectingRegion(false)
+    }
+  }
+
+  const handleDuplicateProfile = (profile: ConnectionProfile) => {
+    duplicateProfile(profile.id)
+    setProfiles(loadProfiles())
+  }
+
+  const handleDeleteProfile = (profile: ConnectionProfile) => {
+    if (!window.confirm(`Delete the profile ${profile.name}?`)) return
+    deleteProfile(profile.id)
+    if (editingProfile?.id === profile.id) resetForm()
+    setProfiles(loadProfiles())
+  }
+
+  // Encrypts newly typed secrets, or keeps the edited profile's when the access key was left empty
+  const buildProfileSecret = async (): Promise<EncryptedSecret | undefined> => {
+    if (provider === 'local') return undefined
+    if (!formData.password) {
+      if (formData.apiKey) throw new Error('Enter the access key as well to change the API key')
+      return editingProfile?.secret
+    }
+    if (!passphrase) throw new Error('Please enter a passphrase to encrypt the access key with')
+    return encryptSecrets({ password: formData.password, apiKey: formData.apiKey || undefined }, passphrase)
+  }
+
+  const buildProfile = async (): Promise<ConnectionProfile> => {
+    if (!profileName.trim()) throw new Error('Please enter a name for the profile')
+    return {
+      id: editingProfile?.id || uuidv4(),
+      name: profileName.trim(),
+      provider,
+      host: formData.host,
+      user: formData.user,
+      port: formData.port,
+      url: formData.url,
+      libraryId: formData.libraryId || undefined,
+      secret: await buildProfileSecret(),
+      createdAt: editingProfile?.createdAt || new Date().toISOString(),
+      lastUsedAt: editingProfile?.lastUsedAt,
+    }
+  }
+
+  const handleSaveProfile = async () => {
+    const isLocal = provider === 'local'
+    if (!formData.user || (!isLocal && (!formData.host || !formData.url || (!formData.password && !editingProfile?.secret)))) {
+      onConnectionError('Please fill in all required fields')
+      return
+    }
+
+    try {
+      saveProfile(await buildProfile())
+      setProfiles(loadProfiles())
+      resetForm()
+    } catch (error: any) {
+      console.error('Profile save error:', error)
+      onConnectionError(error?.message || 'Failed to save the profile')
+    }
+  }
+
+  const showDiagnostics = async (heading: string, run: () => Promise<{ checks?: DiagnosticCheck[]; error?: string }>) => {
+    setDiagnosing(true)
+    setDiagnostics(null)
+    try {
+      const result = await run()
+      if (result.checks) {
+        setDiagnostics({ heading, checks: result.checks })
+      } else {
+        onConnectionError(result.error || 'Diagnostics failed. Please try again.')
+      }
+    } finally {
+      setDiagnosing(false)
+    }
+  }
+
+  const handleDiagnose = () => {
+    const isLocal = provider === 'local'
+    if (!formData.user || (!isLocal && (!formData.host || !formData.password))) {
+      onConnectionError('Please fill in the storage zone and access key to run diagnostics')
+      return
+    }
+    showDiagnostics(`Diagnostics for ${formData.user}`, () => new BunnyAPI({ ...formData, provider, userName: userName.trim() || undefined }).runDiagnostics())
   }
 
   const handleConnect = async () => {
-    if (!formData.host || !formData.user || !formData.password || !formData.url) {
+    const isLocal = provider === 'local'
+    if (!formData.user || (!isLocal && (!formData.host || !formData.password || !formData.url))) {
       onConnectionError('Please fill in all required fields')
       return
     }
@@ -58,19 +294,35 @@ export default function ConnectionManager({
 
     try {
       const connection: BunnyConnection = {
+        provider,
         host: formData.host,
         user: formData.user,
         password: formData.password,
         port: formData.port,
         url: formData.url,
+        apiKey: formData.apiKey || undefined,
+        libraryId: formData.libraryId || undefined,
+        userName: rememberUserName(),
       }
 
+      // Checked before connecting so a missing name or passphrase doesn't leave an unsaved session behind
+      const profile = saveAsProfile ? await buildProfile() : null
+
       const api = new BunnyAPI(connection)
       const result = await api.testConnection()
 
-      if (result.success) {
-        onConnectionSuccess(connection)
+      if (result.success && result.connectionId) {
+        if (profile) {
+          saveProfile({ ...profile, lastUsedAt: new Date().toISOString() })
+        }
+        // The access key and API key stay in the server-side session from here on
+        onConnectionSuccess({ ...connection, id: result.connectionId, password: '', apiKey: undefined, hasApiKey: Boolean(connection.apiKey) })
       } else {
+        if (result.suggestedHost) {
+          // The zone answered in another region; select it so connecting again just works
+          setFormData(prev => ({ ...prev, host: result.suggestedHost as string }))
+          setCustomHost(false)
+        }
         onConnectionError(result.error || 'Failed to connect to server. Please check your credentials.')
       }
     } catch (error: any) {
@@ -82,106 +334,320 @@ export default function ConnectionManager({
     }
   }
 
+  const showCustomHost = customHost || !STORAGE_REGIONS.some(region => region.host === formData.host)
+  const regionOptions = [
+    ...STORAGE_REGIONS.map(region => ({ label: `${region.label}${formatProbe(regionProbes[region.host])}`, value: region.host })),
+    { label: 'Custom host…', value: CUSTOM_HOST },
+  ]
+
   return (
     <div className="max-w-2xl mx-auto">
       <Card>
         <div className="p-6">
           <h2 className="text-xl font-semibold mb-4">Connect to Bunny CDN</h2>
-          
-          <div className="mb-4">
-            <Checkbox
-              checked={useEnvVars}
-              onChange={(e) => {
-                const checked = e.target.checked
-                setUseEnvVars(checked)
-                if (checked) {
-                  // Only load from env vars when checkbox is checked
-                  loadFromEnvVars()
-                } else {
-                  // When unchecked, clear the form to default values
-                  setFormData({
-                    host: 'storage.bunnycdn.com',
-                    user: '',
-                    password: '',
-                    port: 443,
-                    url: '',
-                  })
-                }
-              }}
-              label="Load from environment variables"
-            />
-          </div>
 
-          <div className="space-y-4">
+          <div className="mb-6">
             <FieldText
-              label="Host"
-              placeholder="storage.bunnycdn.com"
-              value={formData.host}
-              onChange={(e) => handleInputChange('host', e.target.value)}
-              required
+              label="Your Name (optional)"
+              placeholder="Shown as the author of deleted items"
+              value={userName}
+              onChange={(e) => setUserName(e.target.value)}
             />
+          </div>
+          
+          {profiles.length > 0 && !managedOnly && (
+            <div className="mb-6">
+              <h3 className="text-sm font-medium text-gray-700 mb-2">Saved profiles</h3>
+              <div className="space-y-2">
+                {profiles.map(profile => (
+                  <div key={profile.id} className="flex items-center justify-between p-3 border border-gray-200 rounded-md">
+                    <div className="min-w-0">
+                      <div className="flex items-center space-x-2">
+                        <span className="font-medium text-gray-900 truncate">{profile.name}</span>
+                        <Badge appearance="info">{profile.user}</Badge>
+                      </div>
+                      <p className="text-xs text-gray-500 truncate">
+                        {profile.provider === 'local' ? 'Local directory' : profile.host}
+                        {profile.lastUsedAt && ` · last used ${new Date(profile.lastUsedAt).toLocaleString()}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-1 flex-shrink-0">
+                      <button onClick={() => handleEditProfile(profile)} className="p-1 hover:bg-gray-100 rounded" title="Edit">
+                        <Pencil className="w-4 h-4 text-gray-500" />
+                      </button>
+                      <button onClick={() => handleDuplicateProfile(profile)} className="p-1 hover:bg-gray-100 rounded" title="Duplicate">
+                        <CopyPlus className="w-4 h-4 text-gray-500" />
+                      </button>
+                      <button onClick={() => handleDeleteProfile(profile)} className="p-1 hover:bg-gray-100 rounded" title="Delete">
+                        <Trash2 className="w-4 h-4 text-red-500" />
+                      </button>
+                      <Button
+                        appearance="secondary"
+                        onClick={() => handleOpenProfile(profile)}
+                        disabled={isLoading}
+                        className="ml-2"
+                      >
+                        Connect
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
 
-            <FieldText
-              label="User"
-              placeholder="Enter storage zone name (e.g., iba-consulting-prod)"
-              value={formData.user}
-              onChange={(e) => handleInputChange('user', e.target.value)}
-              required
-            />
+          {managedZones.length > 0 && (
+            <div className="mb-6">
+              <h3 className="text-sm font-medium text-gray-700 mb-2">Managed storage zones</h3>
+              <div className="space-y-2">
+                {managedZones.map(zone => (
+                  <div key={zone.id} className="flex items-center justify-between p-3 border border-gray-200 rounded-md">
+                    <div className="min-w-0">
+                      <div className="flex items-center space-x-2">
+                        <span className="font-medium text-gray-900 truncate">{zone.label}</span>
+                        <Badge appearance="info">{zone.user}</Badge>
+                      </div>
+                      {zone.url && <p className="text-xs text-gray-500 truncate">{zone.url}</p>}
+                    </div>
+                    <div className="flex items-center space-x-2 flex-shrink-0">
+                      <Button
+                        appearance="subtle"
+                        onClick={() => showDiagnostics(`Diagnostics for ${zone.label}`, () => BunnyAPI.diagnoseManagedZone(zone.id, userName.trim() || undefined))}
+                        disabled={isLoading || diagnosing}
+                      >
+                        Diagnose
+                      </Button>
+                      <Button
+                        appearance="secondary"
+                        onClick={() => handleConnectManagedZone(zone)}
+                        disabled={isLoading}
+                      >
+                        Connect
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
 
-            <FieldText
-              label="Pass"
-              placeholder="Enter your access key"
-              value={formData.password}
-              onChange={(e) => handleInputChange('password', e.target.value)}
-              type="password"
-              required
-            />
+          {!managedOnly && (
+            <>
+              {editingProfile ? (
+                <h3 className="text-sm font-medium text-gray-700 mb-2">Edit profile {editingProfile.name}</h3>
+              ) : (managedZones.length > 0 || profiles.length > 0) && (
+                <h3 className="text-sm font-medium text-gray-700 mb-2">Or connect manually</h3>
+              )}
 
-            <FieldText
-              label="Port"
-              placeholder="443"
-              value={formData.port ? formData.port.toString() : ''}
-              onChange={(e) => handleInputChange('port', e.target.value)}
-              type="number"
-              required
-            />
+              <div className="space-y-4">
+                {/* The local directory provider is only offered when the server enables it */}
+                {(localProviderAllowed || provider === 'local') && (
+                  <div className="space-y-2">
+                    <label className="block text-sm font-medium text-gray-700">Storage</label>
+                    <Select
+                      options={providerOptions}
+                      value={providerOptions.find(option => option.value === provider)}
+                      onChange={(option) => option && setProvider(option.value as StorageProviderType)}
+                    />
+                  </div>
+                )}
 
-            <FieldText
-              label="URL"
-              placeholder="https://your-pull-zone.b-cdn.net"
-              value={formData.url}
-              onChange={(e) => handleInputChange('url', e.target.value)}
-              required
-            />
-          </div>
+                {provider === 'bunny' && (
+                  <div className="space-y-2">
+                    <label className="block text-sm font-medium text-gray-700">Region</label>
+                    <div className="flex items-center space-x-2">
+                      <div className="flex-1">
+                        <Select
+                          options={regionOptions}
+                          value={regionOptions.find(option => option.value === (showCustomHost ? CUSTOM_HOST : formData.host))}
+                          onChange={(option) => {
+                            if (!option) return
+                            if (option.value === CUSTOM_HOST) {
+                              setCustomHost(true)
+                            } else {
+                              setCustomHost(false)
+                              handleInputChange('host', option.value)
+                            }
+                          }}
+                        />
+                      </div>
+                      <Button appearance="secondary" onClick={handleDetectRegion} loading={detectingRegion} disabled={isLoading}>
+                        Auto-detect
+                      </Button>
+                    </div>
 
-          <div className="mt-6 flex justify-end">
-            <Button
-              appearance="primary"
-              onClick={handleConnect}
-              loading={isLoading}
-              disabled={isLoading}
-            >
-              Connect
-            </Button>
-          </div>
+                    {showCustomHost && (
+                      <FieldText
+                        label="Host"
+                        placeholder="storage.bunnycdn.com"
+                        value={formData.host}
+                        onChange={(e) => handleInputChange('host', e.target.value)}
+                        required
+                      />
+                    )}
+                  </div>
+                )}
+
+                <FieldText
+                  label="User"
+                  placeholder={provider === 'local'
+                    ? 'Enter the zone folder name inside LOCAL_STORAGE_ROOT'
+                    : 'Enter storage zone name (e.g., iba-consulting-prod)'}
+                  value={formData.user}
+                  onChange={(e) => handleInputChange('user', e.target.value)}
+                  required
+                />
+
+                {provider === 'bunny' && (
+                  <>
+                    <FieldText
+                      label="Pass"
+                      placeholder={editingProfile?.secret ? 'Leave empty to keep the saved access key' : 'Enter your access key'}
+                      value={formData.password}
+                      onChange={(e) => handleInputChange('password', e.target.value)}
+                      type="password"
+                      required={!editingProfile?.secret}
+                    />
+
+                    <FieldText
+                      label="Port"
+                      placeholder="443"
+                      value={formData.port ? formData.port.toString() : ''}
+                      onChange={(e) => handleInputChange('port', e.target.value)}
+                      type="number"
+                      required
+                    />
+                  </>
+                )}
+
+                <FieldText
+                  label="URL"
+                  placeholder="https://your-pull-zone.b-cdn.net"
+                  value={formData.url}
+                  onChange={(e) => handleInputChange('url', e.target.value)}
+                  required={provider === 'bunny'}
+                />
+
+                {provider === 'bunny' && (
+                  <>
+                    <FieldText
+                      label="API Key (optional)"
+                      placeholder={editingProfile?.secret ? 'Leave empty to keep the saved API key' : 'Account API key'}
+                      value={formData.apiKey}
+                      onChange={(e) => handleInputChange('apiKey', e.target.value)}
+                      type="password"
+                    />
+
+                    <FieldText
+                      label="Library ID (optional)"
+                      placeholder="Stream video library ID"
+                      value={formData.libraryId}
+                      onChange={(e) => handleInputChange('libraryId', e.target.value)}
+                    />
+                  </>
+                )}
+
+                {!editingProfile && (
+                  <Checkbox
+                    label="Save as a profile in this browser"
+                    checked={saveAsProfile}
+                    onChange={(e) => setSaveAsProfile(e.target.checked)}
+                  />
+                )}
+
+                {(saveAsProfile || editingProfile) && (
+                  <>
+                    <FieldText
+                      label="Profile Name"
+                      placeholder="e.g. Production assets"
+                      value={profileName}
+                      onChange={(e) => setProfileName(e.target.value)}
+                      required
+                    />
+
+                    {provider === 'bunny' && (
+                      <FieldText
+                        label="Passphrase"
+                        placeholder={editingProfile ? 'Only needed when changing the keys' : 'Encrypts the access key and API key'}
+                        value={passphrase}
+                        onChange={(e) => setPassphrase(e.target.value)}
+                        type="password"
+                        required={!editingProfile}
+                      />
+                    )}
+                  </>
+                )}
+              </div>
+
+              <div className="mt-6 flex justify-end space-x-3">
+                {editingProfile ? (
+                  <>
+                    <Button appearance="subtle" onClick={resetForm}>
+                      Cancel
+                    </Button>
+                    <Button appearance="primary" onClick={handleSaveProfile}>
+                      Save Profile
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <Button
+                      appearance="secondary"
+                      onClick={handleDiagnose}
+                      loading={diagnosing}
+                      disabled={isLoading}
+                    >
+                      Run Diagnostics
+                    </Button>
+                    <Button
+                      appearance="primary"
+                      onClick={handleConnect}
+                      loading={isLoading}
+                      disabled={isLoading}
+                    >
+                      Connect
+                    </Button>
+                  </>
+                )}
+              </div>
+            </>
+          )}
+
+          {diagnostics && (
+            <div className="mt-6">
+              <DiagnosticsChecklist
+                heading={diagnostics.heading}
+                checks={diagnostics.checks}
+                onClose={() => setDiagnostics(null)}
+              />
+            </div>
+          )}
 
           <div className="mt-4 p-4 bg-blue-50 rounded-lg">
             <h3 className="font-medium text-blue-900 mb-2">Environment Variables</h3>
             <p className="text-sm text-blue-700">
-              You can also set these values in your .env.local file:
+              Server administrators can configure storage zones in .env.local. These values stay on the server and appear above as managed zones:
             </p>
             <pre className="text-xs text-blue-600 mt-2 bg-blue-100 p-2 rounded">
-{`NEXT_PUBLIC_FTP_HOST=storage.bunnycdn.com
-NEXT_PUBLIC_FTP_USER=your-storage-zone-name
-NEXT_PUBLIC_FTP_PASSWORD=your-access-key
-NEXT_PUBLIC_FTP_PORT=443
-NEXT_PUBLIC_FTP_URL=https://your-pull-zone.b-cdn.net`}
+{`BUNNY_STORAGE_ZONE_NAME=your-storage-zone-name
+BUNNY_STORAGE_ZONE_PASSWORD=your-access-key
+BUNNY_STORAGE_ZONE_REGION=de
+BUNNY_PULL_ZONE_URL=https://your-pull-zone.b-cdn.net`}
             </pre>
           </div>
         </div>
       </Card>
+
+      {unlockProfile && (
+        <ProfileUnlockDialog
+          profile={unlockProfile}
+          onUnlock={async (profilePassphrase) => {
+            await connectWithProfile(unlockProfile, profilePassphrase)
+            setUnlockProfile(null)
+          }}
+          onClose={() => setUnlockProfile(null)}
+        />
+      )}
     </div>
   )
 }
@@ -0,0 +1,108 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { AlertTriangle } from 'lucide-react'
+import { Button, FieldText, ModalDialog, Spinner } from './ui'
+import { BunnyFile, OperationReport } from '../types/bunny'
+import { BunnyAPI } from '../lib/bunny-api'
+import { formatFileSize } from '../lib/format'
+
+const SAMPLE_SIZE = 10
+
+interface DeleteFolderDialogProps {
+  api: BunnyAPI
+  folderPath: string // Full path of the folder, without a trailing slash
+  folderName: string
+  toTrash?: boolean // The zone's trash is on, so the folder can be restored later
+  onClose: () => void
+  onDeleted: (report: OperationReport) => void
+  onError: (error: string) => void
+}
+
+export default function DeleteFolderDialog({ api, folderPath, folderName, toTrash = false, onClose, onDeleted, onError }: DeleteFolderDialogProps) {
+  const [contents, setContents] = useState<{ path: string; file: BunnyFile }[] | null>(null)
+  const [previewError, setPreviewError] = useState<string | null>(null)
+  const [confirmation, setConfirmation] = useState('')
+  const [isDeleting, setIsDeleting] = useState(false)
+
+  useEffect(() => {
+    // Show exactly what will be removed before anything is deleted
+    api.listFilesRecursive(folderPath)
+      .then(setContents)
+      .catch((error) => setPreviewError(error instanceof Error ? error.message : 'Unknown error'))
+  }, [api, folderPath])
+
+  const totalSize = contents ? contents.reduce((sum, item) => sum + item.file.Length, 0) : 0
+  const isConfirmed = confirmation === folderName
+
+  const handleDelete = async () => {
+    if (!isConfirmed) return
+    setIsDeleting(true)
+    try {
+      onDeleted(await api.deleteFolder(`${folderPath}/`, folderName))
+    } catch (error) {
+      console.error('Delete error:', error)
+      onError(`Failed to delete folder: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      setIsDeleting(false)
+    }
+  }
+
+  return (
+    <ModalDialog heading={`Delete folder ${folderName}`} onClose={onClose} width="large">
+      <div className="p-6">
+        {previewError ? (
+          <p className="text-sm text-red-600">Could not read the folder contents: {previewError}</p>
+        ) : !contents ? (
+          <div className="flex items-center space-x-3 text-sm text-gray-600">
+            <Spinner size="small" />
+            <span>Scanning folder…</span>
+          </div>
+        ) : (
+          <>
+            <div className={`flex items-start space-x-3 p-4 rounded-md ${toTrash ? 'bg-yellow-50' : 'bg-red-50'}`}>
+              <AlertTriangle className={`w-5 h-5 flex-shrink-0 ${toTrash ? 'text-yellow-600' : 'text-red-600'}`} />
+              <p className={`text-sm ${toTrash ? 'text-yellow-800' : 'text-red-800'}`}>
+                {toTrash ? 'This moves ' : 'This permanently deletes '}<strong>{contents.length} {contents.length === 1 ? 'file' : 'files'}</strong> ({formatFileSize(totalSize)}) in all subfolders of <strong>{folderPath}</strong>{toTrash ? ' to the trash, where it can be restored until it is purged' : ''}.
+              </p>
+            </div>
+
+            {contents.length > 0 && (
+              <ul className="mt-4 max-h-48 overflow-y-auto text-xs text-gray-600 font-mono border border-gray-200 rounded-md divide-y divide-gray-100">
+                {contents.slice(0, SAMPLE_SIZE).map(item => (
+                  <li key={item.path} className="px-3 py-1 truncate" title={item.path}>{item.path}</li>
+                ))}
+                {contents.length > SAMPLE_SIZE && (
+                  <li className="px-3 py-1 italic text-gray-400">…and {contents.length - SAMPLE_SIZE} more</li>
+                )}
+              </ul>
+            )}
+
+            <div className="mt-4">
+              <FieldText
+                label={`Type "${folderName}" to confirm`}
+                placeholder={folderName}
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+                required
+              />
+            </div>
+          </>
+        )}
+
+        <div className="mt-6 flex justify-end space-x-3">
+          <Button appearance="subtle" onClick={onClose} disabled={isDeleting}>
+            Cancel
+          </Button>
+          <Button
+            appearance="danger"
+            onClick={handleDelete}
+            loading={isDeleting}
+            disabled={!contents || !isConfirmed || isDeleting}
+          >
+            {toTrash ? 'Move to Trash' : 'Delete Folder'}
+          </Button>
+        </div>
+      </div>
+    </ModalDialog>
+  )
+}
@@ -0,0 +1,52 @@
+'use client'
+
+import { CheckCircle, MinusCircle, XCircle } from 'lucide-react'
+import { DiagnosticCheck, DiagnosticStatus } from '../types/bunny'
+
+interface DiagnosticsChecklistProps {
+  heading: string
+  checks: DiagnosticCheck[]
+  onClose: () => void
+}
+
+const statusIcons: Record<DiagnosticStatus, JSX.Element> = {
+  pass: <CheckCircle className="w-4 h-4 text-green-500 flex-shrink-0" />,
+  fail: <XCircle className="w-4 h-4 text-red-500 flex-shrink-0" />,
+  skipped: <MinusCircle className="w-4 h-4 text-gray-400 flex-shrink-0" />,
+}
+
+export default function DiagnosticsChecklist({ heading, checks, onClose }: DiagnosticsChecklistProps) {
+  const failed = checks.filter(check => check.status === 'fail').length
+
+  return (
+    <div className="p-4 border border-gray-200 rounded-md">
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <h3 className="text-sm font-medium text-gray-900">{heading}</h3>
+          <p className={`text-xs ${failed > 0 ? 'text-red-600' : 'text-green-600'}`}>
+            {failed > 0 ? `${failed} of ${checks.length} checks failed` : 'All checks passed'}
+          </p>
+        </div>
+        <button onClick={onClose} className="text-sm text-gray-500 hover:text-gray-700">
+          Dismiss
+        </button>
+      </div>
+      <ul className="space-y-2">
+        {checks.map(check => (
+          <li key={check.id} className="flex items-start space-x-2">
+            <span className="mt-0.5">{statusIcons[check.status]}</span>
+            <div className="min-w-0 flex-1">
+              <div className="flex items-center justify-between text-sm">
+                <span className={check.status === 'skipped' ? 'text-gray-500' : 'text-gray-900'}>{check.label}</span>
+                {check.durationMs !== undefined && <span className="text-xs text-gray-400">{check.durationMs} ms</span>}
+              </div>
+              {check.detail && (
+                <p className={`text-xs break-words ${check.status === 'fail' ? 'text-red-600' : 'text-gray-500'}`}>{check.detail}</p>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,202 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { X } from 'lucide-react'
+import { Button, Select } from './ui'
+import BrowserPane, { PaneDragPayload } from './BrowserPane'
+import TransferPanel from './TransferPanel'
+import OperationReportDialog from './OperationReportDialog'
+import { BunnyAPI } from '../lib/bunny-api'
+import { BunnyConnection, ConflictPolicy, OperationReport, TransferItem } from '../types/bunny'
+
+interface DualPaneViewProps {
+  connection: BunnyConnection // Both panes start on it
+  onClose: () => void
+  onError: (error: string) => void
+  onSuccess: (message: string) => void
+}
+
+type PaneSide = 'left' | 'right'
+
+interface PaneTransfer {
+  run: (signal: AbortSignal) => Promise<OperationReport>
+  label: string
+  controller?: AbortController
+}
+
+const conflictPolicyOptions = [
+  { label: 'Skip existing files', value: 'skip' },
+  { label: 'Overwrite existing files', value: 'overwrite' },
+  { label: 'Keep both', value: 'keepBoth' },
+]
+
+/**
+ * Two independent browsers side by side, each bound to its own session
+ * connection. Dropping items from one pane into a folder of the other copies
+ * them on the server, or moves them when Shift is held.
+ */
+export default function DualPaneView({ connection, onClose, onError, onSuccess }: DualPaneViewProps) {
+  const [connections, setConnections] = useState<BunnyConnection[]>([connection])
+  const [paneConnectionIds, setPaneConnectionIds] = useState<Record<PaneSide, string>>({
+    left: connection.id || '',
+    right: connection.id || '',
+  })
+  const [refreshKeys, setRefreshKeys] = useState<Record<PaneSide, number>>({ left: 0, right: 0 })
+  const [conflict, setConflict] = useState<ConflictPolicy>('skip')
+  const [transfers, setTransfers] = useState<TransferItem[]>([])
+  const [operationReport, setOperationReport] = useState<{ heading: string; report: OperationReport } | null>(null)
+  const transfersRef = useRef(new Map<string, PaneTransfer>())
+
+  useEffect(() => {
+    // Any zone connected in this session can be opened in either pane
+    BunnyAPI.listSessionConnections().then(list => {
+      if (list.length > 0) setConnections(list)
+    })
+  }, [])
+
+  const getPaneConnection = (side: PaneSide) =>
+    connections.find(item => item.id === paneConnectionIds[side]) || connection
+
+  const updateTransfer = (id: string, update: Partial<TransferItem>) => {
+    setTransfers(prev => prev.map(item => item.id === id ? { ...item, ...update } : item))
+  }
+
+  const runTransfer = async (id: string) => {
+    const transfer = transfersRef.current.get(id)
+    if (!transfer) return
+    const controller = new AbortController()
+    transfer.controller = controller
+    updateTransfer(id, { loaded: 0, status: 'active', error: undefined })
+
+    try {
+      const report = await transfer.run(controller.signal)
+      if (report.failed > 0) {
+        updateTransfer(id, { status: 'failed', error: `${report.failed} of ${report.items.length} items failed` })
+        setOperationReport({ heading: `${transfer.label} finished with errors`, report })
+      } else {
+        updateTransfer(id, { status: 'completed' })
+        onSuccess(report.skipped > 0
+          ? `${transfer.label}: ${report.skipped} existing ${report.skipped === 1 ? 'file' : 'files'} skipped`
+          : `${transfer.label} finished`)
+      }
+    } catch (error) {
+      if (controller.signal.aborted) {
+        updateTransfer(id, { status: 'cancelled' })
+        return
+      }
+      console.error('Transfer error:', error)
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      updateTransfer(id, { status: 'failed', error: message })
+      onError(`${transfer.label} failed: ${message}`)
+    } finally {
+      // Both panes may show either zone, so both are reloaded
+      setRefreshKeys(prev => ({ left: prev.left + 1, right: prev.right + 1 }))
+    }
+  }
+
+  const handleDropItems = (side: PaneSide, payload: PaneDragPayload, folder: string, move: boolean) => {
+    const source = connections.find(item => item.id === payload.connectionId)
+    const target = getPaneConnection(side)
+    if (!source || !target.id) {
+      onError('The pane the items came from is no longer connected')
+      return
+    }
+
+    const sameConnection = source.id === target.id
+    const api = new BunnyAPI(source)
+    for (const item of payload.items) {
+      const from = `${payload.folder}${item.name}`
+      // Dropping back onto the folder an item came from, or into itself, has nothing to do
+      if (sameConnection && (folder === payload.folder || (item.isDirectory && folder.startsWith(`${from}/`)))) continue
+
+      const id = `transfer-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+      const label = `${move ? 'Move' : 'Copy'} of ${item.name}`
+      transfersRef.current.set(id, {
+        label,
+        run: (signal) => {
+          let transferredBytes = 0
+          return api.copy(from, `${folder}${item.name}`, {
+            isDirectory: item.isDirectory,
+            targetConnectionId: target.id,
+            conflict,
+            move,
+            signal,
+            onProgress: (event) => {
+              if (event.type === 'start') {
+                updateTransfer(id, { total: event.bytes })
+              } else if (event.type === 'item' && event.item.status === 'done') {
+                transferredBytes += event.item.bytes || 0
+                updateTransfer(id, { loaded: transferredBytes })
+              }
+            },
+          })
+        },
+      })
+      setTransfers(prev => [...prev, { id, name: `${item.name} → ${target.user}${folder}`, loaded: 0, total: item.size, status: 'pending' }])
+      runTransfer(id)
+    }
+  }
+
+  const renderPane = (side: PaneSide) => (
+    <div className="flex-1 min-w-0">
+      <BrowserPane
+        connection={getPaneConnection(side)}
+        connections={connections}
+        refreshKey={refreshKeys[side]}
+        onConnectionChange={(connectionId) => setPaneConnectionIds(prev => ({ ...prev, [side]: connectionId }))}
+        onDropItems={(payload, folder, move) => handleDropItems(side, payload, folder, move)}
+        onError={onError}
+      />
+    </div>
+  )
+
+  return (
+    <div className="flex flex-col h-screen bg-gray-50">
+      <div className="bg-white border-b border-gray-200 p-4 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-bold text-gray-900">Split View</h2>
+          <p className="text-sm text-gray-500">Drag items to the other pane to copy them; hold Shift while dropping to move them</p>
+        </div>
+        <div className="flex items-center space-x-3">
+          <div className="w-56">
+            <Select
+              options={conflictPolicyOptions}
+              value={conflictPolicyOptions.find(option => option.value === conflict)}
+              onChange={(option) => option && setConflict(option.value as ConflictPolicy)}
+            />
+          </div>
+          <Button appearance="subtle" onClick={onClose}>
+            <span className="flex items-center"><X className="w-4 h-4 mr-2" /> Close</span>
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex-1 flex space-x-4 p-4 min-h-0">
+        {renderPane('left')}
+        {renderPane('right')}
+      </div>
+
+      <TransferPanel
+        title="Transfers"
+        items={transfers}
+        onCancel={(id) => transfersRef.current.get(id)?.controller?.abort()}
+        onRetry={runTransfer}
+        onClearFinished={() => {
+          setTransfers(prev => prev.filter(item => {
+            const finished = item.status === 'completed' || item.status === 'cancelled'
+            if (finished) transfersRef.current.delete(item.id)
+            return !finished
+          }))
+        }}
+      />
+
+      {operationReport && (
+        <OperationReportDialog
+          heading={operationReport.heading}
+          report={operationReport.report}
+          onClose={() => setOperationReport(null)}
+        />
+      )}
+    </div>
+  )
+}
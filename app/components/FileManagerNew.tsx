@@ -1,8 +1,8 @@
 'use client'
 
-import { useState, useEffect, useCallback, useMemo } from 'react'
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
 import Image from 'next/image'
-import { Button, Card, Spinner, EmptyState, Badge, ModalDialog, FieldText, FieldRange, Select } from './ui'
+import { Button, Card, Spinner, EmptyState, Badge, ModalDialog, FieldText, FieldRange, Select, Checkbox } from './ui'
 import { Table, DropdownMenu, DropdownItem, DropdownItemGroup } from './Table'
 import { 
   MoreHorizontal, 
@@ -13,18 +13,48 @@ import {
   Folder, 
   FolderOpen, 
   File as FileIcon, 
-  ChevronRight, 
-  ChevronDown, 
-  Home, 
   ArrowLeft,
   Copy,
   ChevronDown as ChevronDownIcon,
-  LogOut
+  LogOut,
+  Eye,
+  Pencil,
+  FolderInput,
+  CopyPlus,
+  Link,
+  X,
+  FileArchive,
+  ShieldCheck,
+  History,
+  Activity,
+  Columns,
+  Zap
 } from 'lucide-react'
 import { useDropzone } from 'react-dropzone'
-import { BunnyConnection, BunnyFile, ImageOptimizationOptions } from '../types/bunny'
+import { BunnyConnection, BunnyFile, CdnSettings, ConflictMode, ConflictPolicy, ImageOptimizationOptions, OperationReport, TransferItem, VersioningSettings } from '../types/bunny'
 import { BunnyAPI } from '../lib/bunny-api'
 import ImageOptimizer from './ImageOptimizer'
+import TransferPanel from './TransferPanel'
+import MediaPreview, { getMediaKind } from './MediaPreview'
+import FolderTree from './FolderTree'
+import OperationReportDialog from './OperationReportDialog'
+import DeleteFolderDialog from './DeleteFolderDialog'
+import BulkOptimizeDialog from './BulkOptimizeDialog'
+import BulkDeleteDialog from './BulkDeleteDialog'
+import ZipDownloadDialog from './ZipDownloadDialog'
+import ConflictDialog, { FileConflict } from './ConflictDialog'
+import SyncDialog from './SyncDialog'
+import TrashView from './TrashView'
+import ActivityView from './ActivityView'
+import ProfileSwitcher from './ProfileSwitcher'
+import VersionHistoryDialog from './VersionHistoryDialog'
+import { formatFileSize } from '../lib/format'
+import { getRelativePath, UploadQueue, UploadQueueItem } from '../lib/upload-queue'
+import { createReport, isHiddenPath } from '../lib/storage/operations'
+import { runBatch } from '../lib/batch'
+import { useBulkRunner } from '../hooks/useBulkRunner'
+import { useServerJobs } from '../hooks/useServerJobs'
+import { SyncPlan } from '../lib/sync'
 
 
 interface FileManagerProps {
@@ -32,9 +62,23 @@ interface FileManagerProps {
   onError: (error: string) => void
   onSuccess: (message: string) => void
   onDisconnect: () => void
+  onSwitchConnection: (connection: BunnyConnection) => void // Connected through a saved profile from the toolbar
+  onOpenSplitView: () => void
+  hidden?: boolean // Behind the split view, which may change files; the listing is reloaded when it shows again
 }
 
-export default function FileManager({ connection, onError, onSuccess, onDisconnect }: FileManagerProps) {
+const conflictPolicyOptions = [
+  { label: 'Skip existing files', value: 'skip' },
+  { label: 'Overwrite existing files', value: 'overwrite' },
+  { label: 'Keep both (rename new files)', value: 'keepBoth' },
+]
+
+const conflictModeOptions = [
+  { label: 'Ask for each existing file', value: 'ask' },
+  ...conflictPolicyOptions,
+]
+
+export default function FileManager({ connection, onError, onSuccess, onDisconnect, onSwitchConnection, onOpenSplitView, hidden = false }: FileManagerProps) {
   // Get the storage zone name (user) which is the actual root
   const storageZoneRoot = `/${connection.user}/`
   
@@ -43,20 +87,80 @@ export default function FileManager({ connection, onError, onSuccess, onDisconne
   const [isLoading, setIsLoading] = useState(false)
   const [selectedFile, setSelectedFile] = useState<BunnyFile | null>(null)
   const [showOptimizer, setShowOptimizer] = useState(false)
-  const [uploadProgress, setUploadProgress] = useState(0)
-  const [folderTree, setFolderTree] = useState<BunnyFile[]>([])
+  const [transfers, setTransfers] = useState<TransferItem[]>([])
+  const [uploadsPaused, setUploadsPaused] = useState(false)
+  const [previewFile, setPreviewFile] = useState<{ name: string; path: string } | null>(null)
+  const [folderTreeVersion, setFolderTreeVersion] = useState(0)
   const [hasError, setHasError] = useState(false)
-  const [expandedFolders, setExpandedFolders] = useState<Set<string>>(new Set())
-  const [folderContents, setFolderContents] = useState<Map<string, BunnyFile[]>>(new Map())
-  const [folderPaths, setFolderPaths] = useState<Map<string, string>>(new Map())
   const [showAddFolderModal, setShowAddFolderModal] = useState(false)
   const [newFolderName, setNewFolderName] = useState('')
   const [showUploadDropdown, setShowUploadDropdown] = useState(false)
   const [uploadedFileForOptimization, setUploadedFileForOptimization] = useState<File | null>(null)
+  const [renameTarget, setRenameTarget] = useState<BunnyFile | null>(null)
+  const [renameValue, setRenameValue] = useState('')
+  const [moveTargets, setMoveTargets] = useState<BunnyFile[] | null>(null)
+  const [moveDestination, setMoveDestination] = useState('/')
+  const [isMoving, setIsMoving] = useState(false)
+  const [selectedNames, setSelectedNames] = useState<Set<string>>(new Set())
+  const [showBulkDelete, setShowBulkDelete] = useState(false)
+  const [showBulkOptimize, setShowBulkOptimize] = useState(false)
+  const [zipDownload, setZipDownload] = useState<{ heading: string; paths: string[] } | null>(null)
+  const lastSelectedIndexRef = useRef<number | null>(null)
+  const [deleteFolderTarget, setDeleteFolderTarget] = useState<BunnyFile | null>(null)
+  const [copyTarget, setCopyTarget] = useState<BunnyFile | null>(null)
+  const [copyConnections, setCopyConnections] = useState<BunnyConnection[]>([])
+  const [copyConnectionId, setCopyConnectionId] = useState('')
+  const [copyDestination, setCopyDestination] = useState('/')
+  const [pendingArchive, setPendingArchive] = useState<File | null>(null)
+  const [extractConflictPolicy, setExtractConflictPolicy] = useState<ConflictPolicy>('skip')
+  const [conflictMode, setConflictMode] = useState<ConflictMode>('ask')
+  const [showSync, setShowSync] = useState(false)
+  const [sideView, setSideView] = useState<'trash' | 'activity' | null>(null) // Shown in place of the file list
+  const [trashEnabled, setTrashEnabled] = useState(false)
+  const [versioning, setVersioning] = useState<VersioningSettings | null>(null)
+  const [historyTarget, setHistoryTarget] = useState<BunnyFile | null>(null)
+  const [conflictPrompt, setConflictPrompt] = useState<{
+    conflicts: FileConflict[]
+    resolve: (policies: Record<string, ConflictPolicy> | null) => void
+  } | null>(null)
+  const [operationReport, setOperationReport] = useState<{ heading: string; report: OperationReport } | null>(null)
+  const [cdnSettings, setCdnSettings] = useState<CdnSettings | null>(null)
 
   // Create a fresh API instance with the current connection
   const api = useMemo(() => new BunnyAPI(connection), [connection])
 
+  // Called when the upload queue drains; kept in a ref so it always sees the latest state
+  const onUploadsIdleRef = useRef<(settled: UploadQueueItem[]) => void>()
+  const uploadQueue = useMemo(() => new UploadQueue(
+    (item, options) => api.uploadFile(item.file, item.path, { ...options, name: item.relativePath, conflict: item.conflict }),
+    {
+      onIdle: (settled) => onUploadsIdleRef.current?.(settled),
+      onDiscard: (item) => api.discardUpload(item.file, item.path, item.relativePath),
+    }
+  ), [api])
+
+  useEffect(() => uploadQueue.subscribe(setTransfers), [uploadQueue])
+
+  const currentPathRef = useRef(currentPath)
+  currentPathRef.current = currentPath
+
+  // Server-side operations (copy, extract, verify) share the transfer panel with uploads
+  const serverJobs = useServerJobs({
+    onSuccess,
+    onError,
+    onReport: (heading, report) => setOperationReport({ heading, report }),
+  })
+
+  const copyTargetConnection = copyConnections.find(item => item.id === copyConnectionId)
+  const copyConnectionOptions = copyConnections.map(item => ({
+    label: item.id === connection.id ? `${item.user} (current)` : item.user,
+    value: item.id || '',
+  }))
+  const copyTargetApi = useMemo(
+    () => copyTargetConnection ? new BunnyAPI(copyTargetConnection) : api,
+    [copyTargetConnection, api]
+  )
+
   const loadFiles = async (path: string = '/') => {
     setIsLoading(true)
     setHasError(false)
@@ -71,6 +175,8 @@ export default function FileManager({ connection, onError, onSuccess, onDisconne
       
       const fileList = await api.listFiles(normalizedPath)
       setFiles(fileList)
+      setSelectedNames(new Set())
+      lastSelectedIndexRef.current = null
       // Store the normalized path (without storage zone name)
       setCurrentPath(normalizedPath)
     } catch (error) {
@@ -84,57 +190,175 @@ export default function FileManager({ connection, onError, onSuccess, onDisconne
     }
   }
 
-  const loadFolderTree = async () => {
+  useEffect(() => {
+    if (connection) {
+      loadFiles()
+    }
+  }, [connection])
+
+  // Read through a ref so only a change of visibility triggers the reload
+  const loadFilesRef = useRef(loadFiles)
+  loadFilesRef.current = loadFiles
+  const wasHiddenRef = useRef(hidden)
+  useEffect(() => {
+    if (wasHiddenRef.current && !hidden) {
+      loadFilesRef.current(currentPathRef.current)
+    }
+    wasHiddenRef.current = hidden
+  }, [hidden])
+
+  useEffect(() => {
+    // Deletes move items to the trash when the zone has it turned on; the wording follows suit
+    api.getTrash()
+      .then(listing => setTrashEnabled(listing.settings.enabled))
+      .catch(() => setTrashEnabled(false))
+    api.getVersions()
+      .then(listing => setVersioning(listing.settings))
+      .catch(() => setVersioning(null))
+  }, [api])
+
+  const handleToggleVersioning = async (enabled: boolean) => {
+    if (!versioning) return
     try {
-      const rootFiles = await api.listFiles('/')
-      // When listing from root ('/'), all folders returned are root-level folders
-      // A folder is at root if its ObjectName doesn't contain '/' (not nested)
-      const rootFolders = rootFiles.filter(file => {
-        if (!file.IsDirectory) return false
-        // If ObjectName contains '/', it's a nested folder (e.g., "footer/gj-logos")
-        // If ObjectName doesn't contain '/', it's a root-level folder (e.g., "footer")
-        return !file.ObjectName.includes('/')
-      })
-      console.log('All files from root:', rootFiles.map(f => ({ name: f.ObjectName, path: f.Path, isDir: f.IsDirectory })))
-      console.log('Root folders filtered:', rootFolders.length, rootFolders.map(f => ({ name: f.ObjectName, path: f.Path })))
-      setFolderTree(rootFolders)
-      // Reset expanded folders and contents when reloading
-      setExpandedFolders(new Set())
-      setFolderContents(new Map())
-      setFolderPaths(new Map())
-      // Store paths for root folders using full path as key
-      const pathMap = new Map<string, string>()
-      rootFolders.forEach(folder => {
-        const fullPath = folder.ObjectName.startsWith('/') ? folder.ObjectName : `/${folder.ObjectName}/`
-        // Use full path as key to avoid collisions
-        pathMap.set(fullPath, fullPath)
-        // Also store by ObjectName for quick lookup during initial render
-        pathMap.set(`root:${folder.ObjectName}`, fullPath)
-      })
-      setFolderPaths(pathMap)
+      setVersioning(await api.updateVersioningSettings({ ...versioning, enabled }))
+      onSuccess(enabled ? 'Previous versions are now kept when files are replaced' : 'Version history turned off')
     } catch (error) {
-      console.error('Error loading folder tree:', error)
+      console.error('Versioning settings error:', error)
+      onError(error instanceof Error ? error.message : 'Failed to update versioning settings')
     }
   }
 
+  // Purging goes through the account API, so it needs the connection's API key
+  const canPurgeCache = Boolean(connection.hasApiKey && connection.url)
+  // Optimized images keep their name apart from the extension, so an original in the target format is a conflict; "ask" keeps both
+  const bulkOptimizeConflict: ConflictPolicy = conflictMode === 'ask' ? 'keepBoth' : conflictMode
+
   useEffect(() => {
-    if (connection) {
-      loadFiles()
-      loadFolderTree()
+    if (!canPurgeCache) return
+    api.getCdnSettings()
+      .then(setCdnSettings)
+      .catch(() => setCdnSettings(null))
+  }, [api, canPurgeCache])
+
+  const handleTogglePurgeAfterChanges = async (enabled: boolean) => {
+    try {
+      setCdnSettings(await api.updateCdnSettings({ purgeAfterChanges: enabled }))
+      onSuccess(enabled ? 'The CDN cache is now purged after every change to this zone' : 'Purging the CDN cache after changes turned off')
+    } catch (error) {
+      console.error('CDN settings error:', error)
+      onError(error instanceof Error ? error.message : 'Failed to update CDN settings')
     }
-  }, [connection])
+  }
 
-  const onDrop = async (acceptedFiles: File[]) => {
-    for (const file of acceptedFiles) {
-      try {
-        await api.uploadFile(file, currentPath)
-        setUploadProgress(100)
-        onSuccess(`File ${file.name} uploaded successfully`)
-      } catch (error) {
-        onError(`Failed to upload ${file.name}`)
+  const purgeCache = async (paths: string[], label: string) => {
+    try {
+      const report = await api.purgeCache(paths)
+      reportOutcome(report, 'Some URLs could not be purged from the CDN cache', `CDN cache purged for ${label}`)
+    } catch (error) {
+      console.error('Cache purge error:', error)
+      onError(`Failed to purge the CDN cache: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  const handlePurgeItem = (file: BunnyFile) => {
+    // Folders are purged with everything below them
+    purgeCache([file.IsDirectory ? `${getItemPath(file)}/` : getItemPath(file)], file.ObjectName)
+  }
+
+  const refreshFolderTree = () => setFolderTreeVersion(version => version + 1)
+
+  onUploadsIdleRef.current = (settled) => {
+    const completed = settled.filter(item => item.status === 'completed' && !item.skipped)
+    const skipped = settled.filter(item => item.skipped)
+    const failed = settled.filter(item => item.status === 'failed')
+
+    if (completed.length === 1) {
+      onSuccess(`File ${completed[0].name} uploaded successfully`)
+    } else if (completed.length > 1) {
+      onSuccess(`${completed.length} files uploaded successfully`)
+    }
+    if (skipped.length > 0) {
+      // Another upload created these after the pre-flight check
+      onSuccess(`${skipped.length} existing ${skipped.length === 1 ? 'file' : 'files'} skipped`)
+    }
+    if (failed.length === 1) {
+      onError(`Failed to upload ${failed[0].name}`)
+    } else if (failed.length > 1) {
+      onError(`Failed to upload ${failed.length} files. Retry them from the transfer panel.`)
+    }
+    if (completed.length > 0) {
+      loadFiles(currentPath)
+      // Folder uploads create new folders; show them in the sidebar
+      if (completed.some(item => item.relativePath.includes('/'))) {
+        refreshFolderTree()
       }
     }
-    loadFiles(currentPath)
+  }
+
+  /**
+   * Turns the conflict mode into a policy per target path, or null when the
+   * user cancels. "ask" and "skip" look the targets up first; existing files
+   * that are to be left alone are omitted so callers never send them, while
+   * existing folders stay in and have the policy applied to their contents.
+   */
+  const resolveConflicts = async (targetApi: BunnyAPI, targets: { path: string; size?: number }[]): Promise<Record<string, ConflictPolicy> | null> => {
+    const policies: Record<string, ConflictPolicy> = {}
+    if (conflictMode === 'overwrite' || conflictMode === 'keepBoth') {
+      targets.forEach(target => { policies[target.path] = conflictMode })
+      return policies
+    }
+
+    const existing = await targetApi.findExisting(targets.map(target => target.path))
+    let chosen: Record<string, ConflictPolicy> = {}
+    const conflicts = targets
+      .filter(target => existing[target.path])
+      .map(target => ({ path: target.path, existing: existing[target.path], incomingSize: target.size }))
+    if (conflictMode === 'ask' && conflicts.length > 0) {
+      const answer = await new Promise<Record<string, ConflictPolicy> | null>(resolve => setConflictPrompt({ conflicts, resolve }))
+      setConflictPrompt(null)
+      if (!answer) return null
+      chosen = answer
+    }
+
+    targets.forEach(target => {
+      // Free targets are sent with "skip" too, in case something else creates them first
+      const policy = chosen[target.path] || 'skip'
+      const file = existing[target.path]
+      if (policy === 'skip' && file && !file.IsDirectory) return
+      policies[target.path] = policy
+    })
+    return policies
+  }
+
+  const onDrop = async (droppedFiles: File[]) => {
+    const folder = currentPath
+    const normalizedFolder = folder.endsWith('/') ? folder : `${folder}/`
+    const getTargetPath = (relativePath: string) => `${normalizedFolder}${relativePath}`
+
+    // A dropped folder named like one of the app's hidden folders would write into it; the server refuses those
+    const acceptedFiles = droppedFiles.filter(file => !isHiddenPath(getTargetPath(getRelativePath(file))))
+    const refused = droppedFiles.length - acceptedFiles.length
+    if (refused > 0) {
+      onError(`${refused} ${refused === 1 ? 'file was' : 'files were'} not uploaded because ${refused === 1 ? 'its' : 'their'} folder is managed by the app`)
+    }
+    if (acceptedFiles.length === 0) return
+
+    try {
+      const policies = await resolveConflicts(api, acceptedFiles.map(file => ({ path: getTargetPath(getRelativePath(file)), size: file.size })))
+      if (!policies) return
+
+      const queued = acceptedFiles.filter(file => policies[getTargetPath(getRelativePath(file))])
+      const skipped = acceptedFiles.length - queued.length
+      if (skipped > 0) {
+        onSuccess(`${skipped} existing ${skipped === 1 ? 'file' : 'files'} skipped`)
+      }
+      if (queued.length > 0) {
+        uploadQueue.add(queued, folder, relativePath => policies[getTargetPath(relativePath)])
+      }
+    } catch (error) {
+      console.error('Conflict check error:', error)
+      onError(`Failed to check for existing files: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
   }
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
@@ -142,15 +366,27 @@ export default function FileManager({ connection, onError, onSuccess, onDisconne
     disabled: isLoading,
   })
 
+  // Full path of an entry of the current folder, without a trailing slash
+  const getChildPath = (name: string): string => {
+    const currentPathClean = currentPath === '/' ? '' : currentPath.endsWith('/') ? currentPath.slice(0, -1) : currentPath
+    return `${currentPathClean}/${name}`
+  }
+
+  const getItemPath = (file: BunnyFile): string => getChildPath(file.ObjectName)
+
+  // Bulk actions on the selection report their progress in the selection bar
+  const bulkRunner = useBulkRunner(getItemPath)
+
   const handleDeleteFile = async (file: BunnyFile) => {
-    if (window.confirm(`Are you sure you want to delete ${file.ObjectName}?`)) {
+    // Folders get a preview of their contents and a typed confirmation instead
+    if (file.IsDirectory) {
+      setDeleteFolderTarget(file)
+      return
+    }
+    if (window.confirm(trashEnabled ? `Move ${file.ObjectName} to the trash?` : `Are you sure you want to delete ${file.ObjectName}?`)) {
       try {
-        // Construct the full file path including current directory
-        const currentPathClean = currentPath === '/' ? '' : currentPath.endsWith('/') ? currentPath.slice(0, -1) : currentPath
-        const fullFilePath = `${currentPathClean}/${file.ObjectName}`
-        
-        await api.deleteFile(fullFilePath)
-        onSuccess(`File ${file.ObjectName} deleted successfully`)
+        await api.deleteFile(getItemPath(file))
+        onSuccess(trashEnabled ? `File ${file.ObjectName} moved to the trash` : `File ${file.ObjectName} deleted successfully`)
         await loadFiles(currentPath)
       } catch (error) {
         console.error('Delete error:', error)
@@ -159,27 +395,387 @@ export default function FileManager({ connection, onError, onSuccess, onDisconne
     }
   }
 
-  const handleDownloadFile = async (file: BunnyFile) => {
+  const startDownload = (file: BunnyFile) => {
+    // Let the browser stream (and resume) the download instead of holding it in a Blob
+    const a = document.createElement('a')
+    a.href = api.getDownloadUrl(getItemPath(file))
+    a.download = file.ObjectName.split('/').pop() || file.ObjectName
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+  }
+
+  const handleDownloadFile = (file: BunnyFile) => {
+    if (file.IsDirectory) {
+      setZipDownload({ heading: `Download ${file.ObjectName} as ZIP`, paths: [`${getItemPath(file)}/`] })
+      return
+    }
+    startDownload(file)
+    onSuccess(`Download of ${file.ObjectName} started`)
+  }
+
+  const handlePreviewFile = (file: BunnyFile) => {
+    setPreviewFile({ name: file.ObjectName, path: getItemPath(file) })
+  }
+
+  const moveItem = (file: BunnyFile, destination: string, conflict: ConflictPolicy): Promise<OperationReport> => {
+    const from = getItemPath(file)
+    return file.IsDirectory
+      ? api.moveFolder(`${from}/`, `${destination}/`, conflict)
+      : api.moveFile(from, destination, conflict)
+  }
+
+  // Result for an item that was left out before reaching the server
+  const skippedReport = (path: string, reason: string): OperationReport => ({
+    items: [{ path, status: 'skipped', error: reason }],
+    succeeded: 0,
+    skipped: 1,
+    failed: 0,
+  })
+
+  // Shows a per-item report when anything failed, otherwise a success toast
+  const reportOutcome = (report: OperationReport, failureHeading: string, successMessage: string) => {
+    if (report.failed > 0) {
+      setOperationReport({ heading: failureHeading, report })
+    } else {
+      onSuccess(successMessage)
+    }
+  }
+
+  const handleRename = async () => {
+    if (!renameTarget) return
+    const newName = renameValue.trim()
+    if (!newName || newName.includes('/')) {
+      onError('Please enter a valid name')
+      return
+    }
+    if (newName === renameTarget.ObjectName) {
+      setRenameTarget(null)
+      return
+    }
+    const file = renameTarget
+    const target = getChildPath(newName)
+
+    setIsMoving(true)
     try {
-      // Construct the full file path including current directory
-      const currentPathClean = currentPath === '/' ? '' : currentPath.endsWith('/') ? currentPath.slice(0, -1) : currentPath
-      const fullFilePath = `${currentPathClean}/${file.ObjectName}`
-      
-      const blob = await api.downloadFile(fullFilePath)
-      const url = window.URL.createObjectURL(blob)
-      const a = document.createElement('a')
-      a.href = url
-      a.download = file.ObjectName.split('/').pop() || file.ObjectName
-      document.body.appendChild(a)
-      a.click()
-      window.URL.revokeObjectURL(url)
-      document.body.removeChild(a)
-      onSuccess(`File ${file.ObjectName} downloaded successfully`)
+      const policies = await resolveConflicts(api, [{ path: target, size: file.IsDirectory ? undefined : file.Length }])
+      if (!policies) return
+      if (!policies[target]) {
+        onError(`An item named ${newName} already exists`)
+        return
+      }
+
+      const report = await moveItem(file, target, policies[target])
+      reportOutcome(
+        report,
+        `Could not rename ${file.ObjectName}`,
+        report.skipped > 0
+          ? `${file.ObjectName} renamed, ${report.skipped} existing ${report.skipped === 1 ? 'file' : 'files'} left in place`
+          : `${file.IsDirectory ? 'Folder' : 'File'} ${file.ObjectName} renamed successfully`
+      )
+      setRenameTarget(null)
+      await loadFiles(currentPath)
+      if (file.IsDirectory) refreshFolderTree()
+    } catch (error) {
+      console.error('Rename error:', error)
+      onError(`Failed to rename ${file.ObjectName}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setIsMoving(false)
+    }
+  }
+
+  const handleMove = async () => {
+    if (!moveTargets) return
+    const destination = moveDestination === '/' ? '' : moveDestination.endsWith('/') ? moveDestination.slice(0, -1) : moveDestination
+    const targets = moveTargets
+    // Items already in the destination are reported as skipped rather than offered as conflicts with themselves
+    const isInPlace = (file: BunnyFile) => getItemPath(file) === `${destination}/${file.ObjectName}`
+
+    setIsMoving(true)
+    try {
+      const policies = await resolveConflicts(api, targets.filter(file => !isInPlace(file)).map(file => ({
+        path: `${destination}/${file.ObjectName}`,
+        size: file.IsDirectory ? undefined : file.Length,
+      })))
+      if (!policies) return
+
+      const report = await runBatch(targets, file => {
+        const target = `${destination}/${file.ObjectName}`
+        if (isInPlace(file)) {
+          return Promise.resolve(skippedReport(getItemPath(file), 'The item is already in this folder'))
+        }
+        return policies[target]
+          ? moveItem(file, target, policies[target])
+          : Promise.resolve(skippedReport(getItemPath(file), 'An item with this name already exists'))
+      }, { label: getItemPath, concurrency: 1 })
+      reportOutcome(
+        report,
+        'Some items could not be moved',
+        report.skipped > 0
+          ? `${report.succeeded} moved, ${report.skipped} existing ${report.skipped === 1 ? 'item' : 'items'} skipped`
+          : targets.length === 1 ? `${targets[0].ObjectName} moved successfully` : `${targets.length} items moved successfully`
+      )
+      setMoveTargets(null)
+      await loadFiles(currentPath)
+      if (targets.some(file => file.IsDirectory)) refreshFolderTree()
+    } catch (error) {
+      console.error('Move error:', error)
+      onError(`Failed to move: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setIsMoving(false)
+    }
+  }
+
+  const selectedFiles = files.filter(file => selectedNames.has(file.ObjectName))
+  const selectedSize = selectedFiles.reduce((sum, file) => sum + (file.IsDirectory ? 0 : file.Length), 0)
+
+  const handleToggleSelection = (index: number, shiftKey: boolean) => {
+    const file = files[index]
+    const shouldSelect = !selectedNames.has(file.ObjectName)
+    const next = new Set(selectedNames)
+
+    // Shift-click applies the clicked row's new state to the whole range since the last click
+    const anchor = lastSelectedIndexRef.current
+    const [start, end] = shiftKey && anchor !== null
+      ? [Math.min(anchor, index), Math.max(anchor, index)]
+      : [index, index]
+    for (let i = start; i <= end; i++) {
+      if (shouldSelect) {
+        next.add(files[i].ObjectName)
+      } else {
+        next.delete(files[i].ObjectName)
+      }
+    }
+
+    lastSelectedIndexRef.current = index
+    setSelectedNames(next)
+  }
+
+  const handleToggleSelectAll = () => {
+    setSelectedNames(selectedFiles.length === files.length ? new Set() : new Set(files.map(file => file.ObjectName)))
+    lastSelectedIndexRef.current = null
+  }
+
+  const handleBulkDelete = async () => {
+    const targets = selectedFiles
+    const folderCount = targets.filter(file => file.IsDirectory).length
+    setShowBulkDelete(false)
+
+    const report = await bulkRunner.run('Deleting', targets, file => file.IsDirectory
+      ? api.deleteFolder(`${getItemPath(file)}/`, file.ObjectName)
+      : api.deleteFile(getItemPath(file)))
+    // Folder reports count the files inside them, so name the selected items instead
+    const fileCount = targets.length - folderCount
+    const deletedItems = [
+      fileCount > 0 ? `${fileCount} ${fileCount === 1 ? 'file' : 'files'}` : '',
+      folderCount > 0 ? `${folderCount} ${folderCount === 1 ? 'folder' : 'folders'}` : '',
+    ].filter(Boolean).join(' and ')
+    reportOutcome(report, 'Some items could not be deleted', `${deletedItems} ${trashEnabled ? 'moved to the trash' : 'deleted'}`)
+    await loadFiles(currentPath)
+    if (targets.some(file => file.IsDirectory)) refreshFolderTree()
+  }
+
+  const handleBulkDownload = async () => {
+    const report = await bulkRunner.run('Starting downloads', selectedFiles, async (file) => {
+      if (file.IsDirectory) {
+        return skippedReport(getItemPath(file), 'Use Download ZIP to download folders')
+      }
+      startDownload(file)
+      // Browsers drop downloads that are started in the same tick
+      await new Promise(resolve => setTimeout(resolve, 300))
+    }, 1)
+    reportOutcome(report, 'Some downloads could not be started', `${report.succeeded} ${report.succeeded === 1 ? 'download' : 'downloads'} started`)
+  }
+
+  const handleBulkCopyUrls = async () => {
+    const baseUrl = connection.url.endsWith('/') ? connection.url.slice(0, -1) : connection.url
+    const urls = selectedFiles.filter(file => !file.IsDirectory).map(file => `${baseUrl}${getItemPath(file)}`)
+    try {
+      await navigator.clipboard.writeText(urls.join('\n'))
+      onSuccess(`${urls.length} ${urls.length === 1 ? 'URL' : 'URLs'} copied to clipboard`)
+    } catch (error) {
+      onError('Failed to copy URLs to clipboard')
+    }
+  }
+
+  const openCopyDialog = async (file: BunnyFile) => {
+    setCopyTarget(file)
+    setCopyConnectionId(connection.id || '')
+    setCopyDestination(currentPath)
+    const connections = await BunnyAPI.listSessionConnections()
+    setCopyConnections(connections.length > 0 ? connections : [connection])
+  }
+
+  const handleCopy = async () => {
+    if (!copyTarget) return
+    const destination = copyDestination === '/' ? '' : copyDestination.endsWith('/') ? copyDestination.slice(0, -1) : copyDestination
+    const file = copyTarget
+    const from = getItemPath(file)
+    const to = `${destination}/${file.ObjectName}`
+    const targetConnectionId = copyConnectionId
+
+    let conflict: ConflictPolicy
+    try {
+      const policies = await resolveConflicts(copyTargetApi, [{ path: to, size: file.IsDirectory ? undefined : file.Length }])
+      if (!policies) return
+      if (!policies[to]) {
+        setCopyTarget(null)
+        onSuccess(`${file.ObjectName} already exists there and was skipped`)
+        return
+      }
+      conflict = policies[to]
     } catch (error) {
-      onError('Failed to download file')
+      console.error('Copy error:', error)
+      onError(`Failed to copy ${file.ObjectName}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      return
     }
+
+    setCopyTarget(null)
+    serverJobs.addJob(file.ObjectName, file.Length, {
+      run: (signal, onProgress) => {
+        let copiedBytes = 0
+        return api.copy(from, to, {
+          isDirectory: file.IsDirectory,
+          targetConnectionId,
+          conflict,
+          signal,
+          onProgress: (event) => {
+            if (event.type === 'start') {
+              onProgress({ total: event.bytes })
+            } else if (event.type === 'item' && event.item.status === 'done') {
+              copiedBytes += event.item.bytes || 0
+              onProgress({ loaded: copiedBytes })
+            }
+          },
+        })
+      },
+      errorPrefix: `Failed to copy ${file.ObjectName}`,
+      failureHeading: `Copy of ${file.ObjectName} finished with errors`,
+      successMessage: (report) => report.skipped > 0
+        ? `${file.ObjectName} copied, ${report.skipped} existing ${report.skipped === 1 ? 'file' : 'files'} skipped`
+        : `${file.IsDirectory ? 'Folder' : 'File'} ${file.ObjectName} copied successfully`,
+      onFinished: async (report) => {
+        if (targetConnectionId === connection.id && report.succeeded > 0) {
+          // The user may have navigated while the copy ran
+          await loadFiles(currentPathRef.current)
+          if (file.IsDirectory) refreshFolderTree()
+        }
+      },
+    })
+  }
+
+  const handleVerifyIntegrity = (file: BunnyFile) => {
+    const path = getItemPath(file)
+
+    serverJobs.addJob(`Verify ${file.ObjectName}`, file.Length, {
+      run: (signal, onProgress) => {
+        let verifiedBytes = 0
+        return api.verifyIntegrity(file.IsDirectory ? `${path}/` : path, {
+          isDirectory: file.IsDirectory,
+          signal,
+          onProgress: (event) => {
+            if (event.type === 'start') {
+              onProgress({ total: event.bytes })
+            } else if (event.type === 'item' && event.item.status === 'done') {
+              verifiedBytes += event.item.bytes || 0
+              onProgress({ loaded: verifiedBytes })
+            }
+          },
+        })
+      },
+      errorPrefix: `Failed to verify ${file.ObjectName}`,
+      failureHeading: `Integrity check of ${file.ObjectName} found problems`,
+      successMessage: (report) => {
+        if (!file.IsDirectory) {
+          return report.skipped > 0 ? `${file.ObjectName} has no stored checksum to compare with` : `${file.ObjectName} matches its stored checksum`
+        }
+        return report.skipped > 0
+          ? `${report.succeeded} files match their checksums, ${report.skipped} have no stored checksum`
+          : `All ${report.succeeded} files match their checksums`
+      },
+      onFinished: async (report) => {
+        // Files without a checksum are not failures, but a folder check should still list them
+        if (file.IsDirectory && report.failed === 0 && report.skipped > 0) {
+          setOperationReport({ heading: `Files in ${file.ObjectName} without a stored checksum`, report })
+        }
+      },
+    })
+  }
+
+  const handleApplySync = (plan: SyncPlan, deleteRemoteOnly: boolean) => {
+    setShowSync(false)
+    const uploads = plan.entries.filter(entry => entry.status === 'new' || entry.status === 'changed')
+    const deletions = deleteRemoteOnly ? plan.entries.filter(entry => entry.status === 'remoteOnly') : []
+
+    // The comparison already decided what to replace, so uploads overwrite
+    if (uploads.length > 0) {
+      uploadQueue.addEntries(uploads.map(entry => ({ file: entry.local as File, relativePath: entry.relativePath })), plan.remotePath, () => 'overwrite')
+    }
+    if (deletions.length > 0) {
+      const deletionBytes = deletions.reduce((sum, entry) => sum + (entry.remote?.Length || 0), 0)
+      serverJobs.addJob(`Delete ${deletions.length} remote-only files`, deletionBytes, {
+        run: async (signal, onProgress) => {
+          let deletedBytes = 0
+          const report = await runBatch(deletions, async (entry) => {
+            if (signal.aborted) throw new Error('Cancelled')
+            await api.deleteFile(`${plan.remotePath}${entry.relativePath}`)
+            deletedBytes += entry.remote?.Length || 0
+            onProgress({ loaded: deletedBytes })
+          }, { label: entry => `${plan.remotePath}${entry.relativePath}` })
+          // The job is reported as cancelled from the thrown error
+          if (signal.aborted) throw new Error('Cancelled')
+          return report
+        },
+        errorPrefix: 'Failed to delete remote-only files',
+        failureHeading: 'Some remote-only files could not be deleted',
+        successMessage: (report) => `${report.succeeded} remote-only ${report.succeeded === 1 ? 'file' : 'files'} deleted`,
+        onFinished: async () => {
+          await loadFiles(currentPathRef.current)
+        },
+      })
+    }
+  }
+
+  const handleExtractArchive = () => {
+    if (!pendingArchive) return
+    const archive = pendingArchive
+    const folder = currentPath
+    const conflict = extractConflictPolicy
+
+    setPendingArchive(null)
+    serverJobs.addJob(archive.name, archive.size, {
+      run: (signal, onProgress) => {
+        let extractedBytes = 0
+        return api.extractArchive(archive, folder, {
+          conflict,
+          signal,
+          onUploadProgress: (progress) => onProgress({ loaded: progress.loaded, total: progress.total }),
+          onProgress: (event) => {
+            // Once the archive is on the server the bar switches to the extracted bytes
+            if (event.type === 'start') {
+              onProgress({ loaded: 0, total: event.bytes })
+            } else if (event.type === 'item' && event.item.status === 'done') {
+              extractedBytes += event.item.bytes || 0
+              onProgress({ loaded: extractedBytes })
+            }
+          },
+        })
+      },
+      errorPrefix: `Failed to extract ${archive.name}`,
+      failureHeading: `Extraction of ${archive.name} finished with errors`,
+      successMessage: (report) => report.skipped > 0
+        ? `${report.succeeded} files extracted from ${archive.name}, ${report.skipped} existing files skipped`
+        : `${report.succeeded} files extracted from ${archive.name}`,
+      onFinished: async (report) => {
+        if (report.succeeded > 0) {
+          await loadFiles(currentPathRef.current)
+          refreshFolderTree()
+        }
+      },
+    })
   }
 
+
   const handleOptimizeImage = (file: BunnyFile) => {
     setSelectedFile(file)
     setShowOptimizer(true)
@@ -209,10 +805,9 @@ export default function FileManager({ connection, onError, onSuccess, onDisconne
   const handleFileClick = (file: BunnyFile) => {
     // Ensure proper URL construction
     const baseUrl = connection.url.endsWith('/') ? connection.url.slice(0, -1) : connection.url
-    // Combine current path with filename
-    const currentPathClean = currentPath === '/' ? '' : currentPath.endsWith('/') ? currentPath.slice(0, -1) : currentPath
-    const filePath = `${currentPathClean}/${file.ObjectName}`
-    const fileUrl = `${baseUrl}${filePath}`
+    const filePath = getItemPath(file)
+    // Without a pull zone (e.g. local storage) fall back to the streaming download route
+    const fileUrl = baseUrl ? `${baseUrl}${filePath}` : api.getDownloadUrl(filePath, { inline: true })
     window.open(fileUrl, '_blank')
   }
 
@@ -220,9 +815,7 @@ export default function FileManager({ connection, onError, onSuccess, onDisconne
     try {
       // Construct the file URL
       const baseUrl = connection.url.endsWith('/') ? connection.url.slice(0, -1) : connection.url
-      const currentPathClean = currentPath === '/' ? '' : currentPath.endsWith('/') ? currentPath.slice(0, -1) : currentPath
-      const filePath = `${currentPathClean}/${file.ObjectName}`
-      const fileUrl = `${baseUrl}${filePath}`
+      const fileUrl = `${baseUrl}${getItemPath(file)}`
       
       await navigator.clipboard.writeText(fileUrl)
       onSuccess(`File URL copied to clipboard`)
@@ -280,7 +873,7 @@ export default function FileManager({ connection, onError, onSuccess, onDisconne
       
       // Refresh the file list and folder tree
       await loadFiles(currentPath)
-      await loadFolderTree()
+      refreshFolderTree()
     } catch (error) {
       console.error('Folder creation error:', error)
       onError(`Failed to create folder: ${error instanceof Error ? error.message : 'Unknown error'}`)
@@ -325,70 +918,6 @@ export default function FileManager({ connection, onError, onSuccess, onDisconne
     }
   }
 
-  const toggleFolderExpansion = async (folder: BunnyFile, parentPath: string = '/') => {
-    // Get the full path for this folder
-    let fullPath: string
-    if (parentPath === '/') {
-      // Root level folder - try to get from path map first
-      fullPath = folderPaths.get(`root:${folder.ObjectName}`) || 
-        folderPaths.get(folder.ObjectName) ||
-        (folder.ObjectName.startsWith('/') ? folder.ObjectName : `/${folder.ObjectName}/`)
-    } else {
-      // Subfolder - construct path from parent
-      fullPath = `${parentPath}${folder.ObjectName}/`
-    }
-    
-    const folderKey = fullPath
-    const isExpanded = expandedFolders.has(folderKey)
-    
-    if (isExpanded) {
-      // Collapse folder
-      setExpandedFolders(prev => {
-        const newSet = new Set(prev)
-        newSet.delete(folderKey)
-        return newSet
-      })
-    } else {
-      // Expand folder and load its contents
-      setExpandedFolders(prev => new Set(prev).add(folderKey))
-      
-      // Only load contents if we haven't loaded them before
-      if (!folderContents.has(folderKey)) {
-        try {
-          const contents = await api.listFiles(fullPath)
-          const subfolders = contents.filter(file => file.IsDirectory)
-          setFolderContents(prev => new Map(prev).set(folderKey, subfolders))
-          
-          // Store paths for subfolders - use the Path from API response to ensure accuracy
-          setFolderPaths(prev => {
-            const newMap = new Map(prev)
-            subfolders.forEach(subfolder => {
-              // Use the Path from the API response, which should be the parent folder path
-              const parentPathFromAPI = subfolder.Path === '/' || subfolder.Path === '' ? '/' : 
-                subfolder.Path.endsWith('/') ? subfolder.Path : `${subfolder.Path}/`
-              const subfolderPath = parentPathFromAPI === '/' ? `/${subfolder.ObjectName}/` : 
-                `${parentPathFromAPI}${subfolder.ObjectName}/`
-              newMap.set(subfolderPath, subfolderPath)
-            })
-            return newMap
-          })
-        } catch (error) {
-          console.error('Error loading folder contents:', error)
-          // Set empty array on error
-          setFolderContents(prev => new Map(prev).set(folderKey, []))
-        }
-      }
-    }
-  }
-
-  const formatFileSize = (bytes: number): string => {
-    if (bytes === 0) return '0 Bytes'
-    const k = 1024
-    const sizes = ['Bytes', 'KB', 'MB', 'GB']
-    const i = Math.floor(Math.log(bytes) / Math.log(k))
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i]
-  }
-
   const formatDate = (dateString: string): string => {
     return new Date(dateString).toLocaleDateString()
   }
@@ -416,77 +945,6 @@ export default function FileManager({ connection, onError, onSuccess, onDisconne
     }
   }
 
-  const renderFolderTree = (folders: BunnyFile[], level: number = 0, parentPath: string = '/') => {
-    return folders.map((folder) => {
-      // Get the full path for this folder
-      let fullPath: string
-      if (parentPath === '/') {
-        // Root level folder
-        fullPath = folderPaths.get(`root:${folder.ObjectName}`) || 
-          folderPaths.get(folder.ObjectName) ||
-          (folder.ObjectName.startsWith('/') ? folder.ObjectName : `/${folder.ObjectName}/`)
-      } else {
-        // Subfolder - use the Path from the folder object if available (from API response)
-        // Otherwise construct from parentPath
-        if (folder.Path && folder.Path !== '/' && folder.Path !== '') {
-          // Normalize: remove storage zone name if present
-          let normalizedPath = folder.Path.endsWith('/') ? folder.Path : `${folder.Path}/`
-          if (normalizedPath.startsWith(`/${connection.user}/`)) {
-            normalizedPath = normalizedPath.replace(`/${connection.user}/`, '/')
-          } else if (normalizedPath === `/${connection.user}/`) {
-            normalizedPath = '/'
-          }
-          fullPath = `${normalizedPath}${folder.ObjectName}/`
-        } else {
-          // Fallback: construct from parentPath
-          fullPath = `${parentPath}${folder.ObjectName}/`
-        }
-      }
-      
-      const folderKey = fullPath
-      const isExpanded = expandedFolders.has(folderKey)
-      const subfolders = folderContents.get(folderKey) || []
-      
-      return (
-        <div key={folder.Guid}>
-          <div className="flex items-center">
-            <button
-              onClick={() => toggleFolderExpansion(folder, parentPath)}
-              className="p-1 hover:bg-gray-100 rounded"
-            >
-              {isExpanded ? (
-                <ChevronDown className="w-3 h-3 text-gray-500" />
-              ) : (
-                <ChevronRight className="w-3 h-3 text-gray-500" />
-              )}
-            </button>
-            <button
-              onClick={() => handleFolderClick(folder, fullPath)}
-              className={`flex-1 flex items-center space-x-2 px-2 py-1 rounded text-left hover:bg-gray-100 ${
-                currentPath === fullPath || currentPath === fullPath.slice(0, -1) ? 'bg-blue-50 text-blue-700' : 'text-gray-700'
-              }`}
-              style={{ paddingLeft: `${level * 12}px` }}
-            >
-              <Folder className="w-4 h-4" />
-              <span className="truncate">{folder.ObjectName}</span>
-            </button>
-          </div>
-          {isExpanded && (
-            <div className="ml-4">
-              {subfolders.length > 0 ? (
-                renderFolderTree(subfolders, level + 1, fullPath)
-              ) : (
-                <div className="px-2 py-1 text-xs text-gray-400 italic">
-                  No folders within
-                </div>
-              )}
-            </div>
-          )}
-        </div>
-      )
-    })
-  }
-
   return (
     <div className="flex h-screen bg-gray-50">
       {/* Sidebar */}
@@ -498,27 +956,36 @@ export default function FileManager({ connection, onError, onSuccess, onDisconne
           <h3 className="font-semibold text-gray-900 text-center text-sm">Folders</h3>
         </div>
         <div className="flex-1 overflow-y-auto p-2">
-          <div className="space-y-1">
-            {/* Root Button */}
-            <button
-              onClick={() => loadFiles('/')}
-              className={`w-full flex items-center space-x-2 px-2 py-2 rounded text-left hover:bg-gray-100 transition-colors ${
-                currentPath === '/' ? 'bg-blue-50 text-blue-700 font-medium' : 'text-gray-700'
-              }`}
-            >
-              <Home className="w-4 h-4" />
-              <span>Root</span>
-            </button>
-            
-            {/* Folder Tree */}
-            {folderTree.length > 0 ? (
-              renderFolderTree(folderTree)
-            ) : (
-              <div className="px-2 py-2 text-sm text-gray-400 italic">
-                No folders at root level
-              </div>
-            )}
-          </div>
+          <FolderTree
+            api={api}
+            storageZone={connection.user}
+            selectedPath={sideView ? '' : currentPath}
+            onSelect={(path) => {
+              setSideView(null)
+              loadFiles(path)
+            }}
+            refreshKey={folderTreeVersion}
+          />
+        </div>
+        <div className="p-2 border-t border-gray-200">
+          <button
+            onClick={() => setSideView('activity')}
+            className={`w-full flex items-center space-x-2 px-2 py-2 rounded text-left hover:bg-gray-100 transition-colors ${
+              sideView === 'activity' ? 'bg-blue-50 text-blue-700 font-medium' : 'text-gray-700'
+            }`}
+          >
+            <Activity className="w-4 h-4" />
+            <span>Activity</span>
+          </button>
+          <button
+            onClick={() => setSideView('trash')}
+            className={`w-full flex items-center space-x-2 px-2 py-2 rounded text-left hover:bg-gray-100 transition-colors ${
+              sideView === 'trash' ? 'bg-blue-50 text-blue-700 font-medium' : 'text-gray-700'
+            }`}
+          >
+            <Trash2 className="w-4 h-4" />
+            <span>Trash</span>
+          </button>
         </div>
       </div>
 
@@ -529,7 +996,7 @@ export default function FileManager({ connection, onError, onSuccess, onDisconne
           <div className="flex items-center justify-between">
             <div className="flex items-center space-x-4">
               <h2 className="text-lg font-bold text-gray-900">
-                {(() => {
+                {sideView === 'trash' ? 'Trash' : sideView === 'activity' ? 'Activity' : (() => {
                   // Remove the storage zone root from the path for display
                   let displayPath = currentPath
                   // Strip storage zone name if present (e.g., /iba-consulting-prod/about/ -> /about/)
@@ -558,9 +1025,17 @@ export default function FileManager({ connection, onError, onSuccess, onDisconne
               >
                 <RefreshCw className="w-4 h-4" />
               </Button>
-              <span className="text-sm text-gray-500">
-                {connection.user}
-              </span>
+              <Button
+                appearance="subtle"
+                onClick={onOpenSplitView}
+              >
+                <span className="flex items-center" title="Split view: copy or move between zones"><Columns className="w-4 h-4" /></span>
+              </Button>
+              <ProfileSwitcher
+                connection={connection}
+                onSwitch={onSwitchConnection}
+                onError={onError}
+              />
               <button
                 onClick={onDisconnect}
                 title="Disconnect"
@@ -573,7 +1048,7 @@ export default function FileManager({ connection, onError, onSuccess, onDisconne
         </div>
 
         {/* Action Bar */}
-        <div className="bg-white border-b border-gray-200 p-4">
+        <div className={`bg-white border-b border-gray-200 p-4 ${sideView ? 'hidden' : ''}`}>
           <div className="flex items-center justify-between">
             <div className="flex items-center space-x-3">
               {currentPath !== '/' && (
@@ -606,6 +1081,33 @@ export default function FileManager({ connection, onError, onSuccess, onDisconne
                         >
                           Upload File
                         </button>
+                        <button
+                          onClick={() => {
+                            document.getElementById('folder-upload')?.click()
+                            setShowUploadDropdown(false)
+                          }}
+                          className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 focus:outline-none focus:bg-gray-100"
+                        >
+                          Upload Folder
+                        </button>
+                        <button
+                          onClick={() => {
+                            document.getElementById('archive-upload')?.click()
+                            setShowUploadDropdown(false)
+                          }}
+                          className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 focus:outline-none focus:bg-gray-100"
+                        >
+                          Upload &amp; Extract ZIP
+                        </button>
+                        <button
+                          onClick={() => {
+                            setShowSync(true)
+                            setShowUploadDropdown(false)
+                          }}
+                          className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 focus:outline-none focus:bg-gray-100"
+                        >
+                          Sync Local Folder…
+                        </button>
                         <button
                           onClick={handleOptimizeImageUpload}
                           className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 focus:outline-none focus:bg-gray-100"
@@ -623,6 +1125,31 @@ export default function FileManager({ connection, onError, onSuccess, onDisconne
               >
                 Add Folder
               </Button>
+              <div className="w-60" title="What to do when an uploaded, moved or copied item already exists">
+                <Select
+                  options={conflictModeOptions}
+                  value={conflictModeOptions.find(option => option.value === conflictMode)}
+                  onChange={(option) => option && setConflictMode(option.value as ConflictMode)}
+                />
+              </div>
+              {versioning && (
+                <div title="Copy a file's previous content into its history before an upload or optimization replaces it">
+                  <Checkbox
+                    label="Keep previous versions"
+                    checked={versioning.enabled}
+                    onChange={(e) => handleToggleVersioning(e.target.checked)}
+                  />
+                </div>
+              )}
+              {canPurgeCache && cdnSettings && (
+                <div title="Purge changed, moved and deleted paths of this zone from the CDN cache so visitors get the current content">
+                  <Checkbox
+                    label="Purge CDN cache after changes"
+                    checked={cdnSettings.purgeAfterChanges}
+                    onChange={(e) => handleTogglePurgeAfterChanges(e.target.checked)}
+                  />
+                </div>
+              )}
               <input
                 id="file-upload"
                 type="file"
@@ -635,13 +1162,42 @@ export default function FileManager({ connection, onError, onSuccess, onDisconne
                   }
                 }}
               />
-                  <input
-                    id="image-upload"
-                    type="file"
-                    accept="image/*"
-                    className="hidden"
-                    onChange={handleImageUploadForOptimization}
-                  />
+              <input
+                id="folder-upload"
+                type="file"
+                multiple
+                className="hidden"
+                // Not in React's typings; lets the user pick a directory and sets webkitRelativePath
+                {...({ webkitdirectory: '' } as React.InputHTMLAttributes<HTMLInputElement>)}
+                onChange={(e) => {
+                  if (e.target.files) {
+                    onDrop(Array.from(e.target.files))
+                  }
+                  e.target.value = ''
+                }}
+              />
+              <input
+                id="archive-upload"
+                type="file"
+                accept=".zip,application/zip"
+                className="hidden"
+                onChange={(e) => {
+                  if (e.target.files && e.target.files.length > 0) {
+                    setPendingArchive(e.target.files[0])
+                    // Archive contents are only known on the server, so "ask" falls back to skipping
+                    setExtractConflictPolicy(conflictMode === 'ask' ? 'skip' : conflictMode)
+                  }
+                  // Allow picking the same archive again later
+                  e.target.value = ''
+                }}
+              />
+              <input
+                id="image-upload"
+                type="file"
+                accept="image/*"
+                className="hidden"
+                onChange={handleImageUploadForOptimization}
+              />
               {/* Additional buttons will go here */}
             </div>
             <div className="flex items-center space-x-2">
@@ -652,11 +1208,86 @@ export default function FileManager({ connection, onError, onSuccess, onDisconne
           </div>
         </div>
 
+        {/* Trash */}
+        {sideView === 'trash' && (
+          <div className="flex-1 p-4 overflow-hidden">
+            <TrashView
+              api={api}
+              onRestored={() => {
+                loadFiles(currentPath)
+                refreshFolderTree()
+              }}
+              onReport={(heading, report) => setOperationReport({ heading, report })}
+              onSettingsChange={(settings) => setTrashEnabled(settings.enabled)}
+              onError={onError}
+              onSuccess={onSuccess}
+            />
+          </div>
+        )}
+
+        {/* Activity */}
+        {sideView === 'activity' && (
+          <div className="flex-1 p-4 overflow-hidden">
+            <ActivityView api={api} />
+          </div>
+        )}
+
         {/* File List */}
-        <div className="flex-1 p-4 overflow-hidden">
+        <div className={`flex-1 p-4 overflow-hidden ${sideView ? 'hidden' : ''}`}>
           <Card className="h-full">
             <div className="p-6 h-full flex flex-col">
               <h3 className="text-lg font-semibold mb-4">Files</h3>
+
+              {/* Bulk Action Bar */}
+              {selectedFiles.length > 0 && (
+                <div className="mb-4 flex flex-wrap items-center gap-2 px-3 py-2 bg-blue-50 rounded-md">
+                  <span className="text-sm font-medium text-blue-900 mr-2">
+                    {selectedFiles.length} selected · {formatFileSize(selectedSize)}{selectedFiles.some(file => file.IsDirectory) && ' plus folder contents'}
+                  </span>
+                  {bulkRunner.progress ? (
+                    <span className="flex items-center space-x-2 text-sm text-blue-800">
+                      <Spinner size="small" />
+                      <span>{bulkRunner.progress.label} {bulkRunner.progress.completed}/{bulkRunner.progress.total}</span>
+                    </span>
+                  ) : (
+                    <>
+                      <Button appearance="subtle" onClick={handleBulkDownload}>
+                        <span className="flex items-center"><Download className="w-4 h-4 mr-1" /> Download</span>
+                      </Button>
+                      <Button
+                        appearance="subtle"
+                        onClick={() => setZipDownload({
+                          heading: `Download ${selectedFiles.length} ${selectedFiles.length === 1 ? 'item' : 'items'} as ZIP`,
+                          paths: selectedFiles.map(file => file.IsDirectory ? `${getItemPath(file)}/` : getItemPath(file)),
+                        })}
+                      >
+                        <span className="flex items-center"><FileArchive className="w-4 h-4 mr-1" /> Download ZIP</span>
+                      </Button>
+                      <Button appearance="subtle" onClick={() => { setMoveTargets(selectedFiles); setMoveDestination(currentPath) }}>
+                        <span className="flex items-center"><FolderInput className="w-4 h-4 mr-1" /> Move</span>
+                      </Button>
+                      <Button appearance="subtle" onClick={handleBulkCopyUrls}>
+                        <span className="flex items-center"><Link className="w-4 h-4 mr-1" /> Copy URLs</span>
+                      </Button>
+                      {selectedFiles.some(file => !file.IsDirectory && isImageFile(file.ObjectName)) && (
+                        <Button appearance="subtle" onClick={() => setShowBulkOptimize(true)}>
+                          <span className="flex items-center"><ImageIcon className="w-4 h-4 mr-1" /> Optimize</span>
+                        </Button>
+                      )}
+                      <Button appearance="subtle" onClick={() => setShowBulkDelete(true)}>
+                        <span className="flex items-center text-red-600"><Trash2 className="w-4 h-4 mr-1" /> Delete</span>
+                      </Button>
+                      <button
+                        onClick={() => setSelectedNames(new Set())}
+                        title="Clear selection"
+                        className="ml-auto p-1 rounded hover:bg-blue-100"
+                      >
+                        <X className="w-4 h-4 text-blue-900" />
+                      </button>
+                    </>
+                  )}
+                </div>
+              )}
               
               {isLoading ? (
                 <div className="flex justify-center items-center flex-1">
@@ -690,6 +1321,18 @@ export default function FileManager({ connection, onError, onSuccess, onDisconne
                     <table className="w-full">
                       <thead>
                         <tr className="border-b border-gray-200">
+                          <th className="w-10 py-3 pl-4">
+                            <input
+                              type="checkbox"
+                              aria-label="Select all"
+                              checked={files.length > 0 && selectedFiles.length === files.length}
+                              ref={(input) => {
+                                if (input) input.indeterminate = selectedFiles.length > 0 && selectedFiles.length < files.length
+                              }}
+                              onChange={handleToggleSelectAll}
+                              className="w-4 h-4 text-atlassian-blue border-gray-300 rounded focus:ring-atlassian-blue"
+                            />
+                          </th>
                           <th className="text-left py-3 px-4 font-medium text-gray-500 text-sm">Name</th>
                           <th className="text-left py-3 px-4 font-medium text-gray-500 text-sm">Date</th>
                           <th className="text-left py-3 px-4 font-medium text-gray-500 text-sm">Size</th>
@@ -698,12 +1341,22 @@ export default function FileManager({ connection, onError, onSuccess, onDisconne
                         </tr>
                       </thead>
                       <tbody>
-                        {files.map((file) => (
+                        {files.map((file, index) => (
                           <tr
                             key={file.Guid}
-                            className="hover:bg-gray-50 cursor-pointer group"
+                            className={`hover:bg-gray-50 cursor-pointer group ${selectedNames.has(file.ObjectName) ? 'bg-blue-50' : ''}`}
                             onClick={() => file.IsDirectory ? handleFolderClick(file) : handleFileClick(file)}
                           >
+                            <td className="py-3 pl-4" onClick={(e) => e.stopPropagation()}>
+                              <input
+                                type="checkbox"
+                                aria-label={`Select ${file.ObjectName}`}
+                                checked={selectedNames.has(file.ObjectName)}
+                                onChange={() => undefined}
+                                onClick={(e) => handleToggleSelection(index, e.shiftKey)}
+                                className="w-4 h-4 text-atlassian-blue border-gray-300 rounded focus:ring-atlassian-blue"
+                              />
+                            </td>
                             <td className="py-3 px-4">
                               <div className="flex items-center space-x-3">
                                 {getFileIcon(file)}
@@ -737,11 +1390,38 @@ export default function FileManager({ connection, onError, onSuccess, onDisconne
                                     <DropdownItem onClick={(e: React.MouseEvent) => { e.stopPropagation(); handleDownloadFile(file); }}>
                                       <Download className="w-4 h-4 mr-2" /> Download
                                     </DropdownItem>
+                                    {!file.IsDirectory && getMediaKind(file.ObjectName) && (
+                                      <DropdownItem onClick={(e: React.MouseEvent) => { e.stopPropagation(); handlePreviewFile(file); }}>
+                                        <Eye className="w-4 h-4 mr-2" /> Preview
+                                      </DropdownItem>
+                                    )}
                                     {isImageFile(file.ObjectName) && !file.IsDirectory && (
                                       <DropdownItem onClick={(e: React.MouseEvent) => { e.stopPropagation(); handleOptimizeImage(file); }}>
                                         <ImageIcon className="w-4 h-4 mr-2" /> Optimize Image
                                       </DropdownItem>
                                     )}
+                                    <DropdownItem onClick={(e: React.MouseEvent) => { e.stopPropagation(); setRenameTarget(file); setRenameValue(file.ObjectName); }}>
+                                      <Pencil className="w-4 h-4 mr-2" /> Rename
+                                    </DropdownItem>
+                                    <DropdownItem onClick={(e: React.MouseEvent) => { e.stopPropagation(); setMoveTargets([file]); setMoveDestination(currentPath); }}>
+                                      <FolderInput className="w-4 h-4 mr-2" /> Move to…
+                                    </DropdownItem>
+                                    <DropdownItem onClick={(e: React.MouseEvent) => { e.stopPropagation(); openCopyDialog(file); }}>
+                                      <CopyPlus className="w-4 h-4 mr-2" /> Copy to…
+                                    </DropdownItem>
+                                    {!file.IsDirectory && (
+                                      <DropdownItem onClick={(e: React.MouseEvent) => { e.stopPropagation(); setHistoryTarget(file); }}>
+                                        <History className="w-4 h-4 mr-2" /> History
+                                      </DropdownItem>
+                                    )}
+                                    <DropdownItem onClick={(e: React.MouseEvent) => { e.stopPropagation(); handleVerifyIntegrity(file); }}>
+                                      <ShieldCheck className="w-4 h-4 mr-2" /> Verify integrity
+                                    </DropdownItem>
+                                    {canPurgeCache && (
+                                      <DropdownItem onClick={(e: React.MouseEvent) => { e.stopPropagation(); handlePurgeItem(file); }}>
+                                        <Zap className="w-4 h-4 mr-2" /> Purge cache
+                                      </DropdownItem>
+                                    )}
                                     <DropdownItem onClick={(e: React.MouseEvent) => { e.stopPropagation(); handleDeleteFile(file); }}>
                                       <Trash2 className="w-4 h-4 mr-2" /> Delete
                                     </DropdownItem>
@@ -789,7 +1469,296 @@ export default function FileManager({ connection, onError, onSuccess, onDisconne
               </ModalDialog>
             )}
 
+        {/* Media Preview Modal */}
+        {previewFile && (
+          <MediaPreview
+            name={previewFile.name}
+            src={api.getDownloadUrl(previewFile.path, { inline: true })}
+            onClose={() => setPreviewFile(null)}
+          />
+        )}
+
+        {/* Upload and Copy Progress */}
+        <TransferPanel
+          title="Transfers"
+          items={[...transfers, ...serverJobs.jobs]}
+          paused={uploadsPaused}
+          concurrency={uploadQueue.getConcurrency()}
+          onTogglePause={() => {
+            if (uploadQueue.isPaused()) {
+              uploadQueue.resume()
+            } else {
+              uploadQueue.pause()
+            }
+            setUploadsPaused(uploadQueue.isPaused())
+          }}
+          onConcurrencyChange={(value) => uploadQueue.setConcurrency(value)}
+          onCancel={(id) => serverJobs.hasJob(id) ? serverJobs.cancelJob(id) : uploadQueue.cancel(id)}
+          onRetry={(id) => serverJobs.hasJob(id) ? serverJobs.retryJob(id) : uploadQueue.retry(id)}
+          onClearFinished={() => {
+            uploadQueue.clearFinished()
+            serverJobs.clearFinishedJobs()
+          }}
+        />
+
+        {/* Copy Modal */}
+        {copyTarget && (
+          <ModalDialog
+            heading={`Copy ${copyTarget.ObjectName}`}
+            onClose={() => setCopyTarget(null)}
+            width="medium"
+          >
+            <div className="p-6">
+              {copyConnections.length > 1 && (
+                <div className="space-y-2 mb-4">
+                  <label className="block text-sm font-medium text-gray-700">Storage zone</label>
+                  <Select
+                    options={copyConnectionOptions}
+                    value={copyConnectionOptions.find(option => option.value === copyConnectionId)}
+                    onChange={(option) => {
+                      if (!option) return
+                      setCopyConnectionId(option.value)
+                      setCopyDestination('/')
+                    }}
+                  />
+                </div>
+              )}
+              <p className="text-sm text-gray-600 mb-2">Choose a destination folder</p>
+              <div className="max-h-80 overflow-y-auto border border-gray-200 rounded-md p-2">
+                <FolderTree
+                  key={copyConnectionId}
+                  api={copyTargetApi}
+                  storageZone={copyTargetConnection?.user || connection.user}
+                  selectedPath={copyDestination}
+                  onSelect={setCopyDestination}
+                />
+              </div>
+              <p className="mt-2 text-xs text-gray-500">
+                Files are copied on the server, so nothing is downloaded to this browser. Other zones appear here once you have connected to them in this session.
+              </p>
+              <div className="mt-4 space-y-2">
+                <label className="block text-sm font-medium text-gray-700">When an item already exists</label>
+                <Select
+                  options={conflictModeOptions}
+                  value={conflictModeOptions.find(option => option.value === conflictMode)}
+                  onChange={(option) => option && setConflictMode(option.value as ConflictMode)}
+                />
+              </div>
+              <div className="mt-6 flex justify-end space-x-3">
+                <Button appearance="subtle" onClick={() => setCopyTarget(null)}>
+                  Cancel
+                </Button>
+                <Button appearance="primary" onClick={handleCopy}>
+                  Copy Here
+                </Button>
+              </div>
+            </div>
+          </ModalDialog>
+        )}
+
+        {/* Rename Modal */}
+        {renameTarget && (
+          <ModalDialog
+            heading={`Rename ${renameTarget.ObjectName}`}
+            onClose={() => setRenameTarget(null)}
+            width="medium"
+          >
+            <div className="p-6">
+              <FieldText
+                label="New Name"
+                placeholder="Enter a new name"
+                value={renameValue}
+                onChange={(e) => setRenameValue(e.target.value)}
+                required
+              />
+              <div className="mt-6 flex justify-end space-x-3">
+                <Button appearance="subtle" onClick={() => setRenameTarget(null)}>
+                  Cancel
+                </Button>
+                <Button appearance="primary" onClick={handleRename} loading={isMoving} disabled={isMoving}>
+                  Rename
+                </Button>
+              </div>
+            </div>
+          </ModalDialog>
+        )}
+
+        {/* Move Modal */}
+        {moveTargets && (
+          <ModalDialog
+            heading={moveTargets.length === 1 ? `Move ${moveTargets[0].ObjectName}` : `Move ${moveTargets.length} items`}
+            onClose={() => setMoveTargets(null)}
+            width="medium"
+          >
+            <div className="p-6">
+              <p className="text-sm text-gray-600 mb-2">Choose a destination folder</p>
+              <div className="max-h-80 overflow-y-auto border border-gray-200 rounded-md p-2">
+                <FolderTree
+                  api={api}
+                  storageZone={connection.user}
+                  selectedPath={moveDestination}
+                  onSelect={setMoveDestination}
+                  // A folder cannot be moved into itself or one of its descendants
+                  isDisabled={(path) => moveTargets.some(file => file.IsDirectory && path.startsWith(`${getItemPath(file)}/`))}
+                />
+              </div>
+              <div className="mt-4 space-y-2">
+                <label className="block text-sm font-medium text-gray-700">When an item already exists</label>
+                <Select
+                  options={conflictModeOptions}
+                  value={conflictModeOptions.find(option => option.value === conflictMode)}
+                  onChange={(option) => option && setConflictMode(option.value as ConflictMode)}
+                />
+              </div>
+              <div className="mt-6 flex justify-end space-x-3">
+                <Button appearance="subtle" onClick={() => setMoveTargets(null)}>
+                  Cancel
+                </Button>
+                <Button appearance="primary" onClick={handleMove} loading={isMoving} disabled={isMoving}>
+                  Move Here
+                </Button>
+              </div>
+            </div>
+          </ModalDialog>
+        )}
+
+        {/* Version History Modal */}
+        {historyTarget && (
+          <VersionHistoryDialog
+            api={api}
+            file={historyTarget}
+            path={getItemPath(historyTarget)}
+            onClose={() => setHistoryTarget(null)}
+            onRestored={() => {
+              setHistoryTarget(null)
+              loadFiles(currentPath)
+            }}
+            onError={onError}
+            onSuccess={onSuccess}
+          />
+        )}
+
+        {/* Delete Folder Modal */}
+        {deleteFolderTarget && (
+          <DeleteFolderDialog
+            api={api}
+            folderPath={getItemPath(deleteFolderTarget)}
+            folderName={deleteFolderTarget.ObjectName}
+            toTrash={trashEnabled}
+            onClose={() => setDeleteFolderTarget(null)}
+            onDeleted={(report) => {
+              setDeleteFolderTarget(null)
+              if (report.failed > 0) {
+                setOperationReport({ heading: `Could not delete everything in ${deleteFolderTarget.ObjectName}`, report })
+              } else {
+                onSuccess(`Folder ${deleteFolderTarget.ObjectName} and ${report.succeeded} ${report.succeeded === 1 ? 'file' : 'files'} ${trashEnabled ? 'moved to the trash' : 'deleted'}`)
+              }
+              loadFiles(currentPath)
+              refreshFolderTree()
+            }}
+            onError={onError}
+          />
+        )}
+
+        {/* Bulk Delete Modal */}
+        {showBulkDelete && (
+          <BulkDeleteDialog
+            api={api}
+            targets={selectedFiles.map(file => ({ file, path: getItemPath(file) }))}
+            toTrash={trashEnabled}
+            onClose={() => setShowBulkDelete(false)}
+            onConfirm={handleBulkDelete}
+          />
+        )}
+
+        {/* Bulk Optimize Modal */}
+        {showBulkOptimize && (
+          <BulkOptimizeDialog
+            images={selectedFiles.filter(file => !file.IsDirectory && isImageFile(file.ObjectName))}
+            conflict={bulkOptimizeConflict}
+            onClose={() => setShowBulkOptimize(false)}
+            onOptimize={async (images, options) => {
+              setShowBulkOptimize(false)
+              const report = await bulkRunner.run('Optimizing', images, async (file) => {
+                const blob = await api.downloadFile(getItemPath(file))
+                const optimized = await api.optimizeImage(new File([blob], file.ObjectName, { type: blob.type }), options)
+                const result = await api.uploadFile(optimized, currentPath, { operation: 'optimize', conflict: bulkOptimizeConflict })
+                return createReport([{ path: getItemPath(file), target: result.path, status: result.skipped ? 'skipped' : 'done' }])
+              }, 2)
+              reportOutcome(report, 'Some images could not be optimized', `${report.succeeded} ${report.succeeded === 1 ? 'image' : 'images'} optimized`)
+              await loadFiles(currentPath)
+            }}
+          />
+        )}
+
+        {/* ZIP Download Modal */}
+        {zipDownload && (
+          <ZipDownloadDialog
+            api={api}
+            paths={zipDownload.paths}
+            heading={zipDownload.heading}
+            onClose={() => setZipDownload(null)}
+            onStarted={() => {
+              setZipDownload(null)
+              onSuccess('ZIP download started')
+            }}
+          />
+        )}
+
+        {/* Extract Archive Modal */}
+        {pendingArchive && (
+          <ModalDialog
+            heading={`Extract ${pendingArchive.name}`}
+            onClose={() => setPendingArchive(null)}
+            width="medium"
+          >
+            <div className="p-6">
+              <p className="text-sm text-gray-600 mb-4">
+                The archive ({formatFileSize(pendingArchive.size)}) is uploaded and unpacked on the server into <strong>{currentPath}</strong>, keeping its folder structure.
+              </p>
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700">When a file already exists</label>
+                <Select
+                  options={conflictPolicyOptions}
+                  value={conflictPolicyOptions.find(option => option.value === extractConflictPolicy)}
+                  onChange={(option) => option && setExtractConflictPolicy(option.value as ConflictPolicy)}
+                />
+              </div>
+              <div className="mt-6 flex justify-end space-x-3">
+                <Button appearance="subtle" onClick={() => setPendingArchive(null)}>
+                  Cancel
+                </Button>
+                <Button appearance="primary" onClick={handleExtractArchive}>
+                  Upload &amp; Extract
+                </Button>
+              </div>
+            </div>
+          </ModalDialog>
+        )}
+
+        {/* Sync Modal */}
+        {showSync && (
+          <SyncDialog
+            api={api}
+            storageZone={connection.user}
+            initialRemotePath={currentPath}
+            onClose={() => setShowSync(false)}
+            onApply={handleApplySync}
+            onError={onError}
+          />
+        )}
+
+        {/* Operation Report */}
+        {operationReport && (
+          <OperationReportDialog
+            heading={operationReport.heading}
+            report={operationReport.report}
+            onClose={() => setOperationReport(null)}
+          />
+        )}
+
         {/* Add Folder Modal */}
+
         {showAddFolderModal && (
           <ModalDialog
             heading="Create New Folder"
@@ -827,6 +1796,15 @@ export default function FileManager({ connection, onError, onSuccess, onDisconne
             </div>
           </ModalDialog>
         )}
+
+        {/* Conflict Dialog; last so it opens above the rename, move and copy dialogs */}
+        {conflictPrompt && (
+          <ConflictDialog
+            conflicts={conflictPrompt.conflicts}
+            onResolve={conflictPrompt.resolve}
+            onCancel={() => conflictPrompt.resolve(null)}
+          />
+        )}
       </div>
     </div>
   )
@@ -0,0 +1,210 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Folder, ChevronRight, ChevronDown, Home } from 'lucide-react'
+import { BunnyFile } from '../types/bunny'
+import { BunnyAPI } from '../lib/bunny-api'
+
+interface FolderTreeProps {
+  api: BunnyAPI
+  storageZone: string // Storage zone name; listings prefix paths with it
+  selectedPath: string
+  onSelect: (path: string) => void
+  refreshKey?: number // Change to reload the tree (e.g. after creating or moving folders)
+  isDisabled?: (path: string) => boolean
+}
+
+export default function FolderTree({ api, storageZone, selectedPath, onSelect, refreshKey = 0, isDisabled }: FolderTreeProps) {
+  const [folderTree, setFolderTree] = useState<BunnyFile[]>([])
+  const [expandedFolders, setExpandedFolders] = useState<Set<string>>(new Set())
+  const [folderContents, setFolderContents] = useState<Map<string, BunnyFile[]>>(new Map())
+  const [folderPaths, setFolderPaths] = useState<Map<string, string>>(new Map())
+
+  useEffect(() => {
+    const loadFolderTree = async () => {
+      try {
+        const rootFiles = await api.listFiles('/')
+        // When listing from root ('/'), all folders returned are root-level folders
+        // A folder is at root if its ObjectName doesn't contain '/' (not nested)
+        const rootFolders = rootFiles.filter(file => {
+          if (!file.IsDirectory) return false
+          // If ObjectName contains '/', it's a nested folder (e.g., "footer/gj-logos")
+          // If ObjectName doesn't contain '/', it's a root-level folder (e.g., "footer")
+          return !file.ObjectName.includes('/')
+        })
+        setFolderTree(rootFolders)
+        // Reset expanded folders and contents when reloading
+        setExpandedFolders(new Set())
+        setFolderContents(new Map())
+        // Store paths for root folders using full path as key
+        const pathMap = new Map<string, string>()
+        rootFolders.forEach(folder => {
+          const fullPath = folder.ObjectName.startsWith('/') ? folder.ObjectName : `/${folder.ObjectName}/`
+          // Use full path as key to avoid collisions
+          pathMap.set(fullPath, fullPath)
+          // Also store by ObjectName for quick lookup during initial render
+          pathMap.set(`root:${folder.ObjectName}`, fullPath)
+        })
+        setFolderPaths(pathMap)
+      } catch (error) {
+        console.error('Error loading folder tree:', error)
+      }
+    }
+
+    loadFolderTree()
+  }, [api, refreshKey])
+
+  const toggleFolderExpansion = async (folder: BunnyFile, parentPath: string = '/') => {
+    // Get the full path for this folder
+    let fullPath: string
+    if (parentPath === '/') {
+      // Root level folder - try to get from path map first
+      fullPath = folderPaths.get(`root:${folder.ObjectName}`) || 
+        folderPaths.get(folder.ObjectName) ||
+        (folder.ObjectName.startsWith('/') ? folder.ObjectName : `/${folder.ObjectName}/`)
+    } else {
+      // Subfolder - construct path from parent
+      fullPath = `${parentPath}${folder.ObjectName}/`
+    }
+    
+    const folderKey = fullPath
+    const isExpanded = expandedFolders.has(folderKey)
+    
+    if (isExpanded) {
+      // Collapse folder
+      setExpandedFolders(prev => {
+        const newSet = new Set(prev)
+        newSet.delete(folderKey)
+        return newSet
+      })
+    } else {
+      // Expand folder and load its contents
+      setExpandedFolders(prev => new Set(prev).add(folderKey))
+      
+      // Only load contents if we haven't loaded them before
+      if (!folderContents.has(folderKey)) {
+        try {
+          const contents = await api.listFiles(fullPath)
+          const subfolders = contents.filter(file => file.IsDirectory)
+          setFolderContents(prev => new Map(prev).set(folderKey, subfolders))
+          
+          // Store paths for subfolders - use the Path from API response to ensure accuracy
+          setFolderPaths(prev => {
+            const newMap = new Map(prev)
+            subfolders.forEach(subfolder => {
+              // Use the Path from the API response, which should be the parent folder path
+              const parentPathFromAPI = subfolder.Path === '/' || subfolder.Path === '' ? '/' : 
+                subfolder.Path.endsWith('/') ? subfolder.Path : `${subfolder.Path}/`
+              const subfolderPath = parentPathFromAPI === '/' ? `/${subfolder.ObjectName}/` : 
+                `${parentPathFromAPI}${subfolder.ObjectName}/`
+              newMap.set(subfolderPath, subfolderPath)
+            })
+            return newMap
+          })
+        } catch (error) {
+          console.error('Error loading folder contents:', error)
+          // Set empty array on error
+          setFolderContents(prev => new Map(prev).set(folderKey, []))
+        }
+      }
+    }
+  }
+
+  const renderFolderTree = (folders: BunnyFile[], level: number = 0, parentPath: string = '/') => {
+    return folders.map((folder) => {
+      // Get the full path for this folder
+      let fullPath: string
+      if (parentPath === '/') {
+        // Root level folder
+        fullPath = folderPaths.get(`root:${folder.ObjectName}`) || 
+          folderPaths.get(folder.ObjectName) ||
+          (folder.ObjectName.startsWith('/') ? folder.ObjectName : `/${folder.ObjectName}/`)
+      } else {
+        // Subfolder - use the Path from the folder object if available (from API response)
+        // Otherwise construct from parentPath
+        if (folder.Path && folder.Path !== '/' && folder.Path !== '') {
+          // Normalize: remove storage zone name if present
+          let normalizedPath = folder.Path.endsWith('/') ? folder.Path : `${folder.Path}/`
+          if (normalizedPath.startsWith(`/${storageZone}/`)) {
+            normalizedPath = normalizedPath.replace(`/${storageZone}/`, '/')
+          } else if (normalizedPath === `/${storageZone}/`) {
+            normalizedPath = '/'
+          }
+          fullPath = `${normalizedPath}${folder.ObjectName}/`
+        } else {
+          // Fallback: construct from parentPath
+          fullPath = `${parentPath}${folder.ObjectName}/`
+        }
+      }
+      
+      const folderKey = fullPath
+      const isExpanded = expandedFolders.has(folderKey)
+      const subfolders = folderContents.get(folderKey) || []
+      const disabled = isDisabled?.(fullPath) ?? false
+      
+      return (
+        <div key={folder.Guid}>
+          <div className="flex items-center">
+            <button
+              onClick={() => toggleFolderExpansion(folder, parentPath)}
+              className="p-1 hover:bg-gray-100 rounded"
+            >
+              {isExpanded ? (
+                <ChevronDown className="w-3 h-3 text-gray-500" />
+              ) : (
+                <ChevronRight className="w-3 h-3 text-gray-500" />
+              )}
+            </button>
+            <button
+              onClick={() => onSelect(fullPath)}
+              disabled={disabled}
+              className={`flex-1 flex items-center space-x-2 px-2 py-1 rounded text-left hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed ${
+                selectedPath === fullPath || selectedPath === fullPath.slice(0, -1) ? 'bg-blue-50 text-blue-700' : 'text-gray-700'
+              }`}
+              style={{ paddingLeft: `${level * 12}px` }}
+            >
+              <Folder className="w-4 h-4" />
+              <span className="truncate">{folder.ObjectName}</span>
+            </button>
+          </div>
+          {isExpanded && (
+            <div className="ml-4">
+              {subfolders.length > 0 ? (
+                renderFolderTree(subfolders, level + 1, fullPath)
+              ) : (
+                <div className="px-2 py-1 text-xs text-gray-400 italic">
+                  No folders within
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )
+    })
+  }
+
+  return (
+    <div className="space-y-1">
+      {/* Root Button */}
+      <button
+        onClick={() => onSelect('/')}
+        disabled={isDisabled?.('/') ?? false}
+        className={`w-full flex items-center space-x-2 px-2 py-2 rounded text-left hover:bg-gray-100 transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+          selectedPath === '/' ? 'bg-blue-50 text-blue-700 font-medium' : 'text-gray-700'
+        }`}
+      >
+        <Home className="w-4 h-4" />
+        <span>Root</span>
+      </button>
+      
+      {/* Folder Tree */}
+      {folderTree.length > 0 ? (
+        renderFolderTree(folderTree)
+      ) : (
+        <div className="px-2 py-2 text-sm text-gray-400 italic">
+          No folders at root level
+        </div>
+      )}
+    </div>
+  )
+}
@@ -115,7 +115,7 @@ export default function ImageOptimizer({
       const finalFileName = `${newFileName}.${extension}`
       
       // Upload the optimized file back to Bunny CDN
-      await api.uploadFile(optimizedFile, file.Path)
+      await api.uploadFile(optimizedFile, file.Path, { operation: 'optimize' })
 
       onSuccess(`Image optimized and saved as ${finalFileName}!`)
     } catch (error) {
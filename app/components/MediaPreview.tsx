@@ -0,0 +1,50 @@
+'use client'
+
+import Image from 'next/image'
+import { ModalDialog } from './ui'
+
+const VIDEO_EXTENSIONS = ['mp4', 'webm', 'mov', 'm4v', 'ogv']
+const AUDIO_EXTENSIONS = ['mp3', 'wav', 'ogg', 'oga', 'm4a', 'aac', 'flac']
+const IMAGE_EXTENSIONS = ['jpg', 'jpeg', 'png', 'gif', 'webp', 'avif', 'svg', 'bmp']
+
+type MediaKind = 'video' | 'audio' | 'image' | 'pdf'
+
+export function getMediaKind(filename: string): MediaKind | null {
+  const extension = filename.split('.').pop()?.toLowerCase() || ''
+  if (VIDEO_EXTENSIONS.includes(extension)) return 'video'
+  if (AUDIO_EXTENSIONS.includes(extension)) return 'audio'
+  if (IMAGE_EXTENSIONS.includes(extension)) return 'image'
+  if (extension === 'pdf') return 'pdf'
+  return null
+}
+
+interface MediaPreviewProps {
+  name: string
+  src: string
+  onClose: () => void
+}
+
+export default function MediaPreview({ name, src, onClose }: MediaPreviewProps) {
+  const kind = getMediaKind(name)
+
+  return (
+    <ModalDialog heading={name} onClose={onClose} width="xl">
+      <div className="flex justify-center items-center bg-gray-900 rounded-md min-h-[40vh]">
+        {kind === 'video' && (
+          // Seeking works because the download route answers Range requests
+          <video src={src} controls autoPlay className="max-w-full max-h-[70vh]" />
+        )}
+        {kind === 'audio' && (
+          <audio src={src} controls autoPlay className="w-full m-8" />
+        )}
+        {kind === 'image' && (
+          // Streamed from the download route, so there is nothing for the image optimizer to do; the size comes from the file
+          <Image src={src} alt={name} width={0} height={0} sizes="100vw" unoptimized className="w-auto h-auto max-w-full max-h-[70vh] object-contain" />
+        )}
+        {kind === 'pdf' && (
+          <iframe src={src} title={name} className="w-full h-[70vh] bg-white" />
+        )}
+      </div>
+    </ModalDialog>
+  )
+}
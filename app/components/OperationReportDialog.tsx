@@ -0,0 +1,53 @@
+'use client'
+
+import { CheckCircle, XCircle, MinusCircle } from 'lucide-react'
+import { Button, ModalDialog } from './ui'
+import { OperationItemStatus, OperationReport } from '../types/bunny'
+
+interface OperationReportDialogProps {
+  heading: string
+  report: OperationReport
+  onClose: () => void
+}
+
+const statusIcons: Record<OperationItemStatus, JSX.Element> = {
+  done: <CheckCircle className="w-4 h-4 text-green-500 flex-shrink-0" />,
+  skipped: <MinusCircle className="w-4 h-4 text-gray-400 flex-shrink-0" />,
+  failed: <XCircle className="w-4 h-4 text-red-500 flex-shrink-0" />,
+}
+
+export default function OperationReportDialog({ heading, report, onClose }: OperationReportDialogProps) {
+  // Failures first so they are visible without scrolling
+  const sorted = [...report.items].sort((a, b) => Number(b.status === 'failed') - Number(a.status === 'failed'))
+
+  return (
+    <ModalDialog heading={heading} onClose={onClose} width="large">
+      <div className="p-6">
+        <p className="text-sm text-gray-600 mb-4">
+          {report.succeeded} succeeded
+          {report.skipped > 0 && `, ${report.skipped} skipped`}
+          {report.failed > 0 && `, ${report.failed} failed`}
+        </p>
+        <ul className="max-h-80 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded-md">
+          {sorted.map(item => (
+            <li key={`${item.path}:${item.target || ''}`} className="flex items-start space-x-2 px-3 py-2 text-sm">
+              {statusIcons[item.status]}
+              <div className="min-w-0">
+                <p className="text-gray-900 truncate" title={item.path}>
+                  {item.path}
+                  {item.target && <span className="text-gray-500"> → {item.target}</span>}
+                </p>
+                {item.error && <p className="text-xs text-red-600">{item.error}</p>}
+              </div>
+            </li>
+          ))}
+        </ul>
+        <div className="mt-6 flex justify-end">
+          <Button appearance="primary" onClick={onClose}>
+            Close
+          </Button>
+        </div>
+      </div>
+    </ModalDialog>
+  )
+}
@@ -0,0 +1,117 @@
+'use client'
+
+import { useState } from 'react'
+import { Check, ChevronDown } from 'lucide-react'
+import { BunnyConnection, ConnectionProfile } from '../types/bunny'
+import { connectProfile, loadProfiles, needsPassphrase } from '../lib/connection-profiles'
+import ProfileUnlockDialog from './ProfileUnlockDialog'
+
+interface ProfileSwitcherProps {
+  connection: BunnyConnection
+  onSwitch: (connection: BunnyConnection) => void
+  onError: (error: string) => void
+}
+
+// Whether the open connection was made with this profile; connections don't remember their profile
+function isCurrentProfile(profile: ConnectionProfile, connection: BunnyConnection): boolean {
+  return !connection.managedZone
+    && profile.provider === (connection.provider || 'bunny')
+    && profile.host === connection.host
+    && profile.user === connection.user
+}
+
+/** Storage zone name in the toolbar that opens a menu of saved profiles to switch to. */
+export default function ProfileSwitcher({ connection, onSwitch, onError }: ProfileSwitcherProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [profiles, setProfiles] = useState<ConnectionProfile[]>([])
+  const [switching, setSwitching] = useState(false)
+  const [unlockProfile, setUnlockProfile] = useState<ConnectionProfile | null>(null)
+
+  const handleToggle = () => {
+    // Read on every open so profiles saved or used in another tab show up
+    if (!isOpen) setProfiles(loadProfiles())
+    setIsOpen(!isOpen)
+  }
+
+  const switchTo = async (profile: ConnectionProfile, passphrase: string | null) => {
+    setSwitching(true)
+    try {
+      const result = await connectProfile(profile, passphrase, connection.userName)
+      if (result.success && result.connection) {
+        onSwitch(result.connection)
+      } else {
+        onError(result.error || `Failed to connect to ${profile.name}.`)
+      }
+    } finally {
+      setSwitching(false)
+    }
+  }
+
+  const handleSelect = async (profile: ConnectionProfile) => {
+    setIsOpen(false)
+    try {
+      if (await needsPassphrase(profile)) {
+        setUnlockProfile(profile)
+        return
+      }
+      await switchTo(profile, null)
+    } catch (error: any) {
+      console.error('Profile switch error:', error)
+      onError(error?.message || 'Connection failed. Please try again.')
+    }
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={handleToggle}
+        disabled={switching}
+        title="Switch connection profile"
+        className="flex items-center space-x-1 px-2 py-1 rounded text-sm text-gray-500 hover:bg-gray-100 disabled:opacity-50"
+      >
+        <span>{switching ? 'Switching…' : connection.user}</span>
+        <ChevronDown className="w-4 h-4" />
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-10" onClick={() => setIsOpen(false)} />
+          <div className="absolute right-0 z-20 mt-2 w-72 bg-white rounded-md shadow-lg ring-1 ring-black ring-opacity-5">
+            <div className="py-1">
+              {profiles.length === 0 ? (
+                <p className="px-4 py-2 text-sm text-gray-500">
+                  No saved profiles. Save one when connecting to switch between zones here.
+                </p>
+              ) : profiles.map(profile => (
+                <button
+                  key={profile.id}
+                  onClick={() => handleSelect(profile)}
+                  className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 focus:outline-none focus:bg-gray-100"
+                >
+                  <div className="flex items-center justify-between">
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{profile.name}</p>
+                      <p className="text-xs text-gray-500 truncate">{profile.user}</p>
+                    </div>
+                    {isCurrentProfile(profile, connection) && <Check className="w-4 h-4 text-atlassian-blue flex-shrink-0" />}
+                  </div>
+                </button>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+
+      {unlockProfile && (
+        <ProfileUnlockDialog
+          profile={unlockProfile}
+          onUnlock={async (passphrase) => {
+            await switchTo(unlockProfile, passphrase)
+            setUnlockProfile(null)
+          }}
+          onClose={() => setUnlockProfile(null)}
+        />
+      )}
+    </div>
+  )
+}
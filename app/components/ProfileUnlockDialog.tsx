@@ -0,0 +1,55 @@
+'use client'
+
+import { useState } from 'react'
+import { Button, FieldText, ModalDialog } from './ui'
+import { ConnectionProfile } from '../types/bunny'
+import { ProfilePassphraseError } from '../lib/connection-profiles'
+
+interface ProfileUnlockDialogProps {
+  profile: ConnectionProfile
+  onUnlock: (passphrase: string) => Promise<void> // Rejecting keeps the dialog open with the error shown
+  onClose: () => void
+}
+
+export default function ProfileUnlockDialog({ profile, onUnlock, onClose }: ProfileUnlockDialogProps) {
+  const [passphrase, setPassphrase] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  const handleUnlock = async () => {
+    setBusy(true)
+    setError(null)
+    try {
+      await onUnlock(passphrase)
+    } catch (unlockError) {
+      setError(unlockError instanceof ProfilePassphraseError
+        ? 'That passphrase does not unlock this profile'
+        : unlockError instanceof Error ? unlockError.message : 'Could not unlock the profile')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <ModalDialog heading={`Connect to ${profile.name}`} onClose={onClose} width="small">
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600">Enter the passphrase the profile&apos;s access key was saved with.</p>
+        <FieldText
+          label="Passphrase"
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+        />
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <div className="flex justify-end space-x-3">
+          <Button appearance="subtle" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button appearance="primary" onClick={handleUnlock} loading={busy} disabled={!passphrase}>
+            Connect
+          </Button>
+        </div>
+      </div>
+    </ModalDialog>
+  )
+}
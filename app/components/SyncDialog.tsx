@@ -0,0 +1,191 @@
+'use client'
+
+import { useState } from 'react'
+import { FolderUp } from 'lucide-react'
+import { Badge, Button, Checkbox, ModalDialog, Spinner } from './ui'
+import FolderTree from './FolderTree'
+import { BunnyAPI } from '../lib/bunny-api'
+import { getRelativePath } from '../lib/upload-queue'
+import { countByStatus, createSyncPlan, createSyncReport, LocalSyncFile, SyncPlan, SyncStatus } from '../lib/sync'
+import { formatFileSize } from '../lib/format'
+
+interface SyncDialogProps {
+  api: BunnyAPI
+  storageZone: string
+  initialRemotePath: string
+  onClose: () => void
+  onApply: (plan: SyncPlan, deleteRemoteOnly: boolean) => void
+  onError: (error: string) => void
+}
+
+const statusLabels: Record<SyncStatus, { label: string; appearance: 'success' | 'warning' | 'error' | 'info' }> = {
+  new: { label: 'New', appearance: 'success' },
+  changed: { label: 'Changed', appearance: 'warning' },
+  unchanged: { label: 'Unchanged', appearance: 'info' },
+  remoteOnly: { label: 'Remote only', appearance: 'error' },
+}
+
+export default function SyncDialog({ api, storageZone, initialRemotePath, onClose, onApply, onError }: SyncDialogProps) {
+  const [localName, setLocalName] = useState('')
+  const [localFiles, setLocalFiles] = useState<LocalSyncFile[]>([])
+  const [remotePath, setRemotePath] = useState(initialRemotePath)
+  const [plan, setPlan] = useState<SyncPlan | null>(null)
+  const [progress, setProgress] = useState<{ completed: number; total: number } | null>(null)
+  const [filter, setFilter] = useState<SyncStatus | null>(null)
+  const [deleteRemoteOnly, setDeleteRemoteOnly] = useState(false)
+
+  const handleLocalFolder = (files: File[]) => {
+    if (files.length === 0) return
+    // Directory inputs prefix every path with the picked folder's name; the folder's contents map onto the remote folder
+    const paths = files.map(getRelativePath)
+    setLocalName(paths[0].split('/')[0])
+    setLocalFiles(files.map((file, index) => ({
+      file,
+      relativePath: paths[index].includes('/') ? paths[index].slice(paths[index].indexOf('/') + 1) : paths[index],
+    })))
+    setPlan(null)
+  }
+
+  const handleCompare = async () => {
+    setProgress({ completed: 0, total: localFiles.length })
+    try {
+      const remoteFiles = await api.listFilesRecursive(remotePath)
+      setPlan(await createSyncPlan(localName, localFiles, remotePath, remoteFiles, (completed, total) => setProgress({ completed, total })))
+      setFilter(null)
+    } catch (error) {
+      console.error('Sync compare error:', error)
+      onError(`Failed to compare folders: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setProgress(null)
+    }
+  }
+
+  const handleDownloadReport = () => {
+    if (!plan) return
+    const blob = new Blob([JSON.stringify(createSyncReport(plan, deleteRemoteOnly), null, 2)], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `sync-dry-run-${plan.localName || 'folder'}.json`
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+    URL.revokeObjectURL(url)
+  }
+
+  const counts = plan ? countByStatus(plan) : null
+  const uploadCount = counts ? counts.new + counts.changed : 0
+  const deleteCount = counts && deleteRemoteOnly ? counts.remoteOnly : 0
+  const visibleEntries = plan ? plan.entries.filter(entry => !filter || entry.status === filter) : []
+
+  return (
+    <ModalDialog heading="Sync local folder" onClose={onClose} width="large">
+      <div className="p-6 space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">Local folder</p>
+            <Button appearance="secondary" onClick={() => document.getElementById('sync-folder-input')?.click()}>
+              <span className="flex items-center"><FolderUp className="w-4 h-4 mr-2" /> Choose Folder</span>
+            </Button>
+            <input
+              id="sync-folder-input"
+              type="file"
+              multiple
+              className="hidden"
+              {...({ webkitdirectory: '' } as React.InputHTMLAttributes<HTMLInputElement>)}
+              onChange={(e) => {
+                if (e.target.files) handleLocalFolder(Array.from(e.target.files))
+                e.target.value = ''
+              }}
+            />
+            {localName && (
+              <p className="mt-2 text-sm text-gray-600">
+                <strong>{localName}</strong>: {localFiles.length} files, {formatFileSize(localFiles.reduce((sum, item) => sum + item.file.size, 0))}
+              </p>
+            )}
+          </div>
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">Remote folder</p>
+            <div className="max-h-48 overflow-y-auto border border-gray-200 rounded-md p-2">
+              <FolderTree
+                api={api}
+                storageZone={storageZone}
+                selectedPath={remotePath}
+                onSelect={(path) => {
+                  setRemotePath(path)
+                  setPlan(null)
+                }}
+              />
+            </div>
+          </div>
+        </div>
+
+        {progress ? (
+          <div className="flex items-center space-x-3 text-sm text-gray-600">
+            <Spinner size="small" />
+            <span>Comparing… {progress.completed} of {progress.total} local files checked</span>
+          </div>
+        ) : plan && counts ? (
+          <>
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(statusLabels) as SyncStatus[]).map(status => (
+                <button
+                  key={status}
+                  type="button"
+                  onClick={() => setFilter(filter === status ? null : status)}
+                  className={`rounded-full ${filter === status ? 'ring-2 ring-atlassian-blue' : ''}`}
+                >
+                  <Badge appearance={statusLabels[status].appearance}>
+                    {statusLabels[status].label}: {counts[status]}
+                  </Badge>
+                </button>
+              ))}
+            </div>
+            <ul className="max-h-64 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded-md">
+              {visibleEntries.length === 0 ? (
+                <li className="px-3 py-2 text-sm text-gray-500">Nothing to show</li>
+              ) : visibleEntries.map(entry => (
+                <li key={entry.relativePath} className="flex items-center justify-between px-3 py-2 text-sm">
+                  <div className="min-w-0 mr-3">
+                    <p className="text-gray-900 truncate font-mono text-xs" title={entry.relativePath}>{entry.relativePath}</p>
+                    {entry.reason && <p className="text-xs text-gray-500">{entry.reason}</p>}
+                  </div>
+                  <Badge appearance={statusLabels[entry.status].appearance}>{statusLabels[entry.status].label}</Badge>
+                </li>
+              ))}
+            </ul>
+            <Checkbox
+              label={`Delete files that exist only in ${plan.remotePath} (${counts.remoteOnly})`}
+              checked={deleteRemoteOnly}
+              onChange={(e) => setDeleteRemoteOnly(e.target.checked)}
+            />
+          </>
+        ) : (
+          <p className="text-sm text-gray-500">
+            Files are compared by path, size and SHA-256 checksum. Nothing is changed until you apply the result.
+          </p>
+        )}
+
+        <div className="pt-2 flex justify-between">
+          <Button appearance="subtle" onClick={handleDownloadReport} disabled={!plan}>
+            Download Dry-Run Report
+          </Button>
+          <div className="flex space-x-3">
+            <Button appearance="subtle" onClick={onClose}>
+              Cancel
+            </Button>
+            {plan ? (
+              <Button appearance="primary" onClick={() => onApply(plan, deleteRemoteOnly)} disabled={uploadCount + deleteCount === 0}>
+                {`Upload ${uploadCount}${deleteRemoteOnly ? `, delete ${deleteCount}` : ''}`}
+              </Button>
+            ) : (
+              <Button appearance="primary" onClick={handleCompare} loading={!!progress} disabled={localFiles.length === 0 || !!progress}>
+                Compare
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+    </ModalDialog>
+  )
+}
@@ -0,0 +1,161 @@
+'use client'
+
+import { useState } from 'react'
+import { CheckCircle, XCircle, X, Pause, Play, RotateCcw, ChevronDown, ChevronUp, Ban } from 'lucide-react'
+import { formatFileSize } from '../lib/format'
+import { TransferItem, TransferStatus } from '../types/bunny'
+
+interface TransferPanelProps {
+  items: TransferItem[]
+  title?: string
+  paused?: boolean
+  concurrency?: number
+  onTogglePause?: () => void
+  onConcurrencyChange?: (concurrency: number) => void
+  onCancel?: (id: string) => void
+  onRetry?: (id: string) => void
+  onClearFinished: () => void
+}
+
+const statusOrder: Record<TransferStatus, number> = {
+  active: 0,
+  pending: 1,
+  failed: 2,
+  cancelled: 3,
+  completed: 4,
+}
+
+const statusLabels: Record<TransferStatus, string> = {
+  active: 'Active',
+  pending: 'Pending',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+  completed: 'Completed',
+}
+
+export default function TransferPanel({
+  items,
+  title = 'Transfers',
+  paused = false,
+  concurrency,
+  onTogglePause,
+  onConcurrencyChange,
+  onCancel,
+  onRetry,
+  onClearFinished,
+}: TransferPanelProps) {
+  const [collapsed, setCollapsed] = useState(false)
+
+  if (items.length === 0) return null
+
+  const counts = items.reduce((acc, item) => {
+    acc[item.status] = (acc[item.status] || 0) + 1
+    return acc
+  }, {} as Partial<Record<TransferStatus, number>>)
+  const sorted = [...items].sort((a, b) => statusOrder[a.status] - statusOrder[b.status])
+
+  return (
+    <div className="fixed bottom-4 right-4 z-40 w-96 max-w-[90vw] bg-white rounded-lg shadow-lg ring-1 ring-black ring-opacity-5">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+        <div className="min-w-0">
+          <h3 className="text-sm font-semibold text-gray-900">
+            {title}{paused && ' (paused)'}
+          </h3>
+          <p className="text-xs text-gray-500 truncate">
+            {(Object.keys(statusLabels) as TransferStatus[])
+              .filter(status => counts[status])
+              .map(status => `${counts[status]} ${statusLabels[status].toLowerCase()}`)
+              .join(' · ')}
+          </p>
+        </div>
+        <div className="flex items-center space-x-1 flex-shrink-0">
+          {onConcurrencyChange && concurrency !== undefined && (
+            <select
+              value={concurrency}
+              onChange={(e) => onConcurrencyChange(Number(e.target.value))}
+              title="Parallel uploads"
+              className="text-xs border border-gray-300 rounded px-1 py-0.5"
+            >
+              {[1, 2, 3, 4, 6, 8].map(value => (
+                <option key={value} value={value}>{value}×</option>
+              ))}
+            </select>
+          )}
+          {onTogglePause && (
+            <button
+              onClick={onTogglePause}
+              title={paused ? 'Resume' : 'Pause'}
+              className="p-1 text-gray-400 hover:text-gray-600"
+            >
+              {paused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+            </button>
+          )}
+          <button
+            onClick={() => setCollapsed(!collapsed)}
+            title={collapsed ? 'Expand' : 'Collapse'}
+            className="p-1 text-gray-400 hover:text-gray-600"
+          >
+            {collapsed ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+          </button>
+          <button
+            onClick={onClearFinished}
+            title="Clear finished"
+            className="p-1 text-gray-400 hover:text-gray-600"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+      {!collapsed && (
+        <div className="max-h-72 overflow-y-auto divide-y divide-gray-100">
+          {sorted.map(item => {
+            const percent = item.total > 0 ? Math.round((item.loaded / item.total) * 100) : 0
+            return (
+              <div key={item.id} className="px-4 py-2">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="truncate text-gray-900 mr-2" title={item.name}>{item.name}</span>
+                  <div className="flex items-center space-x-1 flex-shrink-0">
+                    {item.status === 'completed' && <CheckCircle className="w-4 h-4 text-green-500" />}
+                    {item.status === 'failed' && <XCircle className="w-4 h-4 text-red-500" />}
+                    {item.status === 'active' && <span className="text-xs text-gray-500">{percent}%</span>}
+                    {item.status === 'pending' && <span className="text-xs text-gray-400">Pending</span>}
+                    {item.status === 'cancelled' && <span className="text-xs text-gray-400">Cancelled</span>}
+                    {onRetry && (item.status === 'failed' || item.status === 'cancelled') && (
+                      <button
+                        onClick={() => onRetry(item.id)}
+                        title="Retry"
+                        className="p-0.5 text-gray-400 hover:text-gray-600"
+                      >
+                        <RotateCcw className="w-3.5 h-3.5" />
+                      </button>
+                    )}
+                    {onCancel && (item.status === 'pending' || item.status === 'active') && (
+                      <button
+                        onClick={() => onCancel(item.id)}
+                        title="Cancel"
+                        className="p-0.5 text-gray-400 hover:text-red-600"
+                      >
+                        <Ban className="w-3.5 h-3.5" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+                <div className="mt-1 h-1.5 bg-gray-100 rounded">
+                  <div
+                    className={`h-1.5 rounded transition-all ${item.status === 'failed' ? 'bg-red-400' : item.status === 'completed' ? 'bg-green-500' : 'bg-atlassian-blue'}`}
+                    style={{ width: `${item.status === 'completed' ? 100 : percent}%` }}
+                  />
+                </div>
+                <p className="mt-1 text-xs text-gray-500 truncate" title={item.error}>
+                  {item.error
+                    ? item.error
+                    : `${formatFileSize(item.loaded)} of ${formatFileSize(item.total)}`}
+                </p>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
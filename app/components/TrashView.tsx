@@ -0,0 +1,290 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { File as FileIcon, Folder, RefreshCw, RotateCcw, Trash2 } from 'lucide-react'
+import { Button, Card, Checkbox, EmptyState, FieldText, Select, Spinner } from './ui'
+import { BunnyAPI } from '../lib/bunny-api'
+import { formatFileSize } from '../lib/format'
+import { ConflictPolicy, OperationReport, TrashItem, TrashSettings } from '../types/bunny'
+
+interface TrashViewProps {
+  api: BunnyAPI
+  onRestored: () => void
+  onReport: (heading: string, report: OperationReport) => void
+  onSettingsChange: (settings: TrashSettings) => void
+  onError: (error: string) => void
+  onSuccess: (message: string) => void
+}
+
+const restorePolicyOptions = [
+  { label: 'Keep both (rename restored items)', value: 'keepBoth' },
+  { label: 'Skip items that exist again', value: 'skip' },
+  { label: 'Overwrite newer items', value: 'overwrite' },
+]
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export default function TrashView({ api, onRestored, onReport, onSettingsChange, onError, onSuccess }: TrashViewProps) {
+  const [items, setItems] = useState<TrashItem[] | null>(null)
+  const [settings, setSettings] = useState<TrashSettings | null>(null)
+  const [retentionValue, setRetentionValue] = useState('')
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [restorePolicy, setRestorePolicy] = useState<ConflictPolicy>('keepBoth')
+  const [busy, setBusy] = useState(false)
+  const [loadError, setLoadError] = useState<string | null>(null)
+
+  const loadTrash = useCallback(async () => {
+    try {
+      const listing = await api.getTrash()
+      setItems(listing.items)
+      setSettings(listing.settings)
+      setRetentionValue(String(listing.settings.retentionDays))
+      setSelectedIds(new Set())
+      setLoadError(null)
+    } catch (error) {
+      console.error('Trash load error:', error)
+      setLoadError(error instanceof Error ? error.message : 'Failed to load trash')
+      setItems([])
+    }
+  }, [api])
+
+  useEffect(() => {
+    loadTrash()
+  }, [loadTrash])
+
+  const saveSettings = async (next: TrashSettings) => {
+    try {
+      const saved = await api.updateTrashSettings(next)
+      setSettings(saved)
+      setRetentionValue(String(saved.retentionDays))
+      onSettingsChange(saved)
+    } catch (error) {
+      console.error('Trash settings error:', error)
+      onError(error instanceof Error ? error.message : 'Failed to update trash settings')
+    }
+  }
+
+  const handleSaveRetention = () => {
+    if (!settings) return
+    const days = parseInt(retentionValue, 10)
+    if (isNaN(days) || days < 0) {
+      onError('Please enter a number of days')
+      return
+    }
+    saveSettings({ ...settings, retentionDays: days })
+  }
+
+  const runAction = async (action: () => Promise<OperationReport>, failureHeading: string, successMessage: (report: OperationReport) => string) => {
+    setBusy(true)
+    try {
+      const report = await action()
+      if (report.failed > 0 || report.skipped > 0) {
+        onReport(failureHeading, report)
+      } else {
+        onSuccess(successMessage(report))
+      }
+    } catch (error) {
+      console.error('Trash action error:', error)
+      onError(error instanceof Error ? error.message : 'Unknown error')
+    } finally {
+      setBusy(false)
+      await loadTrash()
+    }
+  }
+
+  const handleRestore = (ids: string[]) => runAction(async () => {
+    const report = await api.restoreFromTrash(ids, restorePolicy)
+    onRestored()
+    return report
+  }, 'Some items could not be restored', () => `${ids.length} ${ids.length === 1 ? 'item' : 'items'} restored`)
+
+  const handlePurge = (ids: string[]) => {
+    if (!window.confirm(`Permanently delete ${ids.length} ${ids.length === 1 ? 'item' : 'items'}? This cannot be undone.`)) return
+    runAction(() => api.purgeTrash(ids), 'Some items could not be deleted', (report) => `${report.succeeded} ${report.succeeded === 1 ? 'file' : 'files'} permanently deleted`)
+  }
+
+  const handleEmptyTrash = () => {
+    if (!window.confirm('Permanently delete everything in the trash? This cannot be undone.')) return
+    runAction(() => api.purgeTrash(), 'Some items could not be deleted', () => 'Trash emptied')
+  }
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }
+
+  const getExpiry = (item: TrashItem) => {
+    if (!settings || settings.retentionDays <= 0) return 'Kept until purged'
+    const days = Math.ceil((new Date(item.deletedAt).getTime() + settings.retentionDays * DAY_MS - Date.now()) / DAY_MS)
+    return days <= 1 ? 'Purged within a day' : `Purged in ${days} days`
+  }
+
+  const selected = Array.from(selectedIds)
+
+  return (
+    <Card className="h-full">
+      <div className="p-6 h-full flex flex-col">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold">Trash</h3>
+          <Button appearance="subtle" onClick={loadTrash} disabled={busy}>
+            <RefreshCw className="w-4 h-4" />
+          </Button>
+        </div>
+
+        {settings && (
+          <div className="mb-4 flex flex-wrap items-end gap-6 px-3 py-3 bg-gray-50 rounded-md">
+            <Checkbox
+              label="Move deleted items to the trash"
+              checked={settings.enabled}
+              onChange={(e) => saveSettings({ ...settings, enabled: e.target.checked })}
+            />
+            <div className="w-56">
+              <FieldText
+                label="Purge after (days, 0 = never)"
+                type="number"
+                value={retentionValue}
+                onChange={(e) => setRetentionValue(e.target.value)}
+              />
+            </div>
+            <Button appearance="secondary" onClick={handleSaveRetention} disabled={retentionValue === String(settings.retentionDays)}>
+              Save
+            </Button>
+          </div>
+        )}
+
+        {items && items.length > 0 && (
+          <div className="mb-4 flex flex-wrap items-center gap-2">
+            <div className="w-72">
+              <Select
+                options={restorePolicyOptions}
+                value={restorePolicyOptions.find(option => option.value === restorePolicy)}
+                onChange={(option) => option && setRestorePolicy(option.value as ConflictPolicy)}
+              />
+            </div>
+            <Button appearance="secondary" onClick={() => handleRestore(selected)} disabled={busy || selected.length === 0}>
+              <span className="flex items-center"><RotateCcw className="w-4 h-4 mr-2" /> Restore</span>
+            </Button>
+            <Button appearance="danger" onClick={() => handlePurge(selected)} disabled={busy || selected.length === 0}>
+              <span className="flex items-center"><Trash2 className="w-4 h-4 mr-2" /> Delete Forever</span>
+            </Button>
+            <div className="flex-1" />
+            <Button appearance="subtle" onClick={handleEmptyTrash} disabled={busy}>
+              Empty Trash
+            </Button>
+          </div>
+        )}
+
+        {!items ? (
+          <div className="flex justify-center items-center flex-1">
+            <Spinner size="large" />
+          </div>
+        ) : loadError ? (
+          <div className="flex justify-center items-center flex-1">
+            <EmptyState
+              header="Failed to load the trash"
+              description={loadError}
+              action={
+                <Button appearance="primary" onClick={loadTrash}>
+                  Try Again
+                </Button>
+              }
+            />
+          </div>
+        ) : items.length === 0 ? (
+          <div className="flex justify-center items-center flex-1">
+            <EmptyState
+              header="The trash is empty"
+              description={settings?.enabled
+                ? 'Deleted files and folders will appear here until they are purged'
+                : 'Turn on the trash above to be able to restore deleted items'}
+            />
+          </div>
+        ) : (
+          <div className="flex-1 relative min-h-0">
+            <div className="absolute inset-0 overflow-y-auto overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="w-10 py-3 pl-4">
+                      <input
+                        type="checkbox"
+                        aria-label="Select all"
+                        checked={selected.length === items.length}
+                        onChange={() => setSelectedIds(selected.length === items.length ? new Set() : new Set(items.map(item => item.id)))}
+                        className="w-4 h-4 text-atlassian-blue border-gray-300 rounded focus:ring-atlassian-blue"
+                      />
+                    </th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-500 text-sm">Name</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-500 text-sm">Deleted</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-500 text-sm">Size</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-500 text-sm">Expires</th>
+                    <th className="w-24"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {items.map(item => (
+                    <tr key={item.id} className={`hover:bg-gray-50 ${selectedIds.has(item.id) ? 'bg-blue-50' : ''}`}>
+                      <td className="py-3 pl-4">
+                        <input
+                          type="checkbox"
+                          aria-label={`Select ${item.name}`}
+                          checked={selectedIds.has(item.id)}
+                          onChange={() => toggleSelected(item.id)}
+                          className="w-4 h-4 text-atlassian-blue border-gray-300 rounded focus:ring-atlassian-blue"
+                        />
+                      </td>
+                      <td className="py-3 px-4">
+                        <div className="flex items-center space-x-3 min-w-0">
+                          {item.isDirectory
+                            ? <Folder className="w-4 h-4 text-blue-500 flex-shrink-0" />
+                            : <FileIcon className="w-4 h-4 text-gray-500 flex-shrink-0" />}
+                          <div className="min-w-0">
+                            <p className="font-medium text-gray-900 truncate">{item.name}</p>
+                            <p className="text-xs text-gray-500 truncate" title={item.originalPath}>{item.originalPath}</p>
+                          </div>
+                        </div>
+                      </td>
+                      <td className="py-3 px-4 text-sm text-gray-600">
+                        <p>{new Date(item.deletedAt).toLocaleString()}</p>
+                        <p className="text-xs text-gray-500">by {item.deletedBy}</p>
+                      </td>
+                      <td className="py-3 px-4 text-sm text-gray-600">
+                        {formatFileSize(item.size)}
+                        {item.isDirectory && <span className="text-xs text-gray-500"> · {item.fileCount} {item.fileCount === 1 ? 'file' : 'files'}</span>}
+                      </td>
+                      <td className="py-3 px-4 text-sm text-gray-600">{getExpiry(item)}</td>
+                      <td className="py-3 px-4">
+                        <div className="flex items-center space-x-1">
+                          <button
+                            onClick={() => handleRestore([item.id])}
+                            disabled={busy}
+                            className="p-1 hover:bg-gray-100 rounded"
+                            title="Restore"
+                          >
+                            <RotateCcw className="w-4 h-4 text-gray-500" />
+                          </button>
+                          <button
+                            onClick={() => handlePurge([item.id])}
+                            disabled={busy}
+                            className="p-1 hover:bg-gray-100 rounded"
+                            title="Delete forever"
+                          >
+                            <Trash2 className="w-4 h-4 text-red-500" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </Card>
+  )
+}
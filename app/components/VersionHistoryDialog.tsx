@@ -0,0 +1,138 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Download, Eye, RotateCcw } from 'lucide-react'
+import { Badge, ModalDialog, Spinner } from './ui'
+import MediaPreview, { getMediaKind } from './MediaPreview'
+import { BunnyAPI } from '../lib/bunny-api'
+import { formatFileSize } from '../lib/format'
+import { BunnyFile, FileVersion, VersionListing } from '../types/bunny'
+
+interface VersionHistoryDialogProps {
+  api: BunnyAPI
+  file: BunnyFile
+  path: string // Full path of the file
+  onClose: () => void
+  onRestored: () => void
+  onError: (error: string) => void
+  onSuccess: (message: string) => void
+}
+
+export default function VersionHistoryDialog({ api, file, path, onClose, onRestored, onError, onSuccess }: VersionHistoryDialogProps) {
+  const [listing, setListing] = useState<VersionListing | null>(null)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [preview, setPreview] = useState<FileVersion | null>(null)
+  const [restoringId, setRestoringId] = useState<string | null>(null)
+
+  useEffect(() => {
+    api.getVersions(path)
+      .then(setListing)
+      .catch((error) => setLoadError(error instanceof Error ? error.message : 'Unknown error'))
+  }, [api, path])
+
+  const handleDownload = (version: FileVersion) => {
+    const a = document.createElement('a')
+    a.href = api.getDownloadUrl(version.path)
+    a.download = version.id
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+  }
+
+  const handleRestore = async (version: FileVersion) => {
+    const date = new Date(version.createdAt).toLocaleString()
+    const keepsCurrent = listing?.settings.enabled
+    if (!window.confirm(`Restore the version of ${file.ObjectName} from ${date}? ${keepsCurrent
+      ? 'The current content is kept as a new version.'
+      : 'Version history is off, so the current content will be lost.'}`)) return
+
+    setRestoringId(version.id)
+    try {
+      await api.restoreVersion(path, version.id)
+      onSuccess(`${file.ObjectName} restored to the version from ${date}`)
+      onRestored()
+    } catch (error) {
+      console.error('Version restore error:', error)
+      onError(`Failed to restore version: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      setRestoringId(null)
+    }
+  }
+
+  const canPreview = !!getMediaKind(file.ObjectName)
+
+  return (
+    <ModalDialog heading={`History of ${file.ObjectName}`} onClose={onClose} width="large">
+      <div className="p-6">
+        {loadError ? (
+          <p className="text-sm text-red-600">Could not load the version history: {loadError}</p>
+        ) : !listing ? (
+          <div className="flex items-center space-x-3 text-sm text-gray-600">
+            <Spinner size="small" />
+            <span>Loading versions…</span>
+          </div>
+        ) : (
+          <>
+            {!listing.settings.enabled && (
+              <p className="mb-4 text-sm text-gray-600">
+                Version history is off for this storage zone. Turn on &quot;Keep previous versions&quot; to keep a copy of each file before an upload replaces it.
+              </p>
+            )}
+            <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded-md">
+              <li className="flex items-center justify-between px-3 py-2 text-sm">
+                <div>
+                  <p className="text-gray-900">{new Date(file.LastChanged).toLocaleString()}</p>
+                  <p className="text-xs text-gray-500">{formatFileSize(file.Length)}</p>
+                </div>
+                <Badge appearance="success">Current</Badge>
+              </li>
+              {listing.versions.length === 0 ? (
+                <li className="px-3 py-2 text-sm text-gray-500">No earlier versions</li>
+              ) : listing.versions.map(version => (
+                <li key={version.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                  <div>
+                    <p className="text-gray-900">Replaced {new Date(version.createdAt).toLocaleString()}</p>
+                    <p className="text-xs text-gray-500">{formatFileSize(version.size)}</p>
+                  </div>
+                  <div className="flex items-center space-x-1">
+                    {canPreview && (
+                      <button
+                        onClick={() => setPreview(version)}
+                        className="p-1 hover:bg-gray-100 rounded"
+                        title="Preview"
+                      >
+                        <Eye className="w-4 h-4 text-gray-500" />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleDownload(version)}
+                      className="p-1 hover:bg-gray-100 rounded"
+                      title="Download"
+                    >
+                      <Download className="w-4 h-4 text-gray-500" />
+                    </button>
+                    <button
+                      onClick={() => handleRestore(version)}
+                      disabled={!!restoringId}
+                      className="p-1 hover:bg-gray-100 rounded disabled:opacity-40"
+                      title="Restore this version"
+                    >
+                      {restoringId === version.id ? <Spinner size="small" /> : <RotateCcw className="w-4 h-4 text-gray-500" />}
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </div>
+
+      {preview && (
+        <MediaPreview
+          name={preview.id}
+          src={api.getDownloadUrl(preview.path, { inline: true })}
+          onClose={() => setPreview(null)}
+        />
+      )}
+    </ModalDialog>
+  )
+}
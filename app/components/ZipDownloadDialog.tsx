@@ -0,0 +1,53 @@
+'use client'
+
+import { useState } from 'react'
+import { Button, Checkbox, ModalDialog } from './ui'
+import { BunnyAPI } from '../lib/bunny-api'
+
+interface ZipDownloadDialogProps {
+  api: BunnyAPI
+  paths: string[] // Folder paths end in '/'
+  heading: string
+  onClose: () => void
+  onStarted: () => void
+}
+
+export default function ZipDownloadDialog({ api, paths, heading, onClose, onStarted }: ZipDownloadDialogProps) {
+  const [flatten, setFlatten] = useState(false)
+  const [excludeKeep, setExcludeKeep] = useState(true)
+
+  const handleDownload = () => {
+    // The archive is built while it downloads, so the browser never holds it in memory
+    const a = document.createElement('a')
+    a.href = api.getZipDownloadUrl(paths, { flatten, excludeKeep })
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+    onStarted()
+  }
+
+  return (
+    <ModalDialog heading={heading} onClose={onClose} width="medium">
+      <div className="p-6 space-y-3">
+        <Checkbox
+          label="Flatten folders (put every file at the top level)"
+          checked={flatten}
+          onChange={(e) => setFlatten(e.target.checked)}
+        />
+        <Checkbox
+          label="Leave out .keep folder markers"
+          checked={excludeKeep}
+          onChange={(e) => setExcludeKeep(e.target.checked)}
+        />
+        <div className="pt-3 flex justify-end space-x-3">
+          <Button appearance="subtle" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button appearance="primary" onClick={handleDownload}>
+            Download ZIP
+          </Button>
+        </div>
+      </div>
+    </ModalDialog>
+  )
+}
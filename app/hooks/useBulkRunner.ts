@@ -0,0 +1,33 @@
+import { useState } from 'react'
+import { OperationReport } from '../types/bunny'
+import { runBatch } from '../lib/batch'
+
+export interface BulkProgress {
+  label: string
+  completed: number
+  total: number
+}
+
+/**
+ * Runs a bulk action over several items through runBatch and exposes its
+ * progress for the selection bar while it runs. `getLabel` names an item in
+ * the report.
+ */
+export function useBulkRunner<T>(getLabel: (item: T) => string) {
+  const [progress, setProgress] = useState<BulkProgress | null>(null)
+
+  const run = async (label: string, targets: T[], task: (item: T) => Promise<OperationReport | void>, concurrency?: number) => {
+    setProgress({ label, completed: 0, total: targets.length })
+    try {
+      return await runBatch(targets, task, {
+        label: getLabel,
+        concurrency,
+        onProgress: (completed, total) => setProgress({ label, completed, total }),
+      })
+    } finally {
+      setProgress(null)
+    }
+  }
+
+  return { progress, run }
+}
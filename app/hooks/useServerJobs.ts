@@ -0,0 +1,86 @@
+import { useRef, useState } from 'react'
+import { OperationReport, TransferItem } from '../types/bunny'
+
+export interface ServerJob {
+  run: (signal: AbortSignal, onProgress: (update: Partial<TransferItem>) => void) => Promise<OperationReport>
+  errorPrefix: string
+  failureHeading: string
+  successMessage: (report: OperationReport) => string
+  onFinished?: (report: OperationReport) => Promise<void>
+}
+
+interface ServerJobCallbacks {
+  onSuccess: (message: string) => void
+  onError: (error: string) => void
+  onReport: (heading: string, report: OperationReport) => void // A job finished with failed items
+}
+
+/**
+ * Server-side operations (copy, extract, verify, ...) shown in the transfer
+ * panel next to uploads. Running jobs can be cancelled and failed ones started
+ * again with the same parameters.
+ */
+export function useServerJobs(callbacks: ServerJobCallbacks) {
+  const [jobs, setJobs] = useState<TransferItem[]>([])
+  const jobsRef = useRef(new Map<string, ServerJob & { controller?: AbortController }>())
+  // Jobs outlive the render that started them, so they report through the latest callbacks
+  const callbacksRef = useRef(callbacks)
+  callbacksRef.current = callbacks
+
+  const updateJob = (id: string, update: Partial<TransferItem>) => {
+    setJobs(prev => prev.map(job => job.id === id ? { ...job, ...update } : job))
+  }
+
+  const runJob = async (id: string) => {
+    const job = jobsRef.current.get(id)
+    if (!job) return
+    const controller = new AbortController()
+    job.controller = controller
+    updateJob(id, { loaded: 0, status: 'active', error: undefined })
+
+    try {
+      const report = await job.run(controller.signal, (update) => updateJob(id, update))
+      if (report.failed > 0) {
+        updateJob(id, { status: 'failed', error: `${report.failed} of ${report.items.length} items failed` })
+        callbacksRef.current.onReport(job.failureHeading, report)
+      } else {
+        updateJob(id, { status: 'completed' })
+        callbacksRef.current.onSuccess(job.successMessage(report))
+      }
+      await job.onFinished?.(report)
+    } catch (error) {
+      if (controller.signal.aborted) {
+        updateJob(id, { status: 'cancelled' })
+        return
+      }
+      console.error(`${job.errorPrefix}:`, error)
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      updateJob(id, { status: 'failed', error: message })
+      callbacksRef.current.onError(`${job.errorPrefix}: ${message}`)
+    }
+  }
+
+  const addJob = (name: string, total: number, job: ServerJob) => {
+    const id = `job-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+    jobsRef.current.set(id, job)
+    setJobs(prev => [...prev, { id, name, loaded: 0, total, status: 'pending' }])
+    runJob(id)
+  }
+
+  return {
+    jobs,
+    addJob,
+    hasJob: (id: string) => jobsRef.current.has(id),
+    cancelJob: (id: string) => jobsRef.current.get(id)?.controller?.abort(),
+    retryJob: (id: string) => {
+      runJob(id)
+    },
+    clearFinishedJobs: () => {
+      setJobs(prev => prev.filter(job => {
+        const finished = job.status === 'completed' || job.status === 'cancelled'
+        if (finished) jobsRef.current.delete(job.id)
+        return !finished
+      }))
+    },
+  }
+}
@@ -0,0 +1,146 @@
+import { createReadStream, promises as fs } from 'fs'
+import nodePath from 'path'
+import readline from 'readline'
+import { v4 as uuidv4 } from 'uuid'
+import { AuditEntry, OperationReport } from '../types/bunny'
+import { getActorName, SessionConnection } from './session'
+import { getZoneKey } from './storage'
+import { getErrorMessage } from './storage/operations'
+
+/**
+ * Append-only audit log of storage changes, kept as newline-delimited JSON on
+ * the server's disk (`AUDIT_LOG_FILE`). Entries are only ever appended; the
+ * file is never rewritten by the app.
+ */
+
+export type AuditInput = Pick<AuditEntry, 'operation' | 'paths'> & Partial<Pick<AuditEntry, 'bytes' | 'result' | 'counts' | 'note' | 'error'>>
+
+export interface AuditQuery {
+  zone: string
+  text?: string // Matched case-insensitively against actor, paths, note and error
+  operation?: string
+  result?: string
+  limit?: number
+}
+
+export function getAuditLogPath(): string {
+  return nodePath.resolve(process.env.AUDIT_LOG_FILE || 'data/audit-log.jsonl')
+}
+
+/** Appends an entry. Failing to write the log is reported but never fails the operation itself. */
+export async function recordAudit(connection: SessionConnection, input: AuditInput): Promise<void> {
+  const entry: AuditEntry = {
+    id: uuidv4(),
+    timestamp: new Date().toISOString(),
+    actor: getActorName(connection),
+    zone: getZoneKey(connection),
+    connectionId: connection.id,
+    result: 'success',
+    ...input,
+  }
+
+  try {
+    const path = getAuditLogPath()
+    await fs.mkdir(nodePath.dirname(path), { recursive: true })
+    await fs.appendFile(path, `${JSON.stringify(entry)}\n`, { flag: 'a' })
+  } catch (error) {
+    console.error('Failed to write audit entry:', error)
+  }
+}
+
+export function summarizeReport(report: OperationReport): Partial<AuditInput> {
+  let result: AuditEntry['result'] = 'success'
+  if (report.failed > 0) {
+    result = report.succeeded > 0 ? 'partial' : 'failure'
+  } else if (report.succeeded === 0 && report.skipped > 0) {
+    result = 'skipped'
+  }
+
+  return {
+    result,
+    bytes: report.items.reduce((sum, item) => sum + (item.status === 'done' ? item.bytes || 0 : 0), 0),
+    counts: { succeeded: report.succeeded, skipped: report.skipped, failed: report.failed },
+  }
+}
+
+/**
+ * Runs a mutating task and records its outcome: `summarize` turns the task's
+ * result into entry fields, and a thrown error is recorded as a failure
+ * before it is rethrown.
+ */
+export async function audited<T>(
+  connection: SessionConnection,
+  input: AuditInput,
+  task: () => Promise<T>,
+  summarize?: (result: T) => Partial<AuditInput>
+): Promise<T> {
+  let result: T
+  try {
+    result = await task()
+  } catch (error) {
+    await recordAudit(connection, { ...input, result: 'failure', error: getErrorMessage(error) })
+    throw error
+  }
+  await recordAudit(connection, { ...input, ...summarize?.(result) })
+  return result
+}
+
+/** Reads the entries of one storage zone that match the query, newest first. */
+export async function readAuditLog(query: AuditQuery): Promise<{ entries: AuditEntry[]; total: number }> {
+  const text = query.text?.toLowerCase()
+  const matches: AuditEntry[] = []
+
+  let stream
+  try {
+    await fs.access(getAuditLogPath())
+    stream = createReadStream(getAuditLogPath(), { encoding: 'utf8' })
+  } catch {
+    return { entries: [], total: 0 }
+  }
+
+  for await (const line of readline.createInterface({ input: stream, crlfDelay: Infinity })) {
+    if (!line.trim()) continue
+    let entry: AuditEntry
+    try {
+      entry = JSON.parse(line)
+    } catch {
+      // A line cut short by a crash is skipped rather than hiding the rest of the log
+      continue
+    }
+    if (entry.zone !== query.zone) continue
+    if (query.operation && entry.operation !== query.operation) continue
+    if (query.result && entry.result !== query.result) continue
+    if (text && ![entry.actor, entry.note, entry.error, ...entry.paths].some(value => value && value.toLowerCase().includes(text))) continue
+    matches.push(entry)
+  }
+
+  matches.reverse()
+  return { entries: query.limit ? matches.slice(0, query.limit) : matches, total: matches.length }
+}
+
+function escapeCsv(value: string | number | undefined): string {
+  let text = value === undefined ? '' : String(value)
+  // Actors and paths are user input; spreadsheets would run a leading =, +, -, @, tab or CR as a formula
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function formatAuditCsv(entries: AuditEntry[]): string {
+  const header = ['timestamp', 'actor', 'zone', 'connectionId', 'operation', 'paths', 'bytes', 'result', 'succeeded', 'skipped', 'failed', 'note', 'error']
+  const rows = entries.map(entry => [
+    entry.timestamp,
+    entry.actor,
+    entry.zone,
+    entry.connectionId,
+    entry.operation,
+    entry.paths.join(' -> '),
+    entry.bytes,
+    entry.result,
+    entry.counts?.succeeded,
+    entry.counts?.skipped,
+    entry.counts?.failed,
+    entry.note,
+    entry.error,
+  ].map(escapeCsv).join(','))
+  return `${[header.join(','), ...rows].join('\n')}\n`
+}
@@ -0,0 +1,46 @@
+import { OperationItemResult, OperationReport } from '../types/bunny'
+import { createReport, getErrorMessage } from './storage/operations'
+
+export interface BatchOptions<T> {
+  label: (item: T) => string // Path or name shown in the report
+  concurrency?: number
+  onProgress?: (completed: number, total: number) => void
+}
+
+// Tasks for folders return their own per-file report, which is merged in
+export type BatchTask<T> = (item: T) => Promise<OperationReport | void>
+
+/**
+ * Shared executor for bulk actions. Every item is attempted regardless of
+ * earlier failures, and the outcome is collected into one OperationReport.
+ */
+export async function runBatch<T>(items: T[], task: BatchTask<T>, options: BatchOptions<T>): Promise<OperationReport> {
+  const concurrency = Math.max(1, options.concurrency ?? 3)
+  const results: OperationItemResult[][] = items.map(() => [])
+  let nextIndex = 0
+  let completed = 0
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++
+      const item = items[index]
+      try {
+        const report = await task(item)
+        results[index] = report ? report.items : [{ path: options.label(item), status: 'done' }]
+      } catch (error) {
+        results[index] = [{ path: options.label(item), status: 'failed', error: getErrorMessage(error) }]
+      }
+      completed++
+      options.onProgress?.(completed, items.length)
+    }
+  }
+
+  const workers: Promise<void>[] = []
+  for (let i = 0; i < Math.min(concurrency, items.length); i++) {
+    workers.push(worker())
+  }
+  await Promise.all(workers)
+
+  // Keep the report in selection order even though items finish out of order
+  return createReport(results.reduce<OperationItemResult[]>((all, itemResults) => all.concat(itemResults), []))
+}
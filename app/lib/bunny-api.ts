@@ -1,5 +1,104 @@
 import axios from 'axios'
-import { BunnyConnection, BunnyFile, ImageOptimizationOptions } from '../types/bunny'
+import { sha256 } from '@noble/hashes/sha2'
+import { bytesToHex } from '@noble/hashes/utils'
+import { AuditListing, BunnyConnection, CdnSettings, DiagnosticCheck, RegionProbeResult, BunnyFile, ConflictPolicy, ImageOptimizationOptions, ManagedZoneInfo, OperationProgressEvent, OperationReport, TrashListing, TrashSettings, UploadOptions, UploadProgress, UploadResult, VersionListing, VersioningSettings } from '../types/bunny'
+
+const CHUNKED_UPLOAD_THRESHOLD = 32 * 1024 * 1024
+const CHUNK_SIZE = 8 * 1024 * 1024
+const RESUME_KEY_PREFIX = 'cloudos-upload:'
+
+interface ChunkedUploadStatus {
+  uploadId: string
+  chunkSize: number
+  totalChunks: number
+  receivedChunks: number[]
+  completed?: UploadResult | null // Set once the server has stored the file
+}
+
+export interface CopyOptions {
+  isDirectory?: boolean
+  targetConnectionId?: string // Copy into another connected zone; defaults to this one
+  conflict?: ConflictPolicy // Defaults to skip
+  move?: boolean // Delete each source file once it is copied, also across zones
+  onProgress?: (event: OperationProgressEvent) => void
+  signal?: AbortSignal
+}
+
+export interface VerifyOptions {
+  isDirectory?: boolean
+  onProgress?: (event: OperationProgressEvent) => void
+  signal?: AbortSignal
+}
+
+export interface ExtractOptions {
+  conflict?: ConflictPolicy
+  onUploadProgress?: (progress: UploadProgress) => void
+  onProgress?: (event: OperationProgressEvent) => void
+  signal?: AbortSignal
+}
+
+export interface AuditFilter {
+  text?: string
+  operation?: string
+  result?: string
+}
+
+export class BunnyAPIError extends Error {
+  status?: number
+
+  constructor(message: string, status?: number) {
+    super(message)
+    this.name = 'BunnyAPIError'
+    this.status = status
+  }
+}
+
+/**
+ * Collects newline-delimited progress events that may arrive split across
+ * chunks. `end` returns the report from the final 'done' event.
+ */
+function createProgressParser(onProgress?: (event: OperationProgressEvent) => void) {
+  let buffered = ''
+  let report: OperationReport | null = null
+  let failure: string | null = null
+
+  const handleLine = (line: string) => {
+    if (!line.trim()) return
+    const event: OperationProgressEvent = JSON.parse(line)
+    if (event.type === 'error') failure = event.error
+    if (event.type === 'done') report = event.report
+    onProgress?.(event)
+  }
+
+  return {
+    push(chunk: string) {
+      buffered += chunk
+      const lines = buffered.split('\n')
+      buffered = lines.pop() || ''
+      lines.forEach(handleLine)
+    },
+    end(): OperationReport {
+      handleLine(buffered)
+      buffered = ''
+      if (failure) throw new BunnyAPIError(failure)
+      if (!report) throw new BunnyAPIError('The operation ended unexpectedly')
+      return report
+    },
+  }
+}
+
+/**
+ * SHA-256 of a file or chunk as hex. The blob is hashed chunk by chunk as it
+ * is read, since Web Crypto only digests whole buffers and files can be large.
+ */
+export async function computeChecksum(blob: Blob): Promise<string> {
+  const hash = sha256.create()
+  const reader = blob.stream().getReader()
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    hash.update(chunk.value)
+  }
+  return bytesToHex(hash.digest())
+}
 
 export class BunnyAPI {
   private connection: BunnyConnection
@@ -8,29 +107,78 @@ export class BunnyAPI {
     this.connection = { ...connection } // Create a fresh copy
   }
 
-  private getBaseUrl(): string {
-    const host = this.connection.host || 'storage.bunnycdn.com'
-    const user = this.connection.user
-    // Remove protocol if present, we'll add https://
-    const cleanHost = host.replace(/^https?:\/\//, '')
-    return `https://${cleanHost}/${user}/`
+  static async listManagedZones(): Promise<{ zones: ManagedZoneInfo[]; managedOnly: boolean; localProvider: boolean }> {
+    try {
+      const response = await axios.get('/api/bunny/zones')
+      return response.data
+    } catch (error: any) {
+      console.error('Failed to list managed zones:', error)
+      return { zones: [], managedOnly: false, localProvider: false }
+    }
+  }
+
+  static async connectManagedZone(zoneId: string, userName?: string): Promise<{ success: boolean; connection?: BunnyConnection; error?: string }> {
+    try {
+      // The server resolves the zone's credentials from its own environment
+      const response = await axios.post('/api/bunny/test', { zone: zoneId, userName })
+      return response.data
+    } catch (error: any) {
+      console.error('Managed zone connection failed:', error)
+      if (error.response?.data) {
+        return error.response.data
+      }
+      return {
+        success: false,
+        error: error.message || 'Connection failed. Please try again.',
+      }
+    }
+  }
+
+  /** Runs the connection diagnostics against a managed zone, using the server's credentials. */
+  static async diagnoseManagedZone(zoneId: string, userName?: string): Promise<{ success: boolean; checks?: DiagnosticCheck[]; error?: string }> {
+    try {
+      const response = await axios.post('/api/bunny/test', { zone: zoneId, userName, diagnose: true })
+      return response.data
+    } catch (error: any) {
+      console.error('Diagnostics failed:', error)
+      if (error.response?.data) {
+        return error.response.data
+      }
+      return { success: false, error: error.message || 'Diagnostics failed. Please try again.' }
+    }
   }
 
-  private getHeaders() {
+  static async listSessionConnections(): Promise<BunnyConnection[]> {
+    try {
+      const response = await axios.get('/api/bunny/session')
+      return response.data.connections
+    } catch (error: any) {
+      console.error('Failed to list session connections:', error)
+      return []
+    }
+  }
+
+  private getConnectionParams() {
+    // Credentials live in the server-side session; requests only carry the connection ID
     return {
-      'AccessKey': this.connection.password,
-      'Content-Type': 'application/json',
-      'Accept': 'application/json',
+      connectionId: this.connection.id || '',
     }
   }
 
-  async testConnection(): Promise<{ success: boolean; error?: string }> {
+  async testConnection(): Promise<{ success: boolean; connectionId?: string; error?: string; suggestedHost?: string }> {
     try {
-      // Use API route to proxy the request server-side (avoids CORS issues)
+      // Use API route to proxy the request server-side (avoids CORS issues).
+      // On success the server stores the credentials in the session and returns a connection ID.
       const response = await axios.post('/api/bunny/test', {
+        provider: this.connection.provider || 'bunny',
         host: this.connection.host,
         user: this.connection.user,
         password: this.connection.password,
+        port: this.connection.port,
+        url: this.connection.url,
+        apiKey: this.connection.apiKey,
+        libraryId: this.connection.libraryId,
+        userName: this.connection.userName,
       })
       
       return response.data
@@ -49,14 +197,69 @@ export class BunnyAPI {
     }
   }
 
+  /**
+   * Checks the entered credentials step by step (list, write and delete a probe
+   * file, fetch it through the pull zone) without connecting.
+   */
+  async runDiagnostics(): Promise<{ success: boolean; checks?: DiagnosticCheck[]; error?: string }> {
+    try {
+      const response = await axios.post('/api/bunny/test', {
+        provider: this.connection.provider || 'bunny',
+        host: this.connection.host,
+        user: this.connection.user,
+        password: this.connection.password,
+        port: this.connection.port,
+        url: this.connection.url,
+        userName: this.connection.userName,
+        diagnose: true,
+      })
+      return response.data
+    } catch (error: any) {
+      console.error('Diagnostics failed:', error)
+      if (error.response?.data) {
+        return error.response.data
+      }
+      return { success: false, error: error.message || 'Diagnostics failed. Please try again.' }
+    }
+  }
+
+  /** Times a listing of the zone on `host` with this connection's credentials, without connecting. */
+  async probeHost(host: string): Promise<RegionProbeResult> {
+    try {
+      const response = await axios.post('/api/bunny/test', {
+        provider: this.connection.provider || 'bunny',
+        host: host,
+        user: this.connection.user,
+        password: this.connection.password,
+        probe: true,
+      })
+      return response.data
+    } catch (error: any) {
+      console.error('Region probe failed:', error)
+      return {
+        host,
+        ok: false,
+        error: error.response?.data?.error || error.message || 'Probe failed',
+      }
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    try {
+      await axios.delete('/api/bunny/session', {
+        params: this.getConnectionParams(),
+      })
+    } catch (error: any) {
+      console.error('Failed to close session:', error)
+    }
+  }
+
   async listFiles(path: string = '/'): Promise<BunnyFile[]> {
     try {
       // Use API route to proxy the request server-side (avoids CORS issues)
       const response = await axios.get('/api/bunny/files', {
         params: {
-          host: this.connection.host,
-          user: this.connection.user,
-          password: this.connection.password,
+          ...this.getConnectionParams(),
           path: path,
         },
       })
@@ -71,27 +274,194 @@ export class BunnyAPI {
     }
   }
 
-  async uploadFile(file: File, path: string = '/'): Promise<void> {
+  async uploadFile(file: File, path: string = '/', options: UploadOptions = {}): Promise<UploadResult> {
+    // Large files go through the resumable chunked protocol; callers don't need to care
+    if (file.size > CHUNKED_UPLOAD_THRESHOLD) {
+      return this.uploadFileChunked(file, path, options)
+    }
+    const name = options.name || file.name
+
     try {
-      // Use API route to proxy the request server-side (avoids CORS issues)
-      const formData = new FormData()
-      formData.append('host', this.connection.host)
-      formData.append('user', this.connection.user)
-      formData.append('password', this.connection.password)
-      formData.append('path', path)
-      formData.append('file', file)
-      
-      await axios.post('/api/bunny/files', formData, {
+      // Storage rejects the file if what arrives does not hash to the same value
+      const checksum = await computeChecksum(file)
+
+      // A paused request may have reached the server in full; sending it again would store a second copy with "keep both"
+      if (options.resumed && checksum) {
+        const stored = await this.findStoredUpload(file, path, name, checksum)
+        if (stored) return { path: stored, skipped: false }
+      }
+
+      // Send the raw file as the request body so the server can stream it to storage
+      const response = await axios.post('/api/bunny/files', file, {
+        params: {
+          ...this.getConnectionParams(),
+          path: path,
+          name: name,
+          conflict: options.conflict,
+          checksum: checksum,
+          operation: options.operation,
+        },
         headers: {
-          'Content-Type': 'multipart/form-data',
+          'Content-Type': 'application/octet-stream',
+        },
+        signal: options.signal,
+        onUploadProgress: (event) => {
+          options.onProgress?.({ loaded: event.loaded, total: event.total ?? file.size })
         },
       })
+      return { path: response.data.path, skipped: response.data.skipped }
     } catch (error: any) {
-      console.error('Failed to upload file:', error)
-      if (error.response?.data?.error) {
-        throw new Error(error.response.data.error)
+      throw this.toUploadError(error)
+    }
+  }
+
+  private toUploadError(error: any): BunnyAPIError {
+    if (axios.isCancel(error)) {
+      return new BunnyAPIError('Upload cancelled')
+    }
+    console.error('Failed to upload file:', error)
+    if (error.response?.data?.error) {
+      return new BunnyAPIError(error.response.data.error, error.response.status)
+    }
+    return new BunnyAPIError('Failed to upload file', error.response?.status)
+  }
+
+  /** Path of a file at the upload target, or a "keep both" copy of it, with the same content. */
+  private async findStoredUpload(file: File, path: string, name: string, checksum: string): Promise<string | null> {
+    const target = `${path.endsWith('/') ? path : `${path}/`}${name}`
+    const separator = target.lastIndexOf('/')
+    const folder = target.slice(0, separator + 1)
+    const fileName = target.slice(separator + 1)
+    const dot = fileName.lastIndexOf('.')
+    const base = dot > 0 ? fileName.slice(0, dot) : fileName
+    const extension = dot > 0 ? fileName.slice(dot) : ''
+
+    let files: BunnyFile[]
+    try {
+      files = await this.listFiles(folder)
+    } catch {
+      return null // The folder may not exist yet
+    }
+
+    // "Keep both" copies are named "name (1).ext", "name (2).ext", …
+    const isCopyName = (objectName: string) => objectName.startsWith(`${base} (`)
+      && objectName.endsWith(extension)
+      && /^ \(\d+\)$/.test(objectName.slice(base.length, objectName.length - extension.length))
+    const match = files.find(item =>
+      !item.IsDirectory
+      && item.Length === file.size
+      && item.Checksum?.toLowerCase() === checksum
+      && (item.ObjectName === fileName || isCopyName(item.ObjectName))
+    )
+    return match ? `${folder}${match.ObjectName}` : null
+  }
+
+  private getResumeKey(file: File, path: string, name: string): string {
+    const { provider = 'bunny', managedZone, host, user } = this.connection
+    return `${RESUME_KEY_PREFIX}${[provider, managedZone || host, user, path, name, file.size, file.lastModified].join(':')}`
+  }
+
+  /** Resolves to an UploadResult instead when the server skips an existing file up front. */
+  private async startChunkedUpload(file: File, path: string, name: string, resumeKey: string, options: UploadOptions): Promise<ChunkedUploadStatus | UploadResult> {
+    // Resume an upload started before a reload or dropped connection, if the server still has it
+    const savedId = window.localStorage.getItem(resumeKey)
+    if (savedId) {
+      try {
+        const response = await axios.get(`/api/bunny/uploads/${savedId}`, {
+          params: this.getConnectionParams(),
+        })
+        // The request completing it was interrupted after the server had finished
+        if (response.data.completed) {
+          window.localStorage.removeItem(resumeKey)
+          return response.data.completed
+        }
+        return response.data
+      } catch (error: any) {
+        if (error.response?.status !== 404) throw error
+        window.localStorage.removeItem(resumeKey)
+      }
+    }
+
+    const response = await axios.post('/api/bunny/uploads', {
+      ...this.getConnectionParams(),
+      path: path,
+      name: name,
+      size: file.size,
+      chunkSize: CHUNK_SIZE,
+      conflict: options.conflict,
+      operation: options.operation,
+    })
+    if (response.data.skipped) {
+      return { path: response.data.path, skipped: true }
+    }
+    window.localStorage.setItem(resumeKey, response.data.uploadId)
+    return response.data
+  }
+
+  private async uploadFileChunked(file: File, path: string, options: UploadOptions): Promise<UploadResult> {
+    const name = options.name || file.name
+    const resumeKey = this.getResumeKey(file, path, name)
+
+    try {
+      const upload = await this.startChunkedUpload(file, path, name, resumeKey, options)
+      if (!('uploadId' in upload)) return upload
+
+      const received = new Set(upload.receivedChunks)
+      const chunkLength = (index: number) => Math.min(upload.chunkSize, file.size - index * upload.chunkSize)
+
+      let uploadedBytes = upload.receivedChunks.reduce((total, index) => total + chunkLength(index), 0)
+      options.onProgress?.({ loaded: uploadedBytes, total: file.size })
+
+      for (let index = 0; index < upload.totalChunks; index++) {
+        if (received.has(index)) continue
+
+        const start = index * upload.chunkSize
+        const chunk = file.slice(start, start + chunkLength(index))
+        // Each chunk is verified on arrival; the server hashes the assembled file for storage
+        const checksum = await computeChecksum(chunk)
+        await axios.put(`/api/bunny/uploads/${upload.uploadId}`, chunk, {
+          params: {
+            ...this.getConnectionParams(),
+            index: index,
+            checksum: checksum,
+          },
+          headers: {
+            'Content-Type': 'application/octet-stream',
+          },
+          signal: options.signal,
+          onUploadProgress: (event) => {
+            options.onProgress?.({ loaded: uploadedBytes + event.loaded, total: file.size })
+          },
+        })
+        uploadedBytes += chunk.size
       }
-      throw new Error('Failed to upload file')
+
+      // All chunks are staged; the server now streams the assembled file to storage
+      const response = await axios.post(`/api/bunny/uploads/${upload.uploadId}`, null, {
+        params: this.getConnectionParams(),
+        signal: options.signal,
+      })
+      window.localStorage.removeItem(resumeKey)
+      return { path: response.data.path, skipped: response.data.skipped }
+    } catch (error: any) {
+      throw this.toUploadError(error)
+    }
+  }
+
+  /** Drops the staged chunks of an interrupted upload so it starts over next time. */
+  async discardUpload(file: File, path: string = '/', name: string = file.name): Promise<void> {
+    const resumeKey = this.getResumeKey(file, path, name)
+    const savedId = window.localStorage.getItem(resumeKey)
+    if (!savedId) return
+
+    window.localStorage.removeItem(resumeKey)
+    try {
+      await axios.delete(`/api/bunny/uploads/${savedId}`, {
+        params: this.getConnectionParams(),
+      })
+    } catch (error: any) {
+      // Stale uploads are cleaned up on the server eventually anyway
+      console.error('Failed to abort upload:', error)
     }
   }
 
@@ -100,9 +470,7 @@ export class BunnyAPI {
       // Use API route to proxy the request server-side (avoids CORS issues)
       await axios.delete('/api/bunny/files', {
         params: {
-          host: this.connection.host,
-          user: this.connection.user,
-          password: this.connection.password,
+          ...this.getConnectionParams(),
           path: path,
         },
       })
@@ -115,14 +483,412 @@ export class BunnyAPI {
     }
   }
 
+  /** Walks a folder with listFiles and returns every file below it with its full path. */
+  async listFilesRecursive(path: string): Promise<{ path: string; file: BunnyFile }[]> {
+    const root = path.endsWith('/') ? path : `${path}/`
+    const results: { path: string; file: BunnyFile }[] = []
+
+    const walk = async (folder: string) => {
+      const files = await this.listFiles(folder)
+      for (const file of files) {
+        if (file.IsDirectory) {
+          await walk(`${folder}${file.ObjectName}/`)
+        } else {
+          results.push({ path: `${folder}${file.ObjectName}`, file })
+        }
+      }
+    }
+
+    await walk(root)
+    return results
+  }
+
+  /**
+   * Deletes a folder and everything below it. The server requires the folder's
+   * name as confirmation and reports the result for each file.
+   */
+  async deleteFolder(path: string, confirmName: string): Promise<OperationReport> {
+    try {
+      const response = await axios.delete('/api/bunny/files', {
+        params: {
+          ...this.getConnectionParams(),
+          path: path,
+          recursive: '1',
+          confirm: confirmName,
+        },
+      })
+      return response.data
+    } catch (error: any) {
+      console.error('Failed to delete folder:', error)
+      if (error.response?.data?.error) {
+        throw new Error(error.response.data.error)
+      }
+      throw new Error('Failed to delete folder')
+    }
+  }
+
+  async getTrash(): Promise<TrashListing> {
+    try {
+      const response = await axios.get('/api/bunny/trash', {
+        params: this.getConnectionParams(),
+      })
+      return response.data
+    } catch (error: any) {
+      console.error('Failed to load trash:', error)
+      if (error.response?.data?.error) {
+        throw new Error(error.response.data.error)
+      }
+      throw new Error('Failed to load trash')
+    }
+  }
+
+  async updateTrashSettings(settings: TrashSettings): Promise<TrashSettings> {
+    try {
+      const response = await axios.put('/api/bunny/trash', {
+        ...this.getConnectionParams(),
+        ...settings,
+      })
+      return response.data
+    } catch (error: any) {
+      console.error('Failed to update trash settings:', error)
+      if (error.response?.data?.error) {
+        throw new Error(error.response.data.error)
+      }
+      throw new Error('Failed to update trash settings')
+    }
+  }
+
+  async restoreFromTrash(ids: string[], conflict?: ConflictPolicy): Promise<OperationReport> {
+    try {
+      const response = await axios.post('/api/bunny/trash/restore', {
+        ...this.getConnectionParams(),
+        ids: ids,
+        conflict: conflict,
+      })
+      return response.data
+    } catch (error: any) {
+      console.error('Failed to restore from trash:', error)
+      if (error.response?.data?.error) {
+        throw new Error(error.response.data.error)
+      }
+      throw new Error('Failed to restore from trash')
+    }
+  }
+
+  /** Permanently deletes the given trash items, or everything in the trash when no IDs are passed. */
+  async purgeTrash(ids?: string[]): Promise<OperationReport> {
+    try {
+      const response = await axios.delete('/api/bunny/trash', {
+        params: {
+          ...this.getConnectionParams(),
+          ...(ids ? { ids: ids.join(',') } : { all: '1' }),
+        },
+      })
+      return response.data
+    } catch (error: any) {
+      console.error('Failed to purge trash:', error)
+      if (error.response?.data?.error) {
+        throw new Error(error.response.data.error)
+      }
+      throw new Error('Failed to purge trash')
+    }
+  }
+
+  /** Versioning settings of the zone, plus the stored versions of `path` when one is given. */
+  async getVersions(path?: string): Promise<VersionListing> {
+    try {
+      const response = await axios.get('/api/bunny/versions', {
+        params: {
+          ...this.getConnectionParams(),
+          path: path,
+        },
+      })
+      return response.data
+    } catch (error: any) {
+      console.error('Failed to load versions:', error)
+      if (error.response?.data?.error) {
+        throw new Error(error.response.data.error)
+      }
+      throw new Error('Failed to load versions')
+    }
+  }
+
+  async updateVersioningSettings(settings: VersioningSettings): Promise<VersioningSettings> {
+    try {
+      const response = await axios.put('/api/bunny/versions', {
+        ...this.getConnectionParams(),
+        ...settings,
+      })
+      return response.data
+    } catch (error: any) {
+      console.error('Failed to update versioning settings:', error)
+      if (error.response?.data?.error) {
+        throw new Error(error.response.data.error)
+      }
+      throw new Error('Failed to update versioning settings')
+    }
+  }
+
+  async restoreVersion(path: string, versionId: string): Promise<void> {
+    try {
+      await axios.post('/api/bunny/versions/restore', {
+        ...this.getConnectionParams(),
+        path: path,
+        versionId: versionId,
+      })
+    } catch (error: any) {
+      console.error('Failed to restore version:', error)
+      if (error.response?.data?.error) {
+        throw new Error(error.response.data.error)
+      }
+      throw new Error('Failed to restore version')
+    }
+  }
+
+  /** Purges the pull zone URLs of the given paths from the CDN cache; folder paths end in '/' and purge everything below them. */
+  async purgeCache(paths: string[]): Promise<OperationReport> {
+    try {
+      const response = await axios.post('/api/bunny/purge', {
+        ...this.getConnectionParams(),
+        paths: paths,
+      })
+      return response.data
+    } catch (error: any) {
+      console.error('Failed to purge cache:', error)
+      if (error.response?.data?.error) {
+        throw new Error(error.response.data.error)
+      }
+      throw new Error('Failed to purge cache')
+    }
+  }
+
+  async getCdnSettings(): Promise<CdnSettings> {
+    try {
+      const response = await axios.get('/api/bunny/purge', {
+        params: this.getConnectionParams(),
+      })
+      return response.data
+    } catch (error: any) {
+      console.error('Failed to load CDN settings:', error)
+      if (error.response?.data?.error) {
+        throw new Error(error.response.data.error)
+      }
+      throw new Error('Failed to load CDN settings')
+    }
+  }
+
+  async updateCdnSettings(settings: CdnSettings): Promise<CdnSettings> {
+    try {
+      const response = await axios.put('/api/bunny/purge', {
+        ...this.getConnectionParams(),
+        ...settings,
+      })
+      return response.data
+    } catch (error: any) {
+      console.error('Failed to update CDN settings:', error)
+      if (error.response?.data?.error) {
+        throw new Error(error.response.data.error)
+      }
+      throw new Error('Failed to update CDN settings')
+    }
+  }
+
+  /** Audit entries of the connected zone that match the filter, newest first. */
+  async getAuditLog(filter: AuditFilter = {}, limit?: number): Promise<AuditListing> {
+    try {
+      const response = await axios.get('/api/bunny/audit', {
+        params: {
+          ...this.getConnectionParams(),
+          q: filter.text || undefined,
+          operation: filter.operation || undefined,
+          result: filter.result || undefined,
+          limit: limit,
+        },
+      })
+      return response.data
+    } catch (error: any) {
+      console.error('Failed to load activity:', error)
+      if (error.response?.data?.error) {
+        throw new Error(error.response.data.error)
+      }
+      throw new Error('Failed to load activity')
+    }
+  }
+
+  /** URL that downloads every audit entry matching the filter as a CSV or JSON file. */
+  getAuditExportUrl(format: 'csv' | 'json', filter: AuditFilter = {}): string {
+    const params = new URLSearchParams({ ...this.getConnectionParams(), format })
+    if (filter.text) params.set('q', filter.text)
+    if (filter.operation) params.set('operation', filter.operation)
+    if (filter.result) params.set('result', filter.result)
+    return `/api/bunny/audit?${params.toString()}`
+  }
+
+  /**
+   * Returns the subset of paths that already exist, keyed by path, so callers
+   * can show conflicts before starting an upload, move or copy.
+   */
+  async findExisting(paths: string[]): Promise<Record<string, BunnyFile>> {
+    if (paths.length === 0) return {}
+    try {
+      const response = await axios.post('/api/bunny/exists', {
+        ...this.getConnectionParams(),
+        paths: paths,
+      })
+      return response.data.existing
+    } catch (error: any) {
+      console.error('Failed to check existing files:', error)
+      if (error.response?.data?.error) {
+        throw new Error(error.response.data.error)
+      }
+      throw new Error('Failed to check existing files')
+    }
+  }
+
+  private async move(from: string, to: string, isDirectory: boolean, conflict?: ConflictPolicy): Promise<OperationReport> {
+    try {
+      const response = await axios.post('/api/bunny/move', {
+        ...this.getConnectionParams(),
+        from: from,
+        to: to,
+        isDirectory: isDirectory,
+        conflict: conflict,
+      })
+      return response.data
+    } catch (error: any) {
+      console.error('Failed to move:', error)
+      if (error.response?.data?.error) {
+        throw new Error(error.response.data.error)
+      }
+      throw new Error('Failed to move')
+    }
+  }
+
+  /** Moves or renames a single file. */
+  async moveFile(from: string, to: string, conflict?: ConflictPolicy): Promise<OperationReport> {
+    return this.move(from, to, false, conflict)
+  }
+
+  /** Moves or renames a folder with everything below it; the report lists each file. */
+  async moveFolder(from: string, to: string, conflict?: ConflictPolicy): Promise<OperationReport> {
+    return this.move(from, to, true, conflict)
+  }
+
+  /**
+   * Copies a file or folder server-side, optionally into another connected
+   * zone. Progress events arrive while the copy runs.
+   */
+  async copy(from: string, to: string, options: CopyOptions = {}): Promise<OperationReport> {
+    return this.postWithProgress('/api/bunny/copy', {
+      ...this.getConnectionParams(),
+      targetConnectionId: options.targetConnectionId,
+      from: from,
+      to: to,
+      isDirectory: options.isDirectory ?? false,
+      conflict: options.conflict,
+      move: options.move ?? false,
+    }, options.move ? 'Failed to move' : 'Failed to copy', options)
+  }
+
+  /**
+   * Recomputes the SHA-256 of a file, or of every file below a folder, on the
+   * server and compares it with the stored checksum. Mismatches are failed
+   * items; files without a stored checksum are skipped.
+   */
+  async verifyIntegrity(path: string, options: VerifyOptions = {}): Promise<OperationReport> {
+    return this.postWithProgress('/api/bunny/verify', {
+      ...this.getConnectionParams(),
+      path: path,
+      isDirectory: options.isDirectory ?? false,
+    }, 'Failed to verify', options)
+  }
+
+  /** Posts JSON to a route that streams newline-delimited progress events, reading them as they arrive. */
+  private async postWithProgress(
+    url: string,
+    body: Record<string, unknown>,
+    fallbackError: string,
+    options: { onProgress?: (event: OperationProgressEvent) => void; signal?: AbortSignal }
+  ): Promise<OperationReport> {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal: options.signal,
+    })
+
+    if (!response.ok || !response.body) {
+      const data = await response.json().catch(() => null)
+      throw new BunnyAPIError(data?.error || fallbackError, response.status)
+    }
+
+    const parser = createProgressParser(options.onProgress)
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder()
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+      parser.push(decoder.decode(value, { stream: true }))
+    }
+    return parser.end()
+  }
+
+  /**
+   * Uploads a ZIP archive and extracts it on the server into `path`. Upload
+   * progress comes from the request; extraction progress is streamed back as
+   * newline-delimited events while the response is still arriving.
+   */
+  async extractArchive(file: File, path: string, options: ExtractOptions = {}): Promise<OperationReport> {
+    const parser = createProgressParser(options.onProgress)
+    let consumed = 0
+
+    try {
+      const response = await axios.post('/api/bunny/extract', file, {
+        params: {
+          ...this.getConnectionParams(),
+          path: path,
+          conflict: options.conflict ?? 'skip',
+        },
+        headers: {
+          'Content-Type': 'application/zip',
+        },
+        responseType: 'text',
+        signal: options.signal,
+        onUploadProgress: (event) => {
+          options.onUploadProgress?.({ loaded: event.loaded, total: event.total ?? file.size })
+        },
+        onDownloadProgress: (event) => {
+          const text: string = (event.event?.target as XMLHttpRequest | undefined)?.responseText || ''
+          parser.push(text.slice(consumed))
+          consumed = text.length
+        },
+      })
+      parser.push(String(response.data).slice(consumed))
+    } catch (error: any) {
+      console.error('Failed to extract archive:', error)
+      if (axios.isCancel(error)) {
+        throw new BunnyAPIError('Extraction cancelled')
+      }
+      // Error responses arrive as text because of responseType; proxies may answer with HTML instead of JSON
+      let message: string | undefined
+      if (typeof error.response?.data === 'string') {
+        try {
+          message = JSON.parse(error.response.data || '{}').error
+        } catch {
+          message = undefined
+        }
+      }
+      throw new BunnyAPIError(message || 'Failed to extract archive', error.response?.status)
+    }
+    return parser.end()
+  }
+
   async downloadFile(path: string): Promise<Blob> {
     try {
       // Use API route to proxy the request server-side (avoids CORS issues)
       const response = await axios.get('/api/bunny/download', {
         params: {
-          host: this.connection.host,
-          user: this.connection.user,
-          password: this.connection.password,
+          ...this.getConnectionParams(),
           path: path,
         },
         responseType: 'blob',
@@ -137,6 +903,25 @@ export class BunnyAPI {
     }
   }
 
+  /**
+   * URL of the streaming download route. The session cookie authenticates it,
+   * so it can be used directly as a link or as the src of media elements.
+   */
+  getDownloadUrl(path: string, options: { inline?: boolean } = {}): string {
+    const params = new URLSearchParams({ ...this.getConnectionParams(), path })
+    if (options.inline) params.set('inline', '1')
+    return `/api/bunny/download?${params.toString()}`
+  }
+
+  /** URL of a ZIP archive streamed by the server; folder paths must end in '/'. */
+  getZipDownloadUrl(paths: string[], options: { flatten?: boolean; excludeKeep?: boolean } = {}): string {
+    const params = new URLSearchParams(this.getConnectionParams())
+    paths.forEach(path => params.append('path', path))
+    if (options.flatten) params.set('flatten', '1')
+    if (options.excludeKeep) params.set('excludeKeep', '1')
+    return `/api/bunny/zip?${params.toString()}`
+  }
+
   getOptimizedImageUrl(path: string, options: ImageOptimizationOptions): string {
     const baseUrl = this.connection.url
     let optimizedUrl = `${baseUrl}${path}`
@@ -190,7 +975,8 @@ export class BunnyAPI {
             }
           },
           `image/${format}`,
-          quality
+          // Canvas expects 0-1 while the optimizer UI works in percent
+          quality > 1 ? quality / 100 : quality
         )
       }
 
@@ -0,0 +1,90 @@
+import axios from 'axios'
+import { AuditOperation, BunnyConnection, CdnSettings, OperationItemResult, OperationReport } from '../types/bunny'
+import { audited, summarizeReport } from './audit-log'
+import { SessionConnection } from './session'
+import { createStorageProvider, StorageError, StorageProvider } from './storage'
+import { createReport, getErrorMessage, readJsonObject, writeJsonObject } from './storage/operations'
+
+/**
+ * Purges pull zone URLs from Bunny's CDN cache through the account API, so
+ * replaced or deleted files stop being served from the edge. Whether that
+ * happens after every change is a zone setting kept in /.cdn/settings.json.
+ */
+
+export const CDN_FOLDER = '/.cdn/'
+const SETTINGS_PATH = `${CDN_FOLDER}settings.json`
+const PURGE_TIMEOUT_MS = 30000
+
+// Configurable so a local stand-in for the account API can be used in tests
+export function getBunnyApiBaseUrl(): string {
+  return (process.env.BUNNY_API_BASE_URL || 'https://api.bunny.net').replace(/\/+$/, '')
+}
+
+/** Pull zone URL of a storage path; folder paths end in '/' and become wildcard URLs covering their contents. */
+export function toPullZoneUrl(pullZoneUrl: string, path: string): string {
+  const base = pullZoneUrl.replace(/\/+$/, '')
+  const encoded = path.split('/').map(encodeURIComponent).join('/')
+  const url = `${base}${encoded.startsWith('/') ? '' : '/'}${encoded}`
+  return url.endsWith('/') ? `${url}*` : url
+}
+
+async function purgeUrl(apiKey: string, url: string): Promise<OperationItemResult> {
+  try {
+    await axios.post(`${getBunnyApiBaseUrl()}/purge`, null, {
+      params: { url, async: false },
+      headers: { 'AccessKey': apiKey },
+      timeout: PURGE_TIMEOUT_MS,
+    })
+    return { path: url, status: 'done' }
+  } catch (error: any) {
+    const status = error.response?.status
+    const message = status === 401
+      ? 'The API key was refused'
+      : status ? `${status} ${error.response.statusText}` : getErrorMessage(error)
+    return { path: url, status: 'failed', error: message }
+  }
+}
+
+/** Purges the pull zone URLs of the given storage paths, reporting each URL. */
+export async function purgePaths(connection: BunnyConnection, paths: string[]): Promise<OperationReport> {
+  if (!connection.apiKey) {
+    throw new StorageError('This connection has no API key, so the CDN cache cannot be purged', 400)
+  }
+  if (!connection.url) {
+    throw new StorageError('This connection has no pull zone URL, so the CDN cache cannot be purged', 400)
+  }
+
+  const urls = Array.from(new Set(paths.map(path => toPullZoneUrl(connection.url, path))))
+  const items: OperationItemResult[] = []
+  for (const url of urls) {
+    items.push(await purgeUrl(connection.apiKey, url))
+  }
+  return createReport(items)
+}
+
+export async function getCdnSettings(provider: StorageProvider): Promise<CdnSettings> {
+  const settings = await readJsonObject<Partial<CdnSettings>>(provider, SETTINGS_PATH)
+  return { purgeAfterChanges: false, ...settings }
+}
+
+export async function updateCdnSettings(provider: StorageProvider, settings: CdnSettings): Promise<CdnSettings> {
+  await writeJsonObject(provider, SETTINGS_PATH, settings)
+  return settings
+}
+
+/**
+ * Purges the paths a change touched when the zone has purging after changes
+ * turned on, and records the purge in the audit log. The mutating routes call
+ * this once their change is done; `report` skips the purge when nothing
+ * changed, and a failed purge never fails the change itself.
+ */
+export async function purgeAfterChange(connection: SessionConnection, operation: AuditOperation, paths: string[], report?: OperationReport): Promise<void> {
+  if (!connection.apiKey || !connection.url || report?.succeeded === 0) return
+
+  try {
+    if (!(await getCdnSettings(createStorageProvider(connection))).purgeAfterChanges) return
+    await audited(connection, { operation: 'purgeCache', paths, note: `After ${operation}` }, () => purgePaths(connection, paths), summarizeReport)
+  } catch (error) {
+    console.error('Failed to purge the CDN cache after a change:', error)
+  }
+}
@@ -0,0 +1,245 @@
+import { promises as fs, createReadStream, createWriteStream } from 'fs'
+import os from 'os'
+import nodePath from 'path'
+import { PassThrough, Readable, Transform } from 'stream'
+import { pipeline } from 'stream/promises'
+import { v4 as uuidv4 } from 'uuid'
+import { BunnyConnection, ConflictPolicy } from '../types/bunny'
+import { getZoneKey } from './storage'
+import { createHashingStream, hashStream, normalizeChecksum } from './storage/checksum'
+
+/**
+ * Staging area for resumable uploads. Chunks are written to local disk under
+ * an upload ID and streamed to storage as one object once all have arrived.
+ */
+
+const MIN_CHUNK_SIZE = 1024 * 1024
+const MAX_CHUNK_SIZE = 64 * 1024 * 1024
+const MAX_UPLOAD_SIZE = 10 * 1024 * 1024 * 1024 // Staged on local disk until the upload completes
+const STALE_AFTER_MS = 24 * 60 * 60 * 1000
+const UPLOAD_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/
+
+export interface ChunkedUpload {
+  id: string
+  zoneKey: string
+  path: string
+  size: number
+  chunkSize: number
+  totalChunks: number
+  conflict?: ConflictPolicy // Applied when the upload completes; older manifests overwrite
+  operation?: 'upload' | 'optimize' // Recorded in the audit log when the upload completes
+  createdAt: string
+}
+
+export interface ChunkedUploadResult {
+  path: string
+  skipped: boolean
+}
+
+export class ChunkedUploadError extends Error {
+  status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.name = 'ChunkedUploadError'
+    this.status = status
+  }
+}
+
+export function getStagingRoot(): string {
+  return nodePath.resolve(process.env.UPLOAD_STAGING_DIR || nodePath.join(os.tmpdir(), 'cloudos-uploads'))
+}
+
+function getUploadDir(id: string): string {
+  if (!UPLOAD_ID_PATTERN.test(id)) {
+    throw new ChunkedUploadError('Invalid upload ID', 400)
+  }
+  return nodePath.join(getStagingRoot(), id)
+}
+
+function getChunkPath(upload: ChunkedUpload, index: number): string {
+  return nodePath.join(getUploadDir(upload.id), `${index}.part`)
+}
+
+/**
+ * A pass-through stream that fails with `createError` as soon as more than
+ * `limit` bytes flow through it, before the excess reaches the disk.
+ */
+export function createSizeLimitStream(limit: number, createError: () => Error): Transform {
+  let size = 0
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      size += chunk.length
+      callback(size > limit ? createError() : null, chunk)
+    },
+  })
+}
+
+export function getExpectedChunkLength(upload: ChunkedUpload, index: number): number {
+  return index === upload.totalChunks - 1
+    ? upload.size - upload.chunkSize * (upload.totalChunks - 1)
+    : upload.chunkSize
+}
+
+export async function createChunkedUpload(connection: BunnyConnection, path: string, size: number, chunkSize: number, conflict: ConflictPolicy, operation: 'upload' | 'optimize'): Promise<ChunkedUpload> {
+  if (!Number.isSafeInteger(size) || size < 0) {
+    throw new ChunkedUploadError('Invalid file size', 400)
+  }
+  if (size > MAX_UPLOAD_SIZE) {
+    throw new ChunkedUploadError(`Files larger than ${MAX_UPLOAD_SIZE / 1024 / 1024 / 1024} GB cannot be uploaded`, 413)
+  }
+
+  await cleanupStaleUploads()
+
+  const effectiveChunkSize = Math.min(MAX_CHUNK_SIZE, Math.max(MIN_CHUNK_SIZE, Math.floor(chunkSize) || MIN_CHUNK_SIZE))
+  const upload: ChunkedUpload = {
+    id: uuidv4(),
+    zoneKey: getZoneKey(connection),
+    path,
+    size,
+    chunkSize: effectiveChunkSize,
+    totalChunks: Math.max(1, Math.ceil(size / effectiveChunkSize)),
+    conflict,
+    operation,
+    createdAt: new Date().toISOString(),
+  }
+
+  const dir = getUploadDir(upload.id)
+  await fs.mkdir(dir, { recursive: true })
+  await fs.writeFile(nodePath.join(dir, 'manifest.json'), JSON.stringify(upload))
+  return upload
+}
+
+/**
+ * Loads an upload and checks that it belongs to the given connection's storage
+ * zone. Zones are compared rather than sessions, so an upload can be resumed
+ * after a reload and reconnect.
+ */
+export async function getChunkedUpload(id: string, connection: BunnyConnection): Promise<ChunkedUpload> {
+  let upload: ChunkedUpload
+  try {
+    upload = JSON.parse(await fs.readFile(nodePath.join(getUploadDir(id), 'manifest.json'), 'utf8'))
+  } catch (error) {
+    if (error instanceof ChunkedUploadError) throw error
+    throw new ChunkedUploadError('Upload not found or expired', 404)
+  }
+
+  if (upload.zoneKey !== getZoneKey(connection)) {
+    throw new ChunkedUploadError('Upload not found or expired', 404)
+  }
+  return upload
+}
+
+export async function getReceivedChunks(upload: ChunkedUpload): Promise<number[]> {
+  const entries = await fs.readdir(getUploadDir(upload.id))
+  return entries
+    .filter(name => /^\d+\.part$/.test(name))
+    .map(name => parseInt(name, 10))
+    .sort((a, b) => a - b)
+}
+
+/** Stores one chunk; with a SHA-256 `checksum` a chunk corrupted on the way is rejected. */
+export async function writeChunk(upload: ChunkedUpload, index: number, body: Readable, checksum?: string): Promise<void> {
+  if (!Number.isInteger(index) || index < 0 || index >= upload.totalChunks) {
+    throw new ChunkedUploadError('Invalid chunk index', 400)
+  }
+
+  const target = getChunkPath(upload, index)
+  const partial = `${target}.${uuidv4()}.tmp`
+  const expected = getExpectedChunkLength(upload, index)
+
+  try {
+    const hashing = createHashingStream()
+    const limit = createSizeLimitStream(expected, () => new ChunkedUploadError(`Chunk ${index} is larger than ${expected} bytes`, 400))
+    await pipeline(body, limit, hashing.stream, createWriteStream(partial))
+    const { size } = await fs.stat(partial)
+    if (size !== expected) {
+      throw new ChunkedUploadError(`Chunk ${index} has ${size} bytes, expected ${expected}`, 400)
+    }
+    if (checksum && normalizeChecksum(checksum) !== hashing.digest()) {
+      throw new ChunkedUploadError(`Chunk ${index} was corrupted in transfer (checksum mismatch)`, 400)
+    }
+    // Only complete chunks get their final name, so a dropped connection never leaves a half chunk behind
+    await fs.rename(partial, target)
+  } catch (error) {
+    await fs.rm(partial, { force: true })
+    throw error
+  }
+}
+
+/** Streams all chunks in order as one continuous body. */
+export function readAssembledUpload(upload: ChunkedUpload): Readable {
+  const output = new PassThrough()
+
+  const run = async () => {
+    for (let index = 0; index < upload.totalChunks; index++) {
+      await pipeline(createReadStream(getChunkPath(upload, index)), output, { end: false })
+    }
+    output.end()
+  }
+  run().catch(error => output.destroy(error))
+
+  return output
+}
+
+/** SHA-256 of the assembled file, sent to storage so the final transfer is verified too. */
+export function hashAssembledUpload(upload: ChunkedUpload): Promise<string> {
+  return hashStream(readAssembledUpload(upload))
+}
+
+/**
+ * Claims the completion of an upload. Returns false while another request is
+ * completing it, so an interrupted client that retries never stores it twice.
+ */
+export async function beginCompletion(upload: ChunkedUpload): Promise<boolean> {
+  try {
+    await fs.writeFile(nodePath.join(getUploadDir(upload.id), 'completing'), '', { flag: 'wx' })
+    return true
+  } catch (error: any) {
+    if (error.code === 'EEXIST') return false
+    throw error
+  }
+}
+
+/** Releases the claim after a failed completion so the client can try again. */
+export async function abandonCompletion(upload: ChunkedUpload): Promise<void> {
+  await fs.rm(nodePath.join(getUploadDir(upload.id), 'completing'), { force: true })
+}
+
+/**
+ * Records where a completed upload was stored and drops its chunks. The
+ * manifest stays until it is stale, so a client that missed the response can
+ * still learn the result.
+ */
+export async function finishCompletion(upload: ChunkedUpload, result: ChunkedUploadResult): Promise<void> {
+  await fs.writeFile(nodePath.join(getUploadDir(upload.id), 'result.json'), JSON.stringify(result))
+  await Promise.all((await getReceivedChunks(upload)).map(index => fs.rm(getChunkPath(upload, index), { force: true })))
+}
+
+export async function getCompletion(upload: ChunkedUpload): Promise<ChunkedUploadResult | null> {
+  try {
+    return JSON.parse(await fs.readFile(nodePath.join(getUploadDir(upload.id), 'result.json'), 'utf8'))
+  } catch {
+    return null
+  }
+}
+
+export async function removeChunkedUpload(id: string): Promise<void> {
+  await fs.rm(getUploadDir(id), { recursive: true, force: true })
+}
+
+async function cleanupStaleUploads(): Promise<void> {
+  try {
+    const root = getStagingRoot()
+    const entries = await fs.readdir(root)
+    const now = Date.now()
+    await Promise.all(entries.filter(name => UPLOAD_ID_PATTERN.test(name)).map(async name => {
+      const { mtimeMs } = await fs.stat(nodePath.join(root, name))
+      if (now - mtimeMs > STALE_AFTER_MS) {
+        await removeChunkedUpload(name)
+      }
+    }))
+  } catch {
+    // Staging directory does not exist yet
+  }
+}
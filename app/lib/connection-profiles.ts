@@ -0,0 +1,175 @@
+import { v4 as uuidv4 } from 'uuid'
+import { BunnyConnection, ConnectionProfile, EncryptedSecret } from '../types/bunny'
+import { BunnyAPI } from './bunny-api'
+
+/**
+ * Connection profiles saved in this browser's localStorage. The access key and
+ * API key are encrypted with a key derived from a user-supplied passphrase, so
+ * the stored profiles are useless without it.
+ */
+
+const PROFILES_KEY = 'cloudos-connection-profiles'
+const PBKDF2_ITERATIONS = 250000
+
+export interface ProfileSecrets {
+  password: string
+  apiKey?: string
+}
+
+export class ProfilePassphraseError extends Error {
+  constructor(message = 'Wrong passphrase') {
+    super(message)
+    this.name = 'ProfilePassphraseError'
+  }
+}
+
+// Kept in memory only, so switching between profiles doesn't ask again until the page reloads
+let rememberedPassphrase: string | null = null
+
+/** Most recently used first; profiles never used sort by name after them. */
+export function loadProfiles(): ConnectionProfile[] {
+  let profiles: ConnectionProfile[]
+  try {
+    profiles = JSON.parse(window.localStorage.getItem(PROFILES_KEY) || '[]')
+  } catch {
+    profiles = []
+  }
+  if (!Array.isArray(profiles)) return []
+
+  return profiles.sort((a, b) => {
+    if (a.lastUsedAt || b.lastUsedAt) return (b.lastUsedAt || '').localeCompare(a.lastUsedAt || '')
+    return a.name.localeCompare(b.name)
+  })
+}
+
+function storeProfiles(profiles: ConnectionProfile[]): void {
+  window.localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles))
+}
+
+/** Adds the profile, or replaces the one with the same ID. */
+export function saveProfile(profile: ConnectionProfile): void {
+  storeProfiles([...loadProfiles().filter(existing => existing.id !== profile.id), profile])
+}
+
+export function deleteProfile(id: string): void {
+  storeProfiles(loadProfiles().filter(profile => profile.id !== id))
+}
+
+/** Copies a profile under a new name; the copy keeps the encrypted secrets and the same passphrase. */
+export function duplicateProfile(id: string): ConnectionProfile | null {
+  const source = loadProfiles().find(profile => profile.id === id)
+  if (!source) return null
+
+  const copy: ConnectionProfile = {
+    ...source,
+    id: uuidv4(),
+    name: `${source.name} (copy)`,
+    createdAt: new Date().toISOString(),
+    lastUsedAt: undefined,
+  }
+  saveProfile(copy)
+  return copy
+}
+
+function markProfileUsed(id: string): void {
+  const profiles = loadProfiles()
+  const profile = profiles.find(profile => profile.id === id)
+  if (!profile) return
+  profile.lastUsedAt = new Date().toISOString()
+  storeProfiles(profiles)
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(Array.from(bytes, byte => String.fromCharCode(byte)).join(''))
+}
+
+function fromBase64(value: string) {
+  return Uint8Array.from(atob(value), char => char.charCodeAt(0))
+}
+
+async function deriveKey(passphrase: string, salt: BufferSource): Promise<CryptoKey> {
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    // Web Crypto is only available on HTTPS pages and localhost
+    throw new Error('Saved profiles need the app to be opened over HTTPS')
+  }
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey'])
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  )
+}
+
+export async function encryptSecrets(secrets: ProfileSecrets, passphrase: string): Promise<EncryptedSecret> {
+  const salt = crypto.getRandomValues(new Uint8Array(16))
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const key = await deriveKey(passphrase, salt)
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(secrets)))
+  rememberedPassphrase = passphrase
+  return { salt: toBase64(salt), iv: toBase64(iv), data: toBase64(new Uint8Array(data)) }
+}
+
+/** Throws a ProfilePassphraseError when the passphrase does not decrypt the secrets. */
+export async function decryptSecrets(secret: EncryptedSecret, passphrase: string): Promise<ProfileSecrets> {
+  const key = await deriveKey(passphrase, fromBase64(secret.salt))
+  let decrypted: ArrayBuffer
+  try {
+    decrypted = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(secret.iv) }, key, fromBase64(secret.data))
+  } catch {
+    // AES-GCM fails authentication rather than returning garbage for a wrong key
+    throw new ProfilePassphraseError()
+  }
+  rememberedPassphrase = passphrase
+  return JSON.parse(new TextDecoder().decode(decrypted))
+}
+
+/** Whether connecting with the profile needs a passphrase that hasn't been entered yet. */
+export async function needsPassphrase(profile: ConnectionProfile): Promise<boolean> {
+  if (!profile.secret) return false
+  if (!rememberedPassphrase) return true
+  try {
+    await decryptSecrets(profile.secret, rememberedPassphrase)
+    return false
+  } catch (error) {
+    if (error instanceof ProfilePassphraseError) return true
+    throw error
+  }
+}
+
+/**
+ * Decrypts the profile's secrets and opens a session connection with them,
+ * marking the profile as used when it succeeds. Wrong passphrases throw a
+ * ProfilePassphraseError; connection failures come back as `error`.
+ */
+export async function connectProfile(
+  profile: ConnectionProfile,
+  passphrase: string | null,
+  userName?: string
+): Promise<{ success: boolean; connection?: BunnyConnection; error?: string }> {
+  const secrets: ProfileSecrets = profile.secret
+    ? await decryptSecrets(profile.secret, passphrase ?? rememberedPassphrase ?? '')
+    : { password: '' }
+
+  const connection: BunnyConnection = {
+    provider: profile.provider,
+    host: profile.host,
+    user: profile.user,
+    password: secrets.password,
+    port: profile.port,
+    url: profile.url,
+    apiKey: secrets.apiKey,
+    libraryId: profile.libraryId,
+    userName,
+  }
+
+  const result = await new BunnyAPI(connection).testConnection()
+  if (!result.success || !result.connectionId) {
+    return { success: false, error: result.error || `Failed to connect to ${profile.name}.` }
+  }
+
+  markProfileUsed(profile.id)
+  // The secrets stay in the server-side session from here on; the masked API key only tells the UI one is set
+  return { success: true, connection: { ...connection, id: result.connectionId, password: '', apiKey: undefined, hasApiKey: Boolean(secrets.apiKey) } }
+}
@@ -0,0 +1,183 @@
+import { lookup } from 'dns'
+import { request as httpRequest } from 'http'
+import { request as httpsRequest } from 'https'
+import { BlockList, isIP, LookupFunction } from 'net'
+import { v4 as uuidv4 } from 'uuid'
+import { BunnyConnection, DiagnosticCheck } from '../types/bunny'
+import { audited } from './audit-log'
+import { createStorageProvider } from './storage'
+import { getErrorMessage } from './storage/operations'
+
+const PULL_ZONE_TIMEOUT_MS = 10000
+const MANAGED_ZONE_INTERVAL_MS = 60000
+const PRIVATE_ADDRESS_ERROR = 'The pull zone URL points to a private or local address'
+
+// The pull zone URL comes from the browser, so the server must not be made to fetch internal hosts
+const NON_PUBLIC_ADDRESSES = new BlockList()
+for (const [network, prefix] of [['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.168.0.0', 16], ['224.0.0.0', 3]] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv4')
+}
+for (const [network, prefix] of [['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv6')
+}
+
+type Step = Pick<DiagnosticCheck, 'id' | 'label'>
+
+const STEPS: Step[] = [
+  { id: 'list', label: 'List the storage zone root' },
+  { id: 'write', label: 'Write a probe file' },
+  { id: 'pullZone', label: 'Fetch the probe file through the pull zone URL' },
+  { id: 'delete', label: 'Delete the probe file' },
+]
+
+/** Runs a step and times it; a thrown error fails the step with its message. */
+async function runStep(step: Step, task: () => Promise<void>): Promise<DiagnosticCheck> {
+  const started = Date.now()
+  try {
+    await task()
+    return { ...step, status: 'pass', durationMs: Date.now() - started }
+  } catch (error) {
+    return { ...step, status: 'fail', detail: getErrorMessage(error), durationMs: Date.now() - started }
+  }
+}
+
+function skip(step: Step, detail: string): DiagnosticCheck {
+  return { ...step, status: 'skipped', detail }
+}
+
+function isPublicAddress(address: string): boolean {
+  // IPv4-mapped IPv6 addresses are checked as the IPv4 address they carry
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)
+  if (mapped) return isPublicAddress(mapped[1])
+  return !NON_PUBLIC_ADDRESSES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4')
+}
+
+// Used as the probe request's DNS lookup, so the addresses that are checked are the ones connected to
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '')
+    if (addresses.length === 0 || !addresses.every(entry => isPublicAddress(entry.address))) {
+      return callback(new Error(PRIVATE_ADDRESS_ERROR), '')
+    }
+    if (options.all) return callback(null, addresses)
+    callback(null, addresses[0].address, addresses[0].family)
+  })
+}
+
+/** Only http(s) URLs are fetched; host names are checked when the probe request resolves them. */
+function assertPublicUrl(url: string): URL {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    throw new Error('The pull zone URL is not a valid URL')
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new Error('The pull zone URL must start with http:// or https://')
+  }
+
+  // Addresses are connected to without a lookup, so they are checked here
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '')
+  if (isIP(hostname) && !isPublicAddress(hostname)) {
+    throw new Error(PRIVATE_ADDRESS_ERROR)
+  }
+  return parsed
+}
+
+// Redirects are not followed, since their target has not been checked
+function getProbe(url: URL): Promise<{ status: number; statusText: string; text: string }> {
+  const request = url.protocol === 'https:' ? httpsRequest : httpRequest
+  return new Promise((resolve, reject) => {
+    const req = request(url, {
+      lookup: publicLookup,
+      headers: { 'Cache-Control': 'no-cache' },
+      signal: AbortSignal.timeout(PULL_ZONE_TIMEOUT_MS),
+    }, response => {
+      let text = ''
+      response.setEncoding('utf8')
+      response.on('data', (chunk: string) => { text += chunk })
+      response.on('end', () => resolve({ status: response.statusCode || 0, statusText: response.statusMessage || '', text }))
+      response.on('error', reject)
+    })
+    req.on('error', error => {
+      reject(error.message === PRIVATE_ADDRESS_ERROR ? error : new Error(`The pull zone URL could not be reached: ${getErrorMessage(error)}`))
+    })
+    req.end()
+  })
+}
+
+// Fetches the probe through the CDN and checks that the content is the one just written
+async function checkPullZone(url: string, name: string, token: string): Promise<void> {
+  const base = assertPublicUrl(url)
+  const response = await getProbe(new URL(`${base.href.replace(/\/+$/, '')}/${name}`))
+
+  if (response.status >= 300 && response.status < 400) {
+    throw new Error(`The pull zone redirected the probe file (${response.status}) instead of serving it`)
+  }
+
+  if (response.status === 404) {
+    throw new Error('The pull zone answered 404 for the probe file, so it is not backed by this storage zone')
+  }
+  if (response.status < 200 || response.status >= 300) {
+    throw new Error(`The pull zone answered ${response.status} ${response.statusText}`)
+  }
+  if (response.text.trim() !== token) {
+    throw new Error('The pull zone served different content for the probe file, so it is backed by another origin')
+  }
+}
+
+const lastManagedRuns = new Map<string, number>()
+
+/**
+ * Managed zones can be diagnosed by any visitor with the server's credentials,
+ * so each one writes probe files at most once a minute. Returns the seconds
+ * left to wait, or 0 when the run may go ahead.
+ */
+export function claimManagedZoneRun(zoneId: string): number {
+  const now = Date.now()
+  const wait = (lastManagedRuns.get(zoneId) ?? 0) + MANAGED_ZONE_INTERVAL_MS - now
+  if (wait > 0) return Math.ceil(wait / 1000)
+  lastManagedRuns.set(zoneId, now)
+  return 0
+}
+
+/**
+ * Checks a connection end to end: that the zone lists, that files can be
+ * written and deleted, and that the pull zone URL serves this zone's files.
+ * Steps after a failed one that depends on it are skipped.
+ */
+export async function runDiagnostics(connection: BunnyConnection): Promise<DiagnosticCheck[]> {
+  const [listStep, writeStep, pullZoneStep, deleteStep] = STEPS
+  const provider = createStorageProvider(connection)
+  // Diagnostics run before a session exists, so the probe's changes are logged without a connection ID
+  const auditConnection = { ...connection, id: connection.id || '' }
+  const note = 'Connection diagnostics probe'
+
+  const list = await runStep(listStep, async () => {
+    await provider.list('/')
+  })
+  if (list.status === 'fail') {
+    return [list, ...[writeStep, pullZoneStep, deleteStep].map(step => skip(step, 'The storage zone could not be listed'))]
+  }
+
+  const name = `.cloudos-probe-${uuidv4()}.txt`
+  const token = uuidv4()
+  const write = await runStep(writeStep, async () => {
+    const body = Buffer.from(token, 'utf8')
+    await audited(auditConnection, { operation: 'upload', paths: [`/${name}`], bytes: body.length, note }, () =>
+      provider.upload(`/${name}`, body, body.length))
+  })
+  if (write.status === 'fail') {
+    return [list, write, ...[pullZoneStep, deleteStep].map(step => skip(step, 'The probe file could not be written'))]
+  }
+
+  const pullZone = connection.url
+    ? await runStep(pullZoneStep, () => checkPullZone(connection.url, name, token))
+    : skip(pullZoneStep, 'No pull zone URL is set for this connection')
+
+  const remove = await runStep(deleteStep, async () => {
+    await audited(auditConnection, { operation: 'delete', paths: [`/${name}`], note }, () => provider.delete(`/${name}`))
+  })
+
+  return [list, write, pullZone, remove]
+}
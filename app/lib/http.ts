@@ -0,0 +1,5 @@
+/** Builds a Content-Disposition header that survives non-ASCII file names (RFC 5987). */
+export function getContentDisposition(filename: string, inline: boolean = false): string {
+  const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, '_')
+  return `${inline ? 'inline' : 'attachment'}; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`
+}
@@ -0,0 +1,68 @@
+import { BunnyConnection } from '../types/bunny'
+import { getRegionHost } from './regions'
+
+/**
+ * Storage zones configured by the server operator through BUNNY_* environment
+ * variables. These are read server-side only; the browser just sees zone IDs
+ * and labels.
+ *
+ * A single zone uses the unprefixed variables (BUNNY_STORAGE_ZONE_NAME, ...).
+ * Several zones are declared with BUNNY_ZONES=prod,staging and prefixed
+ * variables (BUNNY_PROD_STORAGE_ZONE_NAME, BUNNY_STAGING_STORAGE_ZONE_NAME, ...).
+ */
+
+export interface ManagedZone {
+  id: string
+  label: string
+  connection: BunnyConnection
+}
+
+function readZone(id: string, prefix: string): ManagedZone | null {
+  const env = (name: string) => process.env[`${prefix}${name}`] || ''
+  const name = env('STORAGE_ZONE_NAME')
+  const password = env('STORAGE_ZONE_PASSWORD')
+  if (!name || !password) return null
+
+  return {
+    id,
+    label: env('LABEL') || name,
+    connection: {
+      provider: 'bunny',
+      managedZone: id,
+      host: env('STORAGE_HOST') || getRegionHost(env('STORAGE_ZONE_REGION')),
+      user: name,
+      password,
+      port: 443,
+      url: env('PULL_ZONE_URL'),
+      apiKey: env('API_KEY') || undefined,
+      libraryId: env('LIBRARY_ID') || undefined,
+    },
+  }
+}
+
+export function listManagedZones(): ManagedZone[] {
+  const ids = (process.env.BUNNY_ZONES || '')
+    .split(',')
+    .map(id => id.trim())
+    .filter(Boolean)
+
+  const zones = ids
+    .map(id => readZone(id, `BUNNY_${id.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_`))
+    .filter((zone): zone is ManagedZone => zone !== null)
+
+  const defaultZone = readZone('default', 'BUNNY_')
+  if (defaultZone && !zones.some(zone => zone.id === 'default')) {
+    zones.unshift(defaultZone)
+  }
+
+  return zones
+}
+
+export function getManagedZone(id: string): ManagedZone | null {
+  return listManagedZones().find(zone => zone.id === id) || null
+}
+
+/** When set, users can only pick managed zones and cannot enter credentials themselves. */
+export function isManagedOnly(): boolean {
+  return process.env.BUNNY_MANAGED_ONLY === 'true'
+}
@@ -0,0 +1,48 @@
+import { OperationProgressEvent, OperationReport } from '../types/bunny'
+import { getErrorMessage } from './storage/operations'
+
+export type ProgressSender = (event: OperationProgressEvent) => void
+
+/**
+ * Runs a multi-object operation and streams its progress to the client as
+ * newline-delimited JSON, ending with a 'done' event carrying the report.
+ * `isCancelled` turns true once the client disconnects.
+ */
+export function createProgressResponse(
+  errorPrefix: string,
+  run: (send: ProgressSender, isCancelled: () => boolean) => Promise<OperationReport>,
+  cleanup?: () => Promise<void>
+): Response {
+  let cancelled = false
+  const encoder = new TextEncoder()
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send: ProgressSender = (event) => {
+        if (!cancelled) controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`))
+      }
+
+      try {
+        send({ type: 'done', report: await run(send, () => cancelled) })
+      } catch (error) {
+        console.error(`${errorPrefix}:`, error)
+        send({ type: 'error', error: `${errorPrefix}: ${getErrorMessage(error)}` })
+      } finally {
+        await cleanup?.()
+      }
+
+      if (!cancelled) controller.close()
+    },
+    cancel() {
+      // The client went away; operations stop before the next object
+      cancelled = true
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson',
+      'Cache-Control': 'no-store',
+    },
+  })
+}
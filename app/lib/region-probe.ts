@@ -0,0 +1,48 @@
+import { BunnyConnection, RegionProbeResult } from '../types/bunny'
+import { createStorageProvider, StorageError } from './storage'
+import { getErrorMessage } from './storage/operations'
+import { STORAGE_REGIONS, StorageRegion } from './regions'
+
+const PROBE_TIMEOUT_MS = 10000
+
+/** Lists the zone's root on `host` with the connection's credentials and times the answer. */
+export async function probeHost(connection: BunnyConnection, host: string): Promise<RegionProbeResult> {
+  const provider = createStorageProvider({ ...connection, host })
+  const started = Date.now()
+  let timer: NodeJS.Timeout | undefined
+
+  try {
+    await Promise.race([
+      provider.list('/'),
+      new Promise((_, reject) => {
+        timer = setTimeout(() => reject(new StorageError('The endpoint did not answer in time')), PROBE_TIMEOUT_MS)
+      }),
+    ])
+    return { host, ok: true, latencyMs: Date.now() - started }
+  } catch (error) {
+    const status = error instanceof StorageError ? error.status : undefined
+    return {
+      host,
+      ok: false,
+      // A refusal still tells how far away the endpoint is; a timeout or network error doesn't
+      latencyMs: status ? Date.now() - started : undefined,
+      status,
+      error: getErrorMessage(error),
+    }
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+/**
+ * Looks for the region that does know the zone when `connection.host` refused
+ * it. Bunny answers 401 for zones of another region, so this probes every other
+ * known endpoint with the same credentials.
+ */
+export async function findZoneRegion(connection: BunnyConnection): Promise<StorageRegion | null> {
+  const host = connection.host.replace(/^https?:\/\//, '').replace(/\/+$/, '').toLowerCase()
+  const candidates = STORAGE_REGIONS.filter(region => region.host !== host)
+  const results = await Promise.all(candidates.map(region => probeHost(connection, region.host)))
+  const index = results.findIndex(result => result.ok)
+  return index >= 0 ? candidates[index] : null
+}
@@ -0,0 +1,24 @@
+export interface StorageRegion {
+  code: string
+  label: string
+  host: string
+}
+
+// Bunny Storage endpoints; Falkenstein is the primary region and uses the bare host
+export const STORAGE_REGIONS: StorageRegion[] = [
+  { code: 'de', label: 'Falkenstein (DE)', host: 'storage.bunnycdn.com' },
+  { code: 'uk', label: 'London (UK)', host: 'uk.storage.bunnycdn.com' },
+  { code: 'se', label: 'Stockholm (SE)', host: 'se.storage.bunnycdn.com' },
+  { code: 'ny', label: 'New York (US)', host: 'ny.storage.bunnycdn.com' },
+  { code: 'la', label: 'Los Angeles (US)', host: 'la.storage.bunnycdn.com' },
+  { code: 'sg', label: 'Singapore (SG)', host: 'sg.storage.bunnycdn.com' },
+  { code: 'syd', label: 'Sydney (AU)', host: 'syd.storage.bunnycdn.com' },
+  { code: 'br', label: 'São Paulo (BR)', host: 'br.storage.bunnycdn.com' },
+  { code: 'jh', label: 'Johannesburg (ZA)', host: 'jh.storage.bunnycdn.com' },
+]
+
+export function getRegionHost(region?: string): string {
+  const code = (region || '').trim().toLowerCase()
+  if (!code) return STORAGE_REGIONS[0].host
+  return STORAGE_REGIONS.find(r => r.code === code)?.host || `${code}.storage.bunnycdn.com`
+}
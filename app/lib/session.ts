@@ -0,0 +1,124 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import { v4 as uuidv4 } from 'uuid'
+import { BunnyConnection } from '../types/bunny'
+import { getManagedZone } from './managed-zones'
+
+/**
+ * Server-side connection sessions.
+ *
+ * Credentials are kept in an AES-256-GCM encrypted, httpOnly cookie so the
+ * browser only ever holds an opaque connection ID. A session can hold several
+ * connections (e.g. staging and production zones) at once.
+ */
+
+const COOKIE_NAME = 'cloudos_session'
+const MAX_AGE_SECONDS = 60 * 60 * 12
+const MAX_CONNECTIONS = 8
+
+export interface SessionConnection extends BunnyConnection {
+  id: string
+}
+
+export interface SessionData {
+  connections: SessionConnection[]
+}
+
+// Route handlers are bundled separately, so process-wide state has to live on globalThis
+const globalForSession = globalThis as unknown as { cloudosSessionKey?: Buffer }
+
+function getKey(): Buffer {
+  const secret = process.env.SESSION_SECRET
+  if (secret) {
+    return createHash('sha256').update(secret).digest()
+  }
+
+  if (!globalForSession.cloudosSessionKey) {
+    console.warn('SESSION_SECRET is not set; using a random key. Sessions will not survive a server restart.')
+    globalForSession.cloudosSessionKey = randomBytes(32)
+  }
+  return globalForSession.cloudosSessionKey
+}
+
+function encrypt(data: SessionData): string {
+  const iv = randomBytes(12)
+  const cipher = createCipheriv('aes-256-gcm', getKey(), iv)
+  const encrypted = Buffer.concat([cipher.update(JSON.stringify(data), 'utf8'), cipher.final()])
+  return Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64url')
+}
+
+function decrypt(value: string): SessionData | null {
+  try {
+    const raw = Buffer.from(value, 'base64url')
+    const decipher = createDecipheriv('aes-256-gcm', getKey(), raw.subarray(0, 12))
+    decipher.setAuthTag(raw.subarray(12, 28))
+    const decrypted = Buffer.concat([decipher.update(raw.subarray(28)), decipher.final()])
+    const data = JSON.parse(decrypted.toString('utf8'))
+    return Array.isArray(data?.connections) ? data : null
+  } catch {
+    // Tampered, expired key or malformed cookie - treat as no session
+    return null
+  }
+}
+
+export function readSession(request: NextRequest): SessionData {
+  const value = request.cookies.get(COOKIE_NAME)?.value
+  return (value && decrypt(value)) || { connections: [] }
+}
+
+export function writeSession(response: NextResponse, session: SessionData): void {
+  if (session.connections.length === 0) {
+    response.cookies.delete(COOKIE_NAME)
+    return
+  }
+
+  response.cookies.set(COOKIE_NAME, encrypt(session), {
+    httpOnly: true,
+    sameSite: 'strict',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: MAX_AGE_SECONDS,
+  })
+}
+
+export function addSessionConnection(session: SessionData, connection: BunnyConnection): SessionConnection {
+  const stored: SessionConnection = connection.managedZone
+    // Managed zones are stored by reference; their secrets are re-read from the environment
+    ? { ...connection, password: '', apiKey: undefined, id: uuidv4() }
+    : { ...connection, id: uuidv4() }
+  // Keep the most recent connections only so the cookie stays well below browser limits
+  session.connections = [...session.connections, stored].slice(-MAX_CONNECTIONS)
+  return stored
+}
+
+export function getSessionConnection(request: NextRequest, connectionId: string | null | undefined): SessionConnection | null {
+  if (!connectionId) return null
+  const connection = readSession(request).connections.find(connection => connection.id === connectionId)
+  if (!connection) return null
+
+  if (connection.managedZone) {
+    const zone = getManagedZone(connection.managedZone)
+    return zone ? { ...zone.connection, id: connection.id, userName: connection.userName } : null
+  }
+  return connection
+}
+
+/** Name recorded for changes made through a connection. */
+export function getActorName(connection: BunnyConnection): string {
+  return connection.userName || 'anonymous'
+}
+
+/** Connection details that are safe to send to the browser. */
+export function toPublicConnection(connection: SessionConnection): SessionConnection {
+  const { password, apiKey, ...rest } = connection
+  // Managed zones are stored without their keys, which are re-read from the environment
+  const key = connection.managedZone ? getManagedZone(connection.managedZone)?.connection.apiKey : apiKey
+  return { ...rest, password: '', hasApiKey: Boolean(key) }
+}
+
+export function notConnectedResponse(): NextResponse {
+  return NextResponse.json(
+    { error: 'Not connected. Please connect to the storage zone again.' },
+    { status: 401 }
+  )
+}
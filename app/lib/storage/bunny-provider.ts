@@ -0,0 +1,125 @@
+import axios from 'axios'
+import { BunnyFile } from '../../types/bunny'
+import { DownloadOptions, StorageError, StorageObject, StorageProvider, UploadBody } from './types'
+
+export class BunnyStorageProvider implements StorageProvider {
+  private host: string
+  private zone: string
+  private accessKey: string
+
+  constructor(host: string, zone: string, accessKey: string) {
+    this.host = host || 'storage.bunnycdn.com'
+    this.zone = zone
+    this.accessKey = accessKey
+  }
+
+  private getBaseUrl(): string {
+    // Remove protocol if present, we'll add https://
+    const cleanHost = this.host.replace(/^https?:\/\//, '')
+    return `https://${cleanHost}/${this.zone}/`
+  }
+
+  private getUrl(path: string): string {
+    const normalizedPath = path.startsWith('/') ? path.substring(1) : path
+    return `${this.getBaseUrl()}${normalizedPath}`
+  }
+
+  private toStorageError(error: any): StorageError {
+    if (error.response) {
+      return new StorageError(`${error.response.status} ${error.response.statusText}`, error.response.status)
+    }
+    return new StorageError(error.message || 'No response from storage server')
+  }
+
+  async list(path: string): Promise<BunnyFile[]> {
+    // Directory listings need a trailing slash
+    const normalizedPath = path === '/' ? '' : path.startsWith('/') ? path.substring(1) : path
+    const url = `${this.getBaseUrl()}${normalizedPath}${normalizedPath && !normalizedPath.endsWith('/') ? '/' : ''}`
+
+    try {
+      const response = await axios.get(url, {
+        headers: {
+          'AccessKey': this.accessKey,
+          'Accept': 'application/json',
+        },
+      })
+      return response.data
+    } catch (error: any) {
+      throw this.toStorageError(error)
+    }
+  }
+
+  async upload(path: string, body: UploadBody, size?: number, checksum?: string): Promise<void> {
+    try {
+      await axios.put(this.getUrl(path), body, {
+        headers: {
+          'AccessKey': this.accessKey,
+          'Content-Type': 'application/octet-stream',
+          ...(size !== undefined ? { 'Content-Length': size } : {}),
+          // Bunny hashes the received body and refuses to store it when this differs
+          ...(checksum ? { 'Checksum': checksum.toUpperCase() } : {}),
+        },
+        maxBodyLength: Infinity,
+        maxContentLength: Infinity,
+      })
+    } catch (error: any) {
+      if (checksum && error.response?.status === 400) {
+        throw new StorageError('Checksum mismatch: the content was corrupted in transfer', 400)
+      }
+      throw this.toStorageError(error)
+    }
+  }
+
+  async download(path: string, options: DownloadOptions = {}): Promise<StorageObject> {
+    try {
+      const response = await axios.get(this.getUrl(path), {
+        headers: {
+          'AccessKey': this.accessKey,
+          ...(options.range ? { 'Range': options.range } : {}),
+        },
+        responseType: 'stream',
+      })
+      const headers = response.headers
+      return {
+        body: response.data,
+        status: response.status === 206 ? 206 : 200,
+        contentType: headers['content-type'] || 'application/octet-stream',
+        contentLength: headers['content-length'] ? Number(headers['content-length']) : undefined,
+        contentRange: headers['content-range'],
+        etag: headers['etag'],
+        lastModified: headers['last-modified'],
+      }
+    } catch (error: any) {
+      // Streamed error bodies are not needed; release the socket
+      error.response?.data?.destroy?.()
+      throw this.toStorageError(error)
+    }
+  }
+
+  async delete(path: string): Promise<void> {
+    try {
+      await axios.delete(this.getUrl(path), {
+        headers: {
+          'AccessKey': this.accessKey,
+        },
+      })
+    } catch (error: any) {
+      throw this.toStorageError(error)
+    }
+  }
+
+  async stat(path: string): Promise<BunnyFile | null> {
+    // Bunny Storage has no metadata endpoint, so look the object up in its parent listing
+    const parts = path.split('/').filter(Boolean)
+    const name = parts.pop()
+    if (!name) return null
+
+    try {
+      const siblings = await this.list(`/${parts.join('/')}`)
+      return siblings.find(file => file.ObjectName === name) || null
+    } catch (error) {
+      if (error instanceof StorageError && error.status === 404) return null
+      throw error
+    }
+  }
+}
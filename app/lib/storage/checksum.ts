@@ -0,0 +1,77 @@
+import { createHash } from 'crypto'
+import { Readable, Transform } from 'stream'
+import { pipeline } from 'stream/promises'
+import { OperationItemResult, OperationReport } from '../../types/bunny'
+import { createReport, getErrorMessage, TreeEntry } from './operations'
+import { StorageProvider } from './types'
+
+/**
+ * SHA-256 checksums as Bunny Storage uses them: upper-case hex, sent in the
+ * `Checksum` header on upload and returned as `Checksum` in listings.
+ */
+
+export function normalizeChecksum(checksum: string): string {
+  return checksum.trim().toUpperCase()
+}
+
+export function isValidChecksum(checksum: string): boolean {
+  return /^[0-9a-fA-F]{64}$/.test(checksum.trim())
+}
+
+/** A pass-through stream that hashes everything flowing through it. */
+export function createHashingStream(): { stream: Transform; digest: () => string } {
+  const hash = createHash('sha256')
+  const stream = new Transform({
+    transform(chunk, _encoding, callback) {
+      hash.update(chunk)
+      callback(null, chunk)
+    },
+  })
+  return { stream, digest: () => normalizeChecksum(hash.digest('hex')) }
+}
+
+export async function hashStream(body: Readable): Promise<string> {
+  const hash = createHash('sha256')
+  await pipeline(body, async function (source: AsyncIterable<Buffer>) {
+    for await (const chunk of source) hash.update(chunk)
+  })
+  return normalizeChecksum(hash.digest('hex'))
+}
+
+export function hashBuffer(body: Buffer): string {
+  return normalizeChecksum(createHash('sha256').update(body).digest('hex'))
+}
+
+/**
+ * Downloads each entry, recomputes its SHA-256 and compares it with the
+ * checksum from the listing. Matches are done, mismatches failed, and objects
+ * without a stored checksum are skipped so they show up in the report.
+ */
+export async function verifyEntries(
+  provider: StorageProvider,
+  entries: TreeEntry[],
+  onItem?: (item: OperationItemResult) => void,
+  isCancelled?: () => boolean
+): Promise<OperationReport> {
+  const items: OperationItemResult[] = []
+  for (const entry of entries) {
+    if (isCancelled?.()) break
+    let item: OperationItemResult
+    const expected = entry.file.Checksum
+    if (!expected) {
+      item = { path: entry.path, status: 'skipped', error: 'No checksum stored for this file' }
+    } else {
+      try {
+        const actual = await hashStream((await provider.download(entry.path)).body)
+        item = normalizeChecksum(expected) === actual
+          ? { path: entry.path, status: 'done', bytes: entry.file.Length }
+          : { path: entry.path, status: 'failed', error: `Checksum mismatch: stored ${normalizeChecksum(expected)}, content hashes to ${actual}` }
+      } catch (error) {
+        item = { path: entry.path, status: 'failed', error: getErrorMessage(error) }
+      }
+    }
+    items.push(item)
+    onItem?.(item)
+  }
+  return createReport(items)
+}
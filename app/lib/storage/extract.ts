@@ -0,0 +1,132 @@
+import { promises as fs, createWriteStream } from 'fs'
+import nodePath from 'path'
+import { Readable } from 'stream'
+import { pipeline } from 'stream/promises'
+import { v4 as uuidv4 } from 'uuid'
+import yauzl from 'yauzl'
+import { ConflictPolicy, OperationItemResult, OperationReport } from '../../types/bunny'
+import { createSizeLimitStream, getStagingRoot } from '../chunked-uploads'
+import { StorageError, StorageProvider } from './types'
+import { createReport, getErrorMessage, isHiddenPath, resolveConflict, toFolderPath } from './operations'
+
+/**
+ * Server-side ZIP extraction. ZIP archives keep their directory at the end,
+ * so the upload is staged on local disk before entries are read and streamed
+ * to storage one by one.
+ */
+
+export interface ArchiveFileEntry {
+  name: string // Path inside the archive
+  size: number
+  entry: yauzl.Entry
+}
+
+// Metadata written by macOS Finder that nobody wants in storage
+const IGNORED_PATTERN = /(^|\/)(__MACOSX\/|\.DS_Store$)/
+
+// Limits against ZIP bombs; yauzl also refuses entries that inflate beyond their declared size
+const MAX_ENTRIES = 10000
+const MAX_UNCOMPRESSED_BYTES = 10 * 1024 * 1024 * 1024
+const MAX_ARCHIVE_BYTES = 2 * 1024 * 1024 * 1024
+
+export async function stageArchive(body: Readable): Promise<string> {
+  const root = getStagingRoot()
+  await fs.mkdir(root, { recursive: true })
+  const file = nodePath.join(root, `${uuidv4()}.zip`)
+  try {
+    // Refused while it streams in, so an oversized upload never fills the staging directory
+    const limit = createSizeLimitStream(MAX_ARCHIVE_BYTES, () => new StorageError('The archive is larger than 2 GB', 413))
+    await pipeline(body, limit, createWriteStream(file))
+  } catch (error) {
+    await fs.rm(file, { force: true })
+    throw error
+  }
+  return file
+}
+
+export function openArchive(file: string): Promise<yauzl.ZipFile> {
+  return new Promise((resolve, reject) => {
+    yauzl.open(file, { lazyEntries: true, autoClose: false }, (error, zipFile) => {
+      if (error || !zipFile) reject(error || new Error('Failed to open archive'))
+      else resolve(zipFile)
+    })
+  })
+}
+
+/** Reads the central directory and returns the file entries worth extracting. */
+export function listArchiveFiles(zipFile: yauzl.ZipFile): Promise<ArchiveFileEntry[]> {
+  return new Promise((resolve, reject) => {
+    const files: ArchiveFileEntry[] = []
+    let entryCount = 0
+    let totalSize = 0
+    zipFile.on('entry', (entry: yauzl.Entry) => {
+      entryCount++
+      totalSize += entry.uncompressedSize
+      if (entryCount > MAX_ENTRIES) {
+        reject(new StorageError(`The archive has more than ${MAX_ENTRIES} entries`, 400))
+        return
+      }
+      if (totalSize > MAX_UNCOMPRESSED_BYTES) {
+        reject(new StorageError('The archive expands to more than 10 GB', 400))
+        return
+      }
+      // yauzl rejects absolute and '..' paths itself; directories are implied by file paths
+      if (!entry.fileName.endsWith('/') && !IGNORED_PATTERN.test(entry.fileName)) {
+        files.push({ name: entry.fileName, size: entry.uncompressedSize, entry })
+      }
+      zipFile.readEntry()
+    })
+    zipFile.once('end', () => resolve(files))
+    zipFile.once('error', reject)
+    zipFile.readEntry()
+  })
+}
+
+function openEntryStream(zipFile: yauzl.ZipFile, entry: yauzl.Entry): Promise<Readable> {
+  return new Promise((resolve, reject) => {
+    zipFile.openReadStream(entry, (error, stream) => {
+      if (error || !stream) reject(error || new Error('Failed to read entry'))
+      else resolve(stream)
+    })
+  })
+}
+
+/** Extracts every file below `folder`, keeping the archive's directory structure. */
+export async function extractArchive(
+  zipFile: yauzl.ZipFile,
+  files: ArchiveFileEntry[],
+  provider: StorageProvider,
+  folder: string,
+  policy: ConflictPolicy,
+  onItem?: (item: OperationItemResult) => void,
+  isCancelled?: () => boolean
+): Promise<OperationReport> {
+  const root = toFolderPath(folder)
+  const items: OperationItemResult[] = []
+
+  for (const file of files) {
+    if (isCancelled?.()) break
+    const path = `${root}${file.name}`
+    let item: OperationItemResult
+    try {
+      // An archive extracted at the root must not write into the app's hidden folders
+      if (isHiddenPath(path)) {
+        item = { path: file.name, target: path, status: 'failed', error: 'This folder is managed by the app' }
+      } else {
+        const target = await resolveConflict(provider, path, policy)
+        if (!target) {
+          item = { path: file.name, target: path, status: 'skipped', error: 'An item with this name already exists' }
+        } else {
+          await provider.upload(target, await openEntryStream(zipFile, file.entry), file.size)
+          item = { path: file.name, target, status: 'done', bytes: file.size }
+        }
+      }
+    } catch (error) {
+      item = { path: file.name, target: path, status: 'failed', error: getErrorMessage(error) }
+    }
+    items.push(item)
+    onItem?.(item)
+  }
+
+  return createReport(items)
+}
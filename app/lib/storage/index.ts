@@ -0,0 +1,47 @@
+import nodePath from 'path'
+import { BunnyConnection } from '../../types/bunny'
+import { BunnyStorageProvider } from './bunny-provider'
+import { LocalStorageProvider } from './local-provider'
+import { StorageError, StorageProvider } from './types'
+
+export * from './types'
+
+export function getLocalStorageRoot(): string {
+  return nodePath.resolve(process.env.LOCAL_STORAGE_ROOT || 'storage')
+}
+
+/** The local provider writes to the server's disk, so it has to be turned on explicitly. */
+export function isLocalProviderAllowed(): boolean {
+  return process.env.ALLOW_LOCAL_PROVIDER === 'true'
+}
+
+export function createStorageProvider(connection: Pick<BunnyConnection, 'provider' | 'host' | 'user' | 'password'>): StorageProvider {
+  if (connection.provider === 'local') {
+    if (!isLocalProviderAllowed()) {
+      throw new StorageError('The local storage provider is disabled on this server', 403)
+    }
+    return new LocalStorageProvider(getLocalStorageRoot(), connection.user)
+  }
+  return new BunnyStorageProvider(connection.host, connection.user, connection.password)
+}
+
+/** Identifies a storage zone independently of the session connection that reached it. */
+export function getZoneKey(connection: BunnyConnection): string {
+  return [connection.provider || 'bunny', connection.managedZone || connection.host, connection.user].join(':')
+}
+
+/**
+ * Reads connection fields from a query string, form or JSON body.
+ * Returns null when a field required by the selected provider is missing.
+ */
+export function getConnectionFromFields(get: (key: string) => unknown): Pick<BunnyConnection, 'provider' | 'host' | 'user' | 'password'> | null {
+  const provider = get('provider') === 'local' ? 'local' : 'bunny'
+  const host = typeof get('host') === 'string' ? (get('host') as string) : ''
+  const user = typeof get('user') === 'string' ? (get('user') as string) : ''
+  const password = typeof get('password') === 'string' ? (get('password') as string) : ''
+
+  if (!user) return null
+  if (provider === 'bunny' && (!host || !password)) return null
+
+  return { provider, host, user, password }
+}
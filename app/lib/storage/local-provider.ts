@@ -0,0 +1,233 @@
+import { createHash, randomBytes } from 'crypto'
+import { promises as fs, createReadStream, createWriteStream, Stats } from 'fs'
+import nodePath from 'path'
+import { pipeline } from 'stream/promises'
+import { BunnyFile } from '../../types/bunny'
+import { DownloadOptions, StorageError, StorageObject, StorageProvider, UploadBody } from './types'
+import { parseRange } from './range'
+import { createHashingStream, hashBuffer, normalizeChecksum } from './checksum'
+
+// Zone names cannot start with a dot, so this never collides with a zone
+const CHECKSUM_DIR = '.checksums'
+
+// Uploads are written next to their target under a random suffix and renamed once complete
+const PARTIAL_FILE = /\.[0-9a-f]{12}\.partial$/
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.avif': 'image/avif',
+  '.svg': 'image/svg+xml',
+  '.bmp': 'image/bmp',
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+  '.mp3': 'audio/mpeg',
+  '.pdf': 'application/pdf',
+  '.json': 'application/json',
+  '.txt': 'text/plain',
+  '.html': 'text/html',
+  '.css': 'text/css',
+  '.js': 'text/javascript',
+  '.zip': 'application/zip',
+}
+
+export function getContentType(name: string): string {
+  return CONTENT_TYPES[nodePath.extname(name).toLowerCase()] || 'application/octet-stream'
+}
+
+/**
+ * Serves a storage zone from a directory on the server's disk.
+ * Each zone is a subdirectory of the configured root (LOCAL_STORAGE_ROOT).
+ * Like Bunny, the SHA-256 of every uploaded file is recorded; checksums are
+ * kept in a mirror tree below `<root>/.checksums/<zone>`.
+ */
+export class LocalStorageProvider implements StorageProvider {
+  private zone: string
+  private zoneRoot: string
+  private checksumRoot: string
+
+  constructor(root: string, zone: string) {
+    if (!zone || zone.includes('/') || zone.includes('\\') || zone.startsWith('.')) {
+      throw new StorageError('Invalid storage zone name', 400)
+    }
+    this.zone = zone
+    this.zoneRoot = nodePath.resolve(root, zone)
+    this.checksumRoot = nodePath.resolve(root, CHECKSUM_DIR, zone)
+  }
+
+  private getChecksumPath(target: string): string {
+    return nodePath.join(this.checksumRoot, nodePath.relative(this.zoneRoot, target))
+  }
+
+  private async readChecksum(target: string, stats: Stats): Promise<string | null> {
+    if (stats.isDirectory()) return null
+    try {
+      const checksumPath = this.getChecksumPath(target)
+      const [checksum, checksumStats] = await Promise.all([fs.readFile(checksumPath, 'utf8'), fs.stat(checksumPath)])
+      // A file changed outside the app no longer has a known checksum
+      return checksumStats.mtimeMs >= stats.mtimeMs ? checksum.trim() : null
+    } catch {
+      return null
+    }
+  }
+
+  private resolve(path: string): string {
+    const resolved = nodePath.resolve(this.zoneRoot, `.${nodePath.posix.normalize(`/${path}`)}`)
+    if (resolved !== this.zoneRoot && !resolved.startsWith(`${this.zoneRoot}${nodePath.sep}`)) {
+      throw new StorageError('Path is outside of the storage zone', 400)
+    }
+    return resolved
+  }
+
+  private toStorageError(error: any): StorageError {
+    if (error instanceof StorageError) return error
+    if (error.code === 'ENOENT') return new StorageError('404 Not Found', 404)
+    if (error.code === 'EACCES' || error.code === 'EPERM') return new StorageError('403 Forbidden', 403)
+    return new StorageError(error.message || 'Local storage error', 500)
+  }
+
+  private toBunnyFile(parentPath: string, name: string, stats: Stats, checksum: string | null): BunnyFile {
+    const objectPath = `${parentPath}${name}`
+    const guid = createHash('md5').update(`${this.zone}${objectPath}`).digest('hex')
+    return {
+      Guid: `${guid.slice(0, 8)}-${guid.slice(8, 12)}-${guid.slice(12, 16)}-${guid.slice(16, 20)}-${guid.slice(20)}`,
+      StorageZoneName: this.zone,
+      Path: `/${this.zone}${parentPath}`,
+      ObjectName: name,
+      Length: stats.isDirectory() ? 0 : stats.size,
+      LastChanged: stats.mtime.toISOString(),
+      ServerId: 0,
+      ArrayNumber: 0,
+      IsDirectory: stats.isDirectory(),
+      UserId: this.zone,
+      ContentType: stats.isDirectory() ? '' : getContentType(name),
+      DateCreated: stats.birthtime.toISOString(),
+      StorageZoneId: 0,
+      Checksum: checksum,
+      ReplicatedZones: null,
+    }
+  }
+
+  async list(path: string): Promise<BunnyFile[]> {
+    const directory = this.resolve(path)
+    const parentPath = nodePath.posix.join('/', path, '/')
+
+    try {
+      // Unfinished uploads are left out; they are renamed or removed before the upload returns
+      const entries = (await fs.readdir(directory)).filter(name => !PARTIAL_FILE.test(name))
+      const files = await Promise.all(entries.map(async name => {
+        const target = nodePath.join(directory, name)
+        const stats = await fs.stat(target)
+        return this.toBunnyFile(parentPath, name, stats, await this.readChecksum(target, stats))
+      }))
+      return files.sort((a, b) => Number(b.IsDirectory) - Number(a.IsDirectory) || a.ObjectName.localeCompare(b.ObjectName))
+    } catch (error: any) {
+      throw this.toStorageError(error)
+    }
+  }
+
+  async upload(path: string, body: UploadBody, _size?: number, checksum?: string): Promise<void> {
+    const target = this.resolve(path)
+
+    // Write to a temporary sibling first so an interrupted upload never replaces the existing file
+    const partial = `${target}.${randomBytes(6).toString('hex')}.partial`
+
+    try {
+      await fs.mkdir(nodePath.dirname(target), { recursive: true })
+      let digest: string
+      if (Buffer.isBuffer(body)) {
+        await fs.writeFile(partial, body)
+        digest = hashBuffer(body)
+      } else {
+        const hashing = createHashingStream()
+        await pipeline(body, hashing.stream, createWriteStream(partial))
+        digest = hashing.digest()
+      }
+      if (checksum && normalizeChecksum(checksum) !== digest) {
+        throw new StorageError('Checksum mismatch: the content was corrupted in transfer', 400)
+      }
+      await fs.rename(partial, target)
+
+      const checksumPath = this.getChecksumPath(target)
+      await fs.mkdir(nodePath.dirname(checksumPath), { recursive: true })
+      await fs.writeFile(checksumPath, digest)
+    } catch (error: any) {
+      await fs.rm(partial, { force: true })
+      throw this.toStorageError(error)
+    }
+  }
+
+  async download(path: string, options: DownloadOptions = {}): Promise<StorageObject> {
+    const target = this.resolve(path)
+
+    try {
+      const stats = await fs.stat(target)
+      if (stats.isDirectory()) {
+        throw new StorageError('400 Cannot download a directory', 400)
+      }
+
+      const range = options.range ? parseRange(options.range, stats.size) : null
+      if (range === 'unsatisfiable') {
+        throw new StorageError('416 Range Not Satisfiable', 416)
+      }
+
+      const common = {
+        contentType: getContentType(path),
+        etag: `W/"${stats.size.toString(16)}-${Math.floor(stats.mtimeMs).toString(16)}"`,
+        lastModified: stats.mtime.toUTCString(),
+      }
+
+      if (range) {
+        return {
+          ...common,
+          body: createReadStream(target, { start: range.start, end: range.end }),
+          status: 206,
+          contentLength: range.end - range.start + 1,
+          contentRange: `bytes ${range.start}-${range.end}/${stats.size}`,
+        }
+      }
+
+      return {
+        ...common,
+        body: createReadStream(target),
+        status: 200,
+        contentLength: stats.size,
+      }
+    } catch (error: any) {
+      throw this.toStorageError(error)
+    }
+  }
+
+  async delete(path: string): Promise<void> {
+    const target = this.resolve(path)
+    if (target === this.zoneRoot) {
+      throw new StorageError('Refusing to delete the storage zone root', 400)
+    }
+
+    try {
+      await fs.stat(target)
+      await fs.rm(target, { recursive: true })
+      await fs.rm(this.getChecksumPath(target), { recursive: true, force: true })
+    } catch (error: any) {
+      throw this.toStorageError(error)
+    }
+  }
+
+  async stat(path: string): Promise<BunnyFile | null> {
+    const target = this.resolve(path)
+    const parts = path.split('/').filter(Boolean)
+    const name = parts.pop()
+    if (!name) return null
+
+    try {
+      const stats = await fs.stat(target)
+      return this.toBunnyFile(nodePath.posix.join('/', ...parts, '/'), name, stats, await this.readChecksum(target, stats))
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null
+      throw this.toStorageError(error)
+    }
+  }
+}
@@ -0,0 +1,342 @@
+import { BunnyFile, ConflictPolicy, OperationItemResult, OperationReport } from '../../types/bunny'
+import { StorageError, StorageProvider } from './types'
+
+/**
+ * Multi-object operations built on top of the StorageProvider primitives.
+ * Storage backends have no server-side copy, so objects are streamed from the
+ * source to the destination without being buffered.
+ */
+
+export interface TreeEntry {
+  path: string // Full path of the object
+  relativePath: string // Path below the walked folder
+  file: BunnyFile
+}
+
+export function toFolderPath(path: string): string {
+  const withLeading = path.startsWith('/') ? path : `/${path}`
+  return withLeading.endsWith('/') ? withLeading : `${withLeading}/`
+}
+
+export function toObjectPath(path: string): string {
+  const withLeading = path.startsWith('/') ? path : `/${path}`
+  return withLeading.length > 1 && withLeading.endsWith('/') ? withLeading.slice(0, -1) : withLeading
+}
+
+// Folders at the zone root that hold app data rather than user files
+export const HIDDEN_ROOT_FOLDERS = ['.trash', '.versions', '.cdn']
+
+/** True for a hidden root folder and anything below it, also when reached through "//", "./" or "../". */
+export function isHiddenPath(path: string): boolean {
+  const segments = path.split('/').reduce<string[]>((resolved, segment) => {
+    if (segment === '..') return resolved.slice(0, -1)
+    return segment && segment !== '.' ? [...resolved, segment] : resolved
+  }, [])
+  return HIDDEN_ROOT_FOLDERS.indexOf(segments[0]) >= 0
+}
+
+export const CONFLICT_POLICIES: ConflictPolicy[] = ['overwrite', 'skip', 'keepBoth']
+
+/** Reads a conflict policy parameter, falling back when it is absent. Returns null for unknown values. */
+export function parseConflictPolicy(value: unknown, fallback: ConflictPolicy): ConflictPolicy | null {
+  if (value === null || value === undefined || value === '') return fallback
+  return CONFLICT_POLICIES.indexOf(value as ConflictPolicy) >= 0 ? (value as ConflictPolicy) : null
+}
+
+/** Accepts "name" or "folder/sub/name" without empty, '.' or '..' segments. */
+export function isSafeRelativePath(name: string): boolean {
+  return name.split('/').every(segment => segment !== '' && segment !== '.' && segment !== '..')
+}
+
+/** Recursively lists every file below a folder. Hidden folders are only walked when asked for directly. */
+export async function listTree(provider: StorageProvider, folderPath: string): Promise<TreeEntry[]> {
+  const root = toFolderPath(folderPath)
+  const includeHidden = isHiddenPath(root)
+  const entries: TreeEntry[] = []
+
+  const walk = async (relativeFolder: string) => {
+    const files = await provider.list(`${root}${relativeFolder}`)
+    for (const file of files) {
+      const relativePath = `${relativeFolder}${file.ObjectName}`
+      if (!includeHidden && isHiddenPath(`${root}${relativePath}`)) continue
+      if (file.IsDirectory) {
+        await walk(`${relativePath}/`)
+      } else {
+        entries.push({ path: `${root}${relativePath}`, relativePath, file })
+      }
+    }
+  }
+
+  await walk('')
+  return entries
+}
+
+/** Reads a small JSON document kept in storage, or null when it does not exist. */
+export async function readJsonObject<T>(provider: StorageProvider, path: string): Promise<T | null> {
+  let object
+  try {
+    object = await provider.download(path)
+  } catch (error) {
+    if (error instanceof StorageError && error.status === 404) return null
+    throw error
+  }
+
+  const chunks: Buffer[] = []
+  for await (const chunk of object.body) chunks.push(Buffer.from(chunk))
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'))
+  } catch {
+    throw new StorageError(`${path} is corrupted`, 500)
+  }
+}
+
+export async function writeJsonObject(provider: StorageProvider, path: string, value: unknown): Promise<void> {
+  const body = Buffer.from(JSON.stringify(value, null, 2))
+  await provider.upload(path, body, body.length)
+}
+
+export function createReport(items: OperationItemResult[]): OperationReport {
+  return {
+    items,
+    succeeded: items.filter(item => item.status === 'done').length,
+    skipped: items.filter(item => item.status === 'skipped').length,
+    failed: items.filter(item => item.status === 'failed').length,
+  }
+}
+
+export function getErrorMessage(error: unknown): string {
+  if (error instanceof StorageError) return error.message
+  return error instanceof Error ? error.message : 'Unknown error'
+}
+
+/** Appends " (1)", " (2)", … before the extension until the path is free. */
+export async function getAvailablePath(provider: StorageProvider, path: string): Promise<string> {
+  const separator = path.lastIndexOf('/')
+  const folder = path.slice(0, separator + 1)
+  const name = path.slice(separator + 1)
+  const dot = name.lastIndexOf('.')
+  const base = dot > 0 ? name.slice(0, dot) : name
+  const extension = dot > 0 ? name.slice(dot) : ''
+
+  for (let counter = 1; ; counter++) {
+    const candidate = `${folder}${base} (${counter})${extension}`
+    if (!(await provider.stat(candidate))) return candidate
+  }
+}
+
+/**
+ * Applies a conflict policy to a target path. Returns the path to write to,
+ * or null when the existing item should be left alone.
+ */
+export async function resolveConflict(provider: StorageProvider, path: string, policy: ConflictPolicy): Promise<string | null> {
+  if (policy === 'overwrite' || !(await provider.stat(path))) return path
+  return policy === 'skip' ? null : getAvailablePath(provider, path)
+}
+
+/**
+ * Looks up which of the given paths already exist. Paths are grouped by
+ * folder so each folder is listed once, however many files land in it.
+ */
+export async function findExisting(provider: StorageProvider, paths: string[]): Promise<Record<string, BunnyFile>> {
+  const byFolder: Record<string, string[]> = {}
+  for (const path of paths) {
+    const objectPath = toObjectPath(path)
+    const folder = objectPath.slice(0, objectPath.lastIndexOf('/') + 1)
+    byFolder[folder] = byFolder[folder] || []
+    byFolder[folder].push(path)
+  }
+
+  const existing: Record<string, BunnyFile> = {}
+  await Promise.all(Object.keys(byFolder).map(async folder => {
+    let files: BunnyFile[]
+    try {
+      files = await provider.list(folder)
+    } catch (error) {
+      // A folder that does not exist yet holds no conflicts
+      if (error instanceof StorageError && error.status === 404) return
+      throw error
+    }
+    for (const path of byFolder[folder]) {
+      const name = toObjectPath(path).slice(folder.length)
+      const file = files.find(item => item.ObjectName === name)
+      if (file) existing[path] = file
+    }
+  }))
+  return existing
+}
+
+/** Passing the source's stored checksum lets the destination verify the copy. */
+export async function copyObject(source: StorageProvider, from: string, destination: StorageProvider, to: string, checksum?: string): Promise<number | undefined> {
+  const object = await source.download(from)
+  await destination.upload(to, object.body, object.contentLength, checksum)
+  return object.contentLength
+}
+
+export async function moveObject(provider: StorageProvider, from: string, to: string, policy: ConflictPolicy): Promise<OperationItemResult> {
+  try {
+    const target = await resolveConflict(provider, to, policy)
+    if (!target) {
+      return { path: from, target: to, status: 'skipped', error: 'An item with this name already exists' }
+    }
+    const bytes = await copyObject(provider, from, provider, target)
+    await provider.delete(from)
+    return { path: from, target, status: 'done', bytes }
+  } catch (error) {
+    return { path: from, target: to, status: 'failed', error: getErrorMessage(error) }
+  }
+}
+
+export async function copyObjectItem(source: StorageProvider, from: string, destination: StorageProvider, to: string, policy: ConflictPolicy, checksum?: string): Promise<OperationItemResult> {
+  try {
+    const target = await resolveConflict(destination, to, policy)
+    if (!target) {
+      return { path: from, target: to, status: 'skipped', error: 'An item with this name already exists' }
+    }
+    const bytes = await copyObject(source, from, destination, target, checksum)
+    return { path: from, target, status: 'done', bytes }
+  } catch (error) {
+    return { path: from, target: to, status: 'failed', error: getErrorMessage(error) }
+  }
+}
+
+/**
+ * Copies every entry to the same relative path below `to`, one at a time.
+ * `onItem` is called after each entry so callers can report progress, and
+ * `isCancelled` is checked before each one to stop early.
+ */
+export async function copyEntries(
+  source: StorageProvider,
+  entries: TreeEntry[],
+  destination: StorageProvider,
+  to: string,
+  policy: ConflictPolicy,
+  onItem?: (item: OperationItemResult) => void,
+  isCancelled?: () => boolean
+): Promise<OperationReport> {
+  const target = toFolderPath(to)
+  const items: OperationItemResult[] = []
+  for (const entry of entries) {
+    if (isCancelled?.()) break
+    const item = await copyObjectItem(source, entry.path, destination, `${target}${entry.relativePath}`, policy, entry.file.Checksum || undefined)
+    items.push(item)
+    onItem?.(item)
+  }
+  return createReport(items)
+}
+
+/**
+ * Like copyEntries, but deletes each source file once its copy is in place,
+ * which also moves items between zones. `sourceFolder` is removed at the end
+ * when every entry moved, as moveTree does. `removeSource` replaces the plain
+ * delete, e.g. to move the originals into the source zone's trash.
+ */
+export async function moveEntries(
+  source: StorageProvider,
+  entries: TreeEntry[],
+  destination: StorageProvider,
+  to: string,
+  policy: ConflictPolicy,
+  sourceFolder: string | null,
+  onItem?: (item: OperationItemResult) => void,
+  isCancelled?: () => boolean,
+  removeSource: (path: string) => Promise<void> = path => source.delete(path)
+): Promise<OperationReport> {
+  const target = toFolderPath(to)
+  if (sourceFolder) {
+    await keepEmptyFolder(destination, target, entries)
+  }
+  const items: OperationItemResult[] = []
+  for (const entry of entries) {
+    if (isCancelled?.()) break
+    let item = await copyObjectItem(source, entry.path, destination, `${target}${entry.relativePath}`, policy, entry.file.Checksum || undefined)
+    if (item.status === 'done') {
+      try {
+        await removeSource(entry.path)
+      } catch (error) {
+        item = { ...item, status: 'failed', error: `Copied, but the original could not be deleted: ${getErrorMessage(error)}` }
+      }
+    }
+    items.push(item)
+    onItem?.(item)
+  }
+
+  const report = createReport(items)
+  if (sourceFolder && items.length === entries.length && report.failed === 0 && report.skipped === 0) {
+    await removeFolder(source, sourceFolder)
+  }
+  return report
+}
+
+/**
+ * Creates the target of a folder move that has no `entries`, since moving an
+ * empty folder would otherwise only delete it. Storage only keeps folders that
+ * contain a file, so it gets a .keep marker like "Add Folder" does.
+ */
+async function keepEmptyFolder(provider: StorageProvider, folder: string, entries: TreeEntry[]): Promise<void> {
+  if (entries.length > 0) return
+  await provider.upload(`${toFolderPath(folder)}.keep`, Buffer.alloc(0), 0)
+}
+
+// Bunny removes empty directories by itself, so a folder that is already gone is fine
+async function removeFolder(provider: StorageProvider, folder: string): Promise<void> {
+  try {
+    await provider.delete(folder)
+  } catch (error) {
+    if (!(error instanceof StorageError && error.status === 404)) throw error
+  }
+}
+
+/**
+ * Moves every file below `from` to the same relative path below `to`.
+ * Items are processed one by one so a failure part-way through is reported
+ * per item; the source folder is only removed when everything moved, so
+ * skipped files stay where they were.
+ */
+export async function moveTree(provider: StorageProvider, from: string, to: string, policy: ConflictPolicy): Promise<OperationReport> {
+  const source = toFolderPath(from)
+  const target = toFolderPath(to)
+  if (target.startsWith(source)) {
+    throw new StorageError('Cannot move a folder into itself', 400)
+  }
+
+  const entries = await listTree(provider, source)
+  await keepEmptyFolder(provider, target, entries)
+
+  const items: OperationItemResult[] = []
+  for (const entry of entries) {
+    items.push(await moveObject(provider, entry.path, `${target}${entry.relativePath}`, policy))
+  }
+
+  const report = createReport(items)
+  if (report.failed === 0 && report.skipped === 0) {
+    await removeFolder(provider, source)
+  }
+  return report
+}
+
+/**
+ * Deletes every file below a folder one by one so each result can be reported,
+ * then removes the folder itself once nothing failed.
+ */
+export async function deleteTree(provider: StorageProvider, folderPath: string): Promise<OperationReport> {
+  const folder = toFolderPath(folderPath)
+  if (folder === '/') {
+    throw new StorageError('The storage zone root cannot be deleted', 400)
+  }
+
+  const items: OperationItemResult[] = []
+  for (const entry of await listTree(provider, folder)) {
+    try {
+      await provider.delete(entry.path)
+      items.push({ path: entry.path, status: 'done', bytes: entry.file.Length })
+    } catch (error) {
+      items.push({ path: entry.path, status: 'failed', error: getErrorMessage(error) })
+    }
+  }
+
+  const report = createReport(items)
+  if (report.failed === 0) {
+    await removeFolder(provider, folder)
+  }
+  return report
+}
@@ -0,0 +1,30 @@
+export interface ByteRange {
+  start: number
+  end: number // Inclusive
+}
+
+/**
+ * Parses a single-range HTTP Range header against a known size.
+ * Returns null when the header should be ignored (malformed or multi-range),
+ * in which case the whole object is served.
+ */
+export function parseRange(header: string, size: number): ByteRange | 'unsatisfiable' | null {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim())
+  if (!match || (!match[1] && !match[2])) return null
+
+  let start: number
+  let end: number
+  if (!match[1]) {
+    // Suffix range: the last N bytes
+    const suffix = parseInt(match[2], 10)
+    if (suffix === 0) return 'unsatisfiable'
+    start = Math.max(0, size - suffix)
+    end = size - 1
+  } else {
+    start = parseInt(match[1], 10)
+    end = match[2] ? Math.min(parseInt(match[2], 10), size - 1) : size - 1
+  }
+
+  if (start >= size || start > end) return 'unsatisfiable'
+  return { start, end }
+}
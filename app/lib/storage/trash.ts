@@ -0,0 +1,227 @@
+import { v4 as uuidv4 } from 'uuid'
+import { ConflictPolicy, OperationItemResult, OperationReport, TrashItem, TrashListing, TrashSettings } from '../../types/bunny'
+import { createReport, deleteTree, getErrorMessage, moveObject, moveTree, readJsonObject, toObjectPath, writeJsonObject } from './operations'
+import { StorageError, StorageProvider } from './types'
+
+/**
+ * Recycle bin kept inside each storage zone. Deleted items are moved to
+ * /.trash/<id>/<name> and recorded in /.trash/manifest.json together with the
+ * zone's trash settings, so every client of the zone sees the same bin.
+ */
+
+export const TRASH_FOLDER = '/.trash/'
+const MANIFEST_PATH = `${TRASH_FOLDER}manifest.json`
+const DAY_MS = 24 * 60 * 60 * 1000
+
+interface TrashManifest {
+  settings: TrashSettings
+  items: TrashItem[]
+}
+
+// Route handlers are bundled separately, so process-wide state has to live on globalThis
+const globalForTrash = globalThis as unknown as { cloudosTrashLocks?: Record<string, Promise<unknown>> }
+
+export function getDefaultRetentionDays(): number {
+  const days = Number(process.env.TRASH_RETENTION_DAYS)
+  return Number.isFinite(days) && days >= 0 ? Math.floor(days) : 30
+}
+
+/**
+ * Runs manifest updates for one zone one after another, so concurrent deletes
+ * do not overwrite each other's entries. Only serialises within this process.
+ */
+function withManifestLock<T>(zoneKey: string, task: () => Promise<T>): Promise<T> {
+  if (!globalForTrash.cloudosTrashLocks) globalForTrash.cloudosTrashLocks = {}
+  const locks = globalForTrash.cloudosTrashLocks
+  const next = (locks[zoneKey] || Promise.resolve()).then(task, task)
+  locks[zoneKey] = next.catch(() => undefined)
+  return next
+}
+
+async function readManifest(provider: StorageProvider): Promise<TrashManifest> {
+  const manifest = await readJsonObject<Partial<TrashManifest>>(provider, MANIFEST_PATH)
+  return {
+    settings: { enabled: false, retentionDays: getDefaultRetentionDays(), ...manifest?.settings },
+    items: Array.isArray(manifest?.items) ? manifest.items : [],
+  }
+}
+
+function updateManifest(provider: StorageProvider, zoneKey: string, update: (manifest: TrashManifest) => void): Promise<TrashManifest> {
+  return withManifestLock(zoneKey, async () => {
+    const manifest = await readManifest(provider)
+    update(manifest)
+    await writeJsonObject(provider, MANIFEST_PATH, manifest)
+    return manifest
+  })
+}
+
+function getItemFolder(item: TrashItem): string {
+  return `${TRASH_FOLDER}${item.id}/`
+}
+
+function getItemPath(item: TrashItem): string {
+  return `${getItemFolder(item)}${item.name}`
+}
+
+export async function getTrashSettings(provider: StorageProvider): Promise<TrashSettings> {
+  return (await readManifest(provider)).settings
+}
+
+export async function updateTrashSettings(provider: StorageProvider, zoneKey: string, settings: TrashSettings): Promise<TrashSettings> {
+  return (await updateManifest(provider, zoneKey, manifest => { manifest.settings = settings })).settings
+}
+
+/**
+ * Moves a file or folder into the trash and records where it came from.
+ * A folder that only partly moved is still recorded with what arrived; the
+ * report lists the files that stayed behind.
+ */
+export async function moveToTrash(
+  provider: StorageProvider,
+  zoneKey: string,
+  path: string,
+  isDirectory: boolean,
+  deletedBy: string
+): Promise<OperationReport> {
+  const originalPath = toObjectPath(path)
+  if (originalPath === '/') {
+    throw new StorageError('The storage zone root cannot be deleted', 400)
+  }
+
+  const item: TrashItem = {
+    id: uuidv4(),
+    name: originalPath.split('/').pop() as string,
+    originalPath,
+    isDirectory,
+    size: 0,
+    fileCount: 0,
+    deletedBy,
+    deletedAt: new Date().toISOString(),
+  }
+
+  let report: OperationReport
+  if (isDirectory) {
+    report = await moveTree(provider, originalPath, getItemPath(item), 'overwrite')
+  } else {
+    if (!(await provider.stat(originalPath))) {
+      throw new StorageError('File not found', 404)
+    }
+    report = createReport([await moveObject(provider, originalPath, getItemPath(item), 'overwrite')])
+  }
+
+  const moved = report.items.filter(result => result.status === 'done')
+  if (moved.length > 0) {
+    item.size = moved.reduce((sum, result) => sum + (result.bytes || 0), 0)
+    item.fileCount = moved.length
+    await updateManifest(provider, zoneKey, manifest => { manifest.items.push(item) })
+  }
+
+  // Deleting is the one thing every zone with a trash does, so expired items are cleared here too
+  try {
+    await purgeExpired(provider, zoneKey)
+  } catch (error) {
+    console.error('Failed to purge expired trash items:', error)
+  }
+  return report
+}
+
+/** Lists the trash, purging anything past the zone's retention period first. */
+export async function listTrash(provider: StorageProvider, zoneKey: string): Promise<TrashListing> {
+  await purgeExpired(provider, zoneKey)
+  const manifest = await readManifest(provider)
+  return {
+    settings: manifest.settings,
+    items: manifest.items.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt)),
+  }
+}
+
+async function removeItems(provider: StorageProvider, zoneKey: string, ids: string[]): Promise<void> {
+  if (ids.length === 0) return
+  await updateManifest(provider, zoneKey, manifest => {
+    manifest.items = manifest.items.filter(item => ids.indexOf(item.id) < 0)
+  })
+}
+
+async function deleteItemFolder(provider: StorageProvider, item: TrashItem): Promise<void> {
+  try {
+    await provider.delete(getItemFolder(item))
+  } catch (error) {
+    // Bunny removes empty directories by itself; a missing folder is fine
+    if (!(error instanceof StorageError && error.status === 404)) throw error
+  }
+}
+
+function findItems(manifest: TrashManifest, ids: string[]): TrashItem[] {
+  const items = manifest.items.filter(item => ids.indexOf(item.id) >= 0)
+  if (items.length !== ids.length) {
+    throw new StorageError('Some items are no longer in the trash', 404)
+  }
+  return items
+}
+
+export async function getTrashItems(provider: StorageProvider, ids: string[]): Promise<TrashItem[]> {
+  return findItems(await readManifest(provider), ids)
+}
+
+/**
+ * Moves items back to where they were deleted from. Items stay in the trash
+ * until every one of their files is back in place.
+ */
+export async function restoreFromTrash(provider: StorageProvider, zoneKey: string, ids: string[], policy: ConflictPolicy): Promise<OperationReport> {
+  const items = findItems(await readManifest(provider), ids)
+  const results: OperationItemResult[] = []
+  const restored: string[] = []
+
+  for (const item of items) {
+    const report = item.isDirectory
+      ? await moveTree(provider, getItemPath(item), item.originalPath, policy)
+      : createReport([await moveObject(provider, getItemPath(item), item.originalPath, policy)])
+    results.push(...report.items)
+    if (report.failed === 0 && report.skipped === 0) {
+      await deleteItemFolder(provider, item)
+      restored.push(item.id)
+    }
+  }
+
+  await removeItems(provider, zoneKey, restored)
+  return createReport(results)
+}
+
+/** Permanently deletes items from the trash. */
+export async function purgeTrash(provider: StorageProvider, zoneKey: string, ids: string[]): Promise<OperationReport> {
+  const items = findItems(await readManifest(provider), ids)
+  return purgeItems(provider, zoneKey, items)
+}
+
+export async function emptyTrash(provider: StorageProvider, zoneKey: string): Promise<OperationReport> {
+  return purgeItems(provider, zoneKey, (await readManifest(provider)).items)
+}
+
+async function purgeItems(provider: StorageProvider, zoneKey: string, items: TrashItem[]): Promise<OperationReport> {
+  const results: OperationItemResult[] = []
+  const purged: string[] = []
+
+  for (const item of items) {
+    try {
+      const report = await deleteTree(provider, getItemFolder(item))
+      results.push(...report.items)
+      if (report.failed === 0) purged.push(item.id)
+    } catch (error) {
+      results.push({ path: item.originalPath, status: 'failed', error: getErrorMessage(error) })
+    }
+  }
+
+  await removeItems(provider, zoneKey, purged)
+  return createReport(results)
+}
+
+/** Purges items deleted longer ago than the retention period. */
+export async function purgeExpired(provider: StorageProvider, zoneKey: string): Promise<void> {
+  const { settings, items } = await readManifest(provider)
+  if (settings.retentionDays <= 0) return
+  const cutoff = Date.now() - settings.retentionDays * DAY_MS
+  const expired = items.filter(item => new Date(item.deletedAt).getTime() < cutoff)
+  if (expired.length > 0) {
+    await purgeItems(provider, zoneKey, expired)
+  }
+}
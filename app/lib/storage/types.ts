@@ -0,0 +1,42 @@
+import { Readable } from 'stream'
+import { BunnyFile } from '../../types/bunny'
+
+export type UploadBody = Buffer | Readable
+
+export interface DownloadOptions {
+  range?: string // Raw HTTP Range header value, e.g. "bytes=0-1023"
+}
+
+export interface StorageObject {
+  body: Readable
+  status: 200 | 206
+  contentType: string
+  contentLength?: number
+  contentRange?: string
+  etag?: string
+  lastModified?: string
+}
+
+/**
+ * Backend-agnostic storage operations used by the API routes.
+ * Paths are relative to the storage zone root and always start with '/'.
+ * Listings use the Bunny Storage object shape so the UI can stay unchanged.
+ */
+export interface StorageProvider {
+  list(path: string): Promise<BunnyFile[]>
+  /** With a SHA-256 `checksum` (hex), storage rejects content that does not match with a 400. */
+  upload(path: string, body: UploadBody, size?: number, checksum?: string): Promise<void>
+  download(path: string, options?: DownloadOptions): Promise<StorageObject>
+  delete(path: string): Promise<void>
+  stat(path: string): Promise<BunnyFile | null>
+}
+
+export class StorageError extends Error {
+  status?: number
+
+  constructor(message: string, status?: number) {
+    super(message)
+    this.name = 'StorageError'
+    this.status = status
+  }
+}
@@ -0,0 +1,105 @@
+import { FileVersion, VersioningSettings } from '../../types/bunny'
+import { copyObject, readJsonObject, toObjectPath, writeJsonObject } from './operations'
+import { StorageError, StorageProvider } from './types'
+
+/**
+ * Opt-in version history. Before an upload replaces a file, its previous
+ * content is copied to /.versions/files/<path>/<timestamp>_<name>, so each
+ * file's versions can be listed with a single folder listing.
+ */
+
+export const VERSIONS_FOLDER = '/.versions/'
+const SETTINGS_PATH = `${VERSIONS_FOLDER}settings.json`
+// Kept apart from settings.json so a user file with that name cannot collide with it
+const FILES_FOLDER = `${VERSIONS_FOLDER}files`
+const DEFAULT_MAX_VERSIONS = 20
+
+function getVersionFolder(path: string): string {
+  return `${FILES_FOLDER}${toObjectPath(path)}/`
+}
+
+export async function getVersioningSettings(provider: StorageProvider): Promise<VersioningSettings> {
+  const settings = await readJsonObject<Partial<VersioningSettings>>(provider, SETTINGS_PATH)
+  return { enabled: false, maxVersions: DEFAULT_MAX_VERSIONS, ...settings }
+}
+
+export async function updateVersioningSettings(provider: StorageProvider, settings: VersioningSettings): Promise<VersioningSettings> {
+  await writeJsonObject(provider, SETTINGS_PATH, settings)
+  return settings
+}
+
+/** Lists the stored versions of a file, newest first. */
+export async function listVersions(provider: StorageProvider, path: string): Promise<FileVersion[]> {
+  const folder = getVersionFolder(path)
+  let files
+  try {
+    files = await provider.list(folder)
+  } catch (error) {
+    if (error instanceof StorageError && error.status === 404) return []
+    throw error
+  }
+
+  return files
+    .filter(file => !file.IsDirectory)
+    .map(file => ({
+      id: file.ObjectName,
+      path: `${folder}${file.ObjectName}`,
+      size: file.Length,
+      createdAt: file.LastChanged,
+      checksum: file.Checksum,
+    }))
+    // Names start with the snapshot time, so they sort chronologically
+    .sort((a, b) => b.id.localeCompare(a.id))
+}
+
+async function createSnapshot(provider: StorageProvider, path: string): Promise<FileVersion | null> {
+  const current = await provider.stat(path)
+  if (!current || current.IsDirectory) return null
+
+  const name = path.split('/').pop() as string
+  const createdAt = new Date().toISOString()
+  const id = `${createdAt.replace(/[:.]/g, '-')}_${name}`
+  const versionPath = `${getVersionFolder(path)}${id}`
+  await copyObject(provider, path, provider, versionPath, current.Checksum || undefined)
+  return { id, path: versionPath, size: current.Length, createdAt, checksum: current.Checksum }
+}
+
+async function pruneVersions(provider: StorageProvider, path: string, maxVersions: number): Promise<void> {
+  if (maxVersions <= 0) return
+  const versions = await listVersions(provider, path)
+  for (const version of versions.slice(maxVersions)) {
+    await provider.delete(version.path)
+  }
+}
+
+/**
+ * Copies the current content of `path` into its version history when
+ * versioning is on and the file exists. Returns the new version, if any.
+ */
+export async function snapshotVersion(provider: StorageProvider, path: string): Promise<FileVersion | null> {
+  const settings = await getVersioningSettings(provider)
+  if (!settings.enabled) return null
+
+  const objectPath = toObjectPath(path)
+  const version = await createSnapshot(provider, objectPath)
+  await pruneVersions(provider, objectPath, settings.maxVersions)
+  return version
+}
+
+/**
+ * Writes a stored version back over the file. The content being replaced is
+ * snapshotted first, so a restore can itself be undone.
+ */
+export async function restoreVersion(provider: StorageProvider, path: string, versionId: string): Promise<void> {
+  const objectPath = toObjectPath(path)
+  const version = (await listVersions(provider, objectPath)).find(item => item.id === versionId)
+  if (!version) {
+    throw new StorageError('Version not found', 404)
+  }
+
+  const settings = await getVersioningSettings(provider)
+  if (settings.enabled) await createSnapshot(provider, objectPath)
+  await copyObject(provider, version.path, provider, objectPath, version.checksum || undefined)
+  // Pruned only now, so the version being restored cannot be the one removed
+  if (settings.enabled) await pruneVersions(provider, objectPath, settings.maxVersions)
+}
@@ -0,0 +1,107 @@
+import archiver from 'archiver'
+import { PassThrough, Readable } from 'stream'
+import { StorageProvider } from './types'
+import { listTree, toFolderPath, toObjectPath } from './operations'
+
+export interface ArchiveOptions {
+  flatten?: boolean // Put every file at the top level of the archive
+  excludeKeep?: boolean // Leave out the .keep markers used to create empty folders
+}
+
+export interface ArchiveEntry {
+  path: string // Full path in storage
+  name: string // Path inside the archive
+  date?: Date
+}
+
+const KEEP_FILE = '.keep'
+
+// Flattened archives can contain the same file name twice; later ones get a numbered suffix
+function makeUnique(name: string, used: Set<string>): string {
+  if (!used.has(name)) return name
+  const dot = name.lastIndexOf('.')
+  const base = dot > 0 ? name.slice(0, dot) : name
+  const extension = dot > 0 ? name.slice(dot) : ''
+  let counter = 1
+  while (used.has(`${base} (${counter})${extension}`)) counter++
+  return `${base} (${counter})${extension}`
+}
+
+/**
+ * Resolves the requested paths into archive entries. Paths ending in '/' are
+ * folders and are walked recursively; entries are named relative to the
+ * folder that contains the requested item, so a folder keeps its own name.
+ */
+export async function collectArchiveEntries(provider: StorageProvider, paths: string[], options: ArchiveOptions = {}): Promise<ArchiveEntry[]> {
+  const entries: ArchiveEntry[] = []
+  const used = new Set<string>()
+
+  const add = (path: string, relativeName: string, lastChanged?: string) => {
+    const baseName = relativeName.split('/').pop() || relativeName
+    if (options.excludeKeep && baseName === KEEP_FILE) return
+    const name = makeUnique(options.flatten ? baseName : relativeName, used)
+    used.add(name)
+    entries.push({ path, name, date: lastChanged ? new Date(lastChanged) : undefined })
+  }
+
+  for (const requested of paths) {
+    if (requested.endsWith('/')) {
+      const folder = toFolderPath(requested)
+      const folderName = folder === '/' ? '' : `${folder.slice(0, -1).split('/').pop()}/`
+      for (const entry of await listTree(provider, folder)) {
+        add(entry.path, `${folderName}${entry.relativePath}`, entry.file.LastChanged)
+      }
+    } else {
+      const path = toObjectPath(requested)
+      const file = await provider.stat(path)
+      add(path, path.split('/').pop() || path, file?.LastChanged)
+    }
+  }
+
+  return entries
+}
+
+/**
+ * Streams a ZIP archive of the given entries. Objects are downloaded one at a
+ * time as the archive is consumed, so memory use does not grow with its size.
+ */
+export function createZipStream(provider: StorageProvider, entries: ArchiveEntry[]): Readable {
+  const archive = archiver('zip', { zlib: { level: 6 } })
+  const output = new PassThrough()
+  archive.pipe(output)
+
+  // Stop fetching objects when the client goes away mid-download
+  let closed = false
+  let abortCurrent: (() => void) | null = null
+  output.once('close', () => {
+    closed = true
+    abortCurrent?.()
+  })
+
+  const run = async () => {
+    for (const entry of entries) {
+      if (closed) return
+      const object = await provider.download(entry.path)
+      await new Promise<void>((resolve, reject) => {
+        abortCurrent = () => {
+          object.body.destroy()
+          resolve()
+        }
+        archive.once('entry', () => resolve())
+        object.body.once('error', reject)
+        archive.append(object.body, { name: entry.name, date: entry.date })
+      })
+      abortCurrent = null
+    }
+    await archive.finalize()
+  }
+
+  run().catch(error => {
+    console.error('Failed to build archive:', error)
+    // Aborting leaves a truncated file, which the browser reports as a failed download
+    archive.abort()
+    output.destroy(error)
+  })
+
+  return output
+}
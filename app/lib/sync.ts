@@ -0,0 +1,108 @@
+import { BunnyFile } from '../types/bunny'
+import { computeChecksum } from './bunny-api'
+
+/**
+ * Compares a local directory picked in the browser with a remote folder.
+ * Files are matched by relative path; same-sized files are told apart by
+ * SHA-256, so only files that really differ are uploaded again.
+ */
+
+export type SyncStatus = 'new' | 'changed' | 'unchanged' | 'remoteOnly'
+
+export interface LocalSyncFile {
+  relativePath: string // Below the picked directory, e.g. "assets/app.js"
+  file: File
+}
+
+export interface SyncEntry {
+  relativePath: string
+  status: SyncStatus
+  reason?: string // Why a file counts as changed
+  local?: File
+  remote?: BunnyFile
+  localChecksum?: string
+}
+
+export interface SyncPlan {
+  localName: string // Name of the picked directory
+  remotePath: string // Remote folder, with a trailing slash
+  createdAt: string
+  entries: SyncEntry[]
+}
+
+// Folder markers only exist remotely and are never worth deleting
+const IGNORED_REMOTE_NAMES = ['.keep']
+
+export async function createSyncPlan(
+  localName: string,
+  localFiles: LocalSyncFile[],
+  remotePath: string,
+  remoteFiles: { path: string; file: BunnyFile }[],
+  onProgress?: (completed: number, total: number) => void
+): Promise<SyncPlan> {
+  const root = remotePath.endsWith('/') ? remotePath : `${remotePath}/`
+  const remoteByPath: Record<string, BunnyFile> = {}
+  remoteFiles.forEach(item => { remoteByPath[item.path.slice(root.length)] = item.file })
+
+  const entries: SyncEntry[] = []
+  let completed = 0
+  for (const { relativePath, file } of localFiles) {
+    const remote = remoteByPath[relativePath]
+    if (!remote) {
+      entries.push({ relativePath, status: 'new', local: file })
+    } else if (remote.Length !== file.size) {
+      entries.push({ relativePath, status: 'changed', reason: 'Size differs', local: file, remote })
+    } else if (!remote.Checksum) {
+      entries.push({ relativePath, status: 'changed', reason: 'No remote checksum to compare with', local: file, remote })
+    } else {
+      const localChecksum = await computeChecksum(file)
+      if (localChecksum.toUpperCase() !== remote.Checksum.toUpperCase()) {
+        entries.push({ relativePath, status: 'changed', reason: 'Content differs', local: file, remote, localChecksum })
+      } else {
+        entries.push({ relativePath, status: 'unchanged', local: file, remote, localChecksum })
+      }
+    }
+    onProgress?.(++completed, localFiles.length)
+  }
+
+  const localPaths = new Set(localFiles.map(item => item.relativePath))
+  Object.keys(remoteByPath).forEach(relativePath => {
+    const name = relativePath.split('/').pop() || relativePath
+    if (!localPaths.has(relativePath) && IGNORED_REMOTE_NAMES.indexOf(name) < 0) {
+      entries.push({ relativePath, status: 'remoteOnly', remote: remoteByPath[relativePath] })
+    }
+  })
+
+  entries.sort((a, b) => a.relativePath.localeCompare(b.relativePath))
+  return { localName, remotePath: root, createdAt: new Date().toISOString(), entries }
+}
+
+export function countByStatus(plan: SyncPlan): Record<SyncStatus, number> {
+  const counts: Record<SyncStatus, number> = { new: 0, changed: 0, unchanged: 0, remoteOnly: 0 }
+  plan.entries.forEach(entry => { counts[entry.status]++ })
+  return counts
+}
+
+/** Dry-run report: what applying the plan would upload, delete and leave alone. */
+export function createSyncReport(plan: SyncPlan, deleteRemoteOnly: boolean) {
+  return {
+    local: plan.localName,
+    remote: plan.remotePath,
+    comparedAt: plan.createdAt,
+    deleteRemoteOnly,
+    summary: countByStatus(plan),
+    entries: plan.entries.map(entry => ({
+      path: entry.relativePath,
+      status: entry.status,
+      action: entry.status === 'new' || entry.status === 'changed'
+        ? 'upload'
+        : entry.status === 'remoteOnly' && deleteRemoteOnly ? 'delete' : 'none',
+      reason: entry.reason,
+      localSize: entry.local?.size,
+      remoteSize: entry.remote?.Length,
+      localChecksum: entry.localChecksum,
+      remoteChecksum: entry.remote?.Checksum || undefined,
+      remoteLastChanged: entry.remote?.LastChanged,
+    })),
+  }
+}
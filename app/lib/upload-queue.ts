@@ -0,0 +1,247 @@
+import { BunnyAPIError } from './bunny-api'
+import { ConflictPolicy, TransferItem, UploadOptions, UploadResult } from '../types/bunny'
+
+export interface UploadQueueItem extends TransferItem {
+  file: File
+  path: string
+  relativePath: string // Below `path`; contains folders when a directory was dropped or selected
+  conflict: ConflictPolicy
+  skipped?: boolean // Completed without writing because the target already existed
+  interrupted?: boolean // Paused mid-transfer; the server may have stored it regardless
+  attempts: number
+}
+
+export type Uploader = (item: UploadQueueItem, options: UploadOptions) => Promise<UploadResult | void>
+
+export interface UploadQueueOptions {
+  concurrency?: number
+  maxRetries?: number
+  retryDelay?: number // Base delay in ms, doubled on every attempt
+  onItemSettled?: (item: UploadQueueItem) => void
+  onDiscard?: (item: UploadQueueItem) => void // Cancelled or failed for good; drop anything staged for a later resume
+  onIdle?: (settled: UploadQueueItem[]) => void // Items that finished or failed since the queue was last idle
+}
+
+type Listener = (items: UploadQueueItem[]) => void
+
+/**
+ * Path of a file relative to the dropped or selected directory, or just its
+ * name. react-dropzone sets `relativePath` ("/folder/a.txt" or "./a.txt");
+ * directory inputs set `webkitRelativePath` ("folder/a.txt"); older
+ * file-selector versions only set `path` ("/folder/a.txt").
+ */
+export function getRelativePath(file: File): string {
+  const { relativePath, path } = file as File & { relativePath?: string; path?: string }
+  const candidate = relativePath || file.webkitRelativePath || path || file.name
+  return candidate.replace(/^\.?\//, '') || file.name
+}
+
+// Network errors carry no status; rate limiting and server errors are worth another try
+function isTransientError(error: unknown): boolean {
+  if (!(error instanceof BunnyAPIError)) return false
+  if (error.status === undefined) return true
+  return error.status === 408 || error.status === 429 || error.status >= 500
+}
+
+/**
+ * Client-side upload queue: runs a configurable number of uploads in
+ * parallel, retries transient failures with exponential backoff and supports
+ * per-item cancel/retry as well as pausing the whole queue.
+ */
+export class UploadQueue {
+  private uploader: Uploader
+  private options: Required<Pick<UploadQueueOptions, 'concurrency' | 'maxRetries' | 'retryDelay'>> & UploadQueueOptions
+  private items: UploadQueueItem[] = []
+  private controllers = new Map<string, AbortController>()
+  private retryTimers = new Map<string, ReturnType<typeof setTimeout>>()
+  private listeners = new Set<Listener>()
+  private paused = false
+  private settled: UploadQueueItem[] = []
+  private nextId = 0
+
+  constructor(uploader: Uploader, options: UploadQueueOptions = {}) {
+    this.uploader = uploader
+    this.options = { concurrency: 3, maxRetries: 3, retryDelay: 1000, ...options }
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener)
+    listener(this.items)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  getItems(): UploadQueueItem[] {
+    return this.items
+  }
+
+  isPaused(): boolean {
+    return this.paused
+  }
+
+  getConcurrency(): number {
+    return this.options.concurrency
+  }
+
+  setConcurrency(concurrency: number): void {
+    this.options.concurrency = Math.max(1, concurrency)
+    this.emit()
+    this.pump()
+  }
+
+  /** Queues files for `path`; `getConflict` picks the policy per relative path and defaults to overwrite. */
+  add(files: File[], path: string, getConflict?: (relativePath: string) => ConflictPolicy): void {
+    this.addEntries(files.map(file => ({ file, relativePath: getRelativePath(file) })), path, getConflict)
+  }
+
+  /** Like `add`, for callers that decide the path below `path` themselves. */
+  addEntries(entries: { file: File; relativePath: string }[], path: string, getConflict?: (relativePath: string) => ConflictPolicy): void {
+    const added = entries.map(({ file, relativePath }) => ({
+      id: `upload-${Date.now()}-${this.nextId++}`,
+      name: relativePath,
+      file,
+      path,
+      relativePath,
+      conflict: getConflict ? getConflict(relativePath) : 'overwrite' as const,
+      loaded: 0,
+      total: file.size,
+      status: 'pending' as const,
+      attempts: 0,
+    }))
+    this.items = [...this.items, ...added]
+    this.emit()
+    this.pump()
+  }
+
+  cancel(id: string): void {
+    const item = this.items.find(item => item.id === id)
+    if (!item || (item.status !== 'pending' && item.status !== 'active')) return
+
+    this.clearRetryTimer(id)
+    this.update(id, { status: 'cancelled', error: undefined })
+    this.controllers.get(id)?.abort()
+    this.options.onDiscard?.(item)
+    this.pump()
+  }
+
+  retry(id: string): void {
+    const item = this.items.find(item => item.id === id)
+    if (!item || (item.status !== 'failed' && item.status !== 'cancelled')) return
+
+    this.update(id, { status: 'pending', loaded: 0, attempts: 0, error: undefined })
+    this.pump()
+  }
+
+  pause(): void {
+    if (this.paused) return
+    this.paused = true
+
+    // Interrupted uploads go back to the front of the queue and restart on resume
+    this.items.forEach(item => {
+      if (item.status === 'active') {
+        this.update(item.id, { status: 'pending', loaded: 0, interrupted: true })
+        this.controllers.get(item.id)?.abort()
+      }
+    })
+    this.retryTimers.forEach(timer => clearTimeout(timer))
+    this.retryTimers.clear()
+    this.emit()
+  }
+
+  resume(): void {
+    if (!this.paused) return
+    this.paused = false
+    this.emit()
+    this.pump()
+  }
+
+  clearFinished(): void {
+    this.items = this.items.filter(item => item.status === 'pending' || item.status === 'active')
+    this.emit()
+  }
+
+  private pump(): void {
+    if (this.paused) return
+
+    let active = this.items.filter(item => item.status === 'active').length
+    for (const item of this.items) {
+      if (active >= this.options.concurrency) break
+      if (item.status === 'pending' && !this.retryTimers.has(item.id)) {
+        active++
+        this.start(item)
+      }
+    }
+
+    if (active === 0 && this.settled.length > 0 && !this.items.some(item => item.status === 'pending')) {
+      const settled = this.settled
+      this.settled = []
+      this.options.onIdle?.(settled)
+    }
+  }
+
+  private async start(item: UploadQueueItem): Promise<void> {
+    const controller = new AbortController()
+    this.controllers.set(item.id, controller)
+    this.update(item.id, { status: 'active', attempts: item.attempts + 1, error: undefined })
+
+    try {
+      const result = await this.uploader(item, {
+        signal: controller.signal,
+        resumed: item.interrupted,
+        onProgress: ({ loaded, total }) => {
+          if (!controller.signal.aborted) this.update(item.id, { loaded, total })
+        },
+      })
+      this.update(item.id, { status: 'completed', loaded: item.total, skipped: result ? result.skipped : false })
+      this.settle(item.id)
+    } catch (error) {
+      // Cancelled or paused items already have their new status
+      if (controller.signal.aborted) return
+
+      const current = this.items.find(entry => entry.id === item.id)
+      const attempts = current?.attempts ?? 1
+      const message = error instanceof Error ? error.message : 'Upload failed'
+
+      if (isTransientError(error) && attempts <= this.options.maxRetries) {
+        const delay = this.options.retryDelay * Math.pow(2, attempts - 1) * (0.75 + Math.random() * 0.5)
+        this.update(item.id, { status: 'pending', loaded: 0, error: `${message} - retrying` })
+        this.retryTimers.set(item.id, setTimeout(() => {
+          this.retryTimers.delete(item.id)
+          this.pump()
+        }, delay))
+      } else {
+        this.update(item.id, { status: 'failed', error: message })
+        this.options.onDiscard?.(item)
+        this.settle(item.id)
+      }
+    } finally {
+      this.controllers.delete(item.id)
+      this.pump()
+    }
+  }
+
+  private settle(id: string): void {
+    const item = this.items.find(item => item.id === id)
+    if (!item) return
+    this.settled.push(item)
+    this.options.onItemSettled?.(item)
+  }
+
+  private clearRetryTimer(id: string): void {
+    const timer = this.retryTimers.get(id)
+    if (timer) {
+      clearTimeout(timer)
+      this.retryTimers.delete(id)
+    }
+  }
+
+  private update(id: string, changes: Partial<UploadQueueItem>): void {
+    this.items = this.items.map(item => item.id === id ? { ...item, ...changes } : item)
+    this.emit()
+  }
+
+  private emit(): void {
+    this.listeners.forEach(listener => listener(this.items))
+  }
+}
@@ -5,7 +5,9 @@ import Image from 'next/image'
 import { CheckCircle, XCircle, X } from 'lucide-react'
 import ConnectionManager from './components/ConnectionManager'
 import FileManager from './components/FileManagerNew'
+import DualPaneView from './components/DualPaneView'
 import { BunnyConnection } from './types/bunny'
+import { BunnyAPI } from './lib/bunny-api'
 
 interface Flag {
   id: number
@@ -17,6 +19,7 @@ interface Flag {
 export default function Home() {
   const [connection, setConnection] = useState<BunnyConnection | null>(null)
   const [isLoading, setIsLoading] = useState(false)
+  const [splitView, setSplitView] = useState(false)
   const [flags, setFlags] = useState<Flag[]>([])
 
   const addFlag = (flag: Omit<Flag, 'id'>) => {
@@ -50,6 +53,15 @@ export default function Home() {
     })
   }
 
+  // Transfers in the split view fail on their own, not because the connection did
+  const handleTransferError = (error: string) => {
+    addFlag({
+      appearance: 'error',
+      title: 'Transfer Failed',
+      description: error,
+    })
+  }
+
   return (
     <div className="min-h-screen bg-gray-50">
       {!connection ? (
@@ -82,24 +94,53 @@ export default function Home() {
           </main>
         </>
           ) : (
-            <FileManager
-              key={connection.user} // Force re-render when connection changes
-              connection={connection}
-              onError={(error) => handleConnectionError(error)}
-              onSuccess={(message) => addFlag({
-                appearance: 'success',
-                title: 'Success',
-                description: message,
-              })}
-              onDisconnect={() => {
-                setConnection(null)
-                addFlag({
-                  appearance: 'success',
-                  title: 'Disconnected',
-                  description: 'Successfully disconnected from storage',
-                })
-              }}
-            />
+            <>
+              {splitView && (
+                <DualPaneView
+                  connection={connection}
+                  onClose={() => setSplitView(false)}
+                  onError={handleTransferError}
+                  onSuccess={(message) => addFlag({
+                    appearance: 'success',
+                    title: 'Success',
+                    description: message,
+                  })}
+                />
+              )}
+              {/* Stays mounted behind the split view so running uploads and the transfer panel survive it */}
+              <div className={splitView ? 'hidden' : undefined}>
+                <FileManager
+                  key={connection.id} // Force re-render when connection changes
+                  connection={connection}
+                  hidden={splitView}
+                  onError={(error) => handleConnectionError(error)}
+                  onSuccess={(message) => addFlag({
+                    appearance: 'success',
+                    title: 'Success',
+                    description: message,
+                  })}
+                  onOpenSplitView={() => setSplitView(true)}
+                  onSwitchConnection={(conn) => {
+                    // The previous connection stays in the session so it remains available as a copy target
+                    setConnection(conn)
+                    addFlag({
+                      appearance: 'success',
+                      title: 'Switched Connection',
+                      description: `Connected to ${conn.user}`,
+                    })
+                  }}
+                  onDisconnect={() => {
+                    new BunnyAPI(connection).disconnect()
+                    setConnection(null)
+                    addFlag({
+                      appearance: 'success',
+                      title: 'Disconnected',
+                      description: 'Successfully disconnected from storage',
+                    })
+                  }}
+                />
+              </div>
+            </>
           )}
 
       {/* Toast Notifications */}
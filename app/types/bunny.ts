@@ -1,11 +1,67 @@
+export type StorageProviderType = 'bunny' | 'local'
+
 export interface BunnyConnection {
+  id?: string // Server-side session connection ID, set once connected
+  provider?: StorageProviderType
+  managedZone?: string // ID of a server-configured zone; credentials are resolved from BUNNY_* env vars
   host: string
   user: string
   password: string
   port: number
   url: string
   apiKey?: string
+  hasApiKey?: boolean // Set instead of the key on connections handed to the browser
   libraryId?: string
+  userName?: string // Who is working through this connection; recorded as the author of deletes
+}
+
+// Passphrase-encrypted secrets of a saved profile (AES-GCM under a PBKDF2 key); each field is base64
+export interface EncryptedSecret {
+  salt: string
+  iv: string
+  data: string
+}
+
+// Named connection saved in this browser; only the access key and API key are encrypted
+export interface ConnectionProfile {
+  id: string
+  name: string
+  provider: StorageProviderType
+  host: string
+  user: string
+  port: number
+  url: string
+  libraryId?: string
+  secret?: EncryptedSecret // Absent for providers without credentials
+  createdAt: string
+  lastUsedAt?: string
+}
+
+// Outcome of listing a storage zone's root on one endpoint
+export interface RegionProbeResult {
+  host: string
+  ok: boolean
+  latencyMs?: number // Round trip of the listing, when the endpoint answered at all
+  status?: number // HTTP status of a refused listing
+  error?: string
+}
+
+export type DiagnosticStatus = 'pass' | 'fail' | 'skipped'
+
+// One step of the connection diagnostics run by /api/bunny/test
+export interface DiagnosticCheck {
+  id: 'list' | 'write' | 'pullZone' | 'delete'
+  label: string
+  status: DiagnosticStatus
+  detail?: string // What went wrong, or why the step was skipped
+  durationMs?: number
+}
+
+export interface ManagedZoneInfo {
+  id: string
+  label: string
+  user: string
+  url: string
 }
 
 export interface BunnyFile {
@@ -38,3 +94,146 @@ export interface ImageOptimizationOptions {
     height: number
   }
 }
+
+export interface UploadProgress {
+  loaded: number
+  total: number
+}
+
+export interface UploadOptions {
+  onProgress?: (progress: UploadProgress) => void
+  signal?: AbortSignal
+  name?: string // Path of the file below the target folder, e.g. "icons/logo.svg"; defaults to the file name
+  conflict?: ConflictPolicy // What to do when the target exists; defaults to overwrite
+  operation?: 'upload' | 'optimize' // How the upload is recorded in the audit log; defaults to upload
+  resumed?: boolean // An earlier attempt was interrupted and may have been stored anyway
+}
+
+export interface UploadResult {
+  path: string // Where the file was stored; differs from the requested path for "keep both"
+  skipped: boolean
+}
+
+export type TransferStatus = 'pending' | 'active' | 'completed' | 'failed' | 'cancelled'
+
+export interface TransferItem {
+  id: string
+  name: string
+  loaded: number
+  total: number
+  status: TransferStatus
+  error?: string
+}
+
+export type OperationItemStatus = 'done' | 'skipped' | 'failed'
+
+export interface OperationItemResult {
+  path: string
+  target?: string
+  status: OperationItemStatus
+  error?: string
+  bytes?: number
+}
+
+// What to do when a target path already exists
+export type ConflictPolicy = 'overwrite' | 'skip' | 'keepBoth'
+
+// "ask" is resolved in the browser into one of the policies above for each conflicting item
+export type ConflictMode = ConflictPolicy | 'ask'
+
+// Outcome of an operation touching several objects; partial failures are reported per item
+export interface OperationReport {
+  items: OperationItemResult[]
+  succeeded: number
+  skipped: number
+  failed: number
+}
+
+// Streamed by long-running routes (copy, extract) as newline-delimited JSON
+export type OperationProgressEvent =
+  | { type: 'start'; total: number; bytes: number }
+  | { type: 'item'; item: OperationItemResult }
+  | { type: 'done'; report: OperationReport }
+  | { type: 'error'; error: string }
+
+// Per-zone recycle bin settings, stored in the zone's trash manifest
+export interface TrashSettings {
+  enabled: boolean // When off, deletes are permanent
+  retentionDays: number // Items older than this are purged automatically; 0 keeps them until purged by hand
+}
+
+export interface TrashItem {
+  id: string
+  name: string
+  originalPath: string // Where the item was deleted from, without a trailing slash
+  isDirectory: boolean
+  size: number
+  fileCount: number
+  deletedBy: string
+  deletedAt: string
+}
+
+export interface TrashListing {
+  settings: TrashSettings
+  items: TrashItem[]
+}
+
+// Per-zone CDN settings
+export interface CdnSettings {
+  purgeAfterChanges: boolean // Purge changed paths from the pull zone cache after every change made through the app
+}
+
+// Per-zone version history settings
+export interface VersioningSettings {
+  enabled: boolean // Snapshot a file's previous content before an upload replaces it
+  maxVersions: number // Oldest versions beyond this many per file are deleted; 0 keeps all
+}
+
+export interface FileVersion {
+  id: string
+  path: string // Where the snapshot is stored; works with the download route
+  size: number
+  createdAt: string // When this content was replaced
+  checksum: string | null
+}
+
+export interface VersionListing {
+  settings: VersioningSettings
+  versions: FileVersion[] // Newest first
+}
+
+export type AuditOperation =
+  | 'upload'
+  | 'optimize'
+  | 'delete'
+  | 'move'
+  | 'copy'
+  | 'extract'
+  | 'restore'
+  | 'purge'
+  | 'restoreVersion'
+  | 'updateSettings'
+  | 'purgeCache'
+
+export type AuditResult = 'success' | 'partial' | 'skipped' | 'failure'
+
+// One line of the append-only audit log
+export interface AuditEntry {
+  id: string
+  timestamp: string
+  actor: string
+  zone: string // Storage zone key, e.g. "bunny:storage.bunnycdn.com:my-zone"
+  connectionId: string
+  operation: AuditOperation
+  paths: string[] // Source first, then the target for moves and copies
+  bytes?: number
+  result: AuditResult
+  counts?: { succeeded: number; skipped: number; failed: number } // For operations on several objects
+  note?: string
+  error?: string
+}
+
+export interface AuditListing {
+  entries: AuditEntry[] // Newest first, cut off at the requested limit
+  total: number // Number of matching entries before the limit
+}